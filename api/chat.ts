@@ -0,0 +1,332 @@
+/**
+ * Multi-turn chat with a hash-chained transcript. Every turn records the user message,
+ * the assistant reply, the answering provider/model and the canonical params, and links
+ * to the previous turn:
+ *
+ *   turnHash = sha256(canonicalJson({ sessionId, index, prevHash, userHash, replyHash,
+ *                                     provider, modelId, paramsHash, timestamp }))
+ *
+ * with prevHash = ZERO_HASH for the first turn. Signing turn N publishes the transcript
+ * up to N and signs its head (`transcriptHead`, `transcriptCid`, `turnIndex`), so the
+ * signature covers every earlier turn as well; signing the last turn covers the whole
+ * conversation. Providers receive the conversation rendered into one prompt.
+ * NOTE: Sessions are ephemeral like the other in-memory stores; the published transcript
+ * is the durable record.
+ */
+
+import crypto from 'crypto';
+import { summarizeWithFallback, resolveProviderChain, modelIdFor, ProviderName } from './providers';
+import { hashParams } from './params';
+import { canonicalJson } from './structured';
+import { recordUsage } from './usageStore';
+import { addFile, addJson, getJson } from './ipfs';
+import { CURRENT_PROVENANCE_VERSION } from './provenanceSchema';
+import { domain, types, ZERO_HASH, ContentProvenanceValue, UnsignedProvenanceResponse, TokenUsage, Eip712Domain } from './types';
+import type { ProviderAttempt, FallbackResult } from './providers';
+import type { RenderedPrompt } from './templates';
+
+export interface ChatTurn {
+  index: number;
+  prevHash: string;
+  userHash: string;           // sha256 of the user message
+  replyHash: string;          // sha256 of the assistant reply
+  provider: string;           // provider that answered
+  modelId: string;
+  modelHash: string;          // unsigned here; the turn's provenance signs it
+  paramsHash: string;
+  params: Record<string, any>; // preimage of paramsHash
+  timestamp: number;
+  turnHash: string;
+  user: string;
+  reply: string;
+}
+
+export interface ChatSession {
+  sessionId: string;
+  signer: string;
+  createdAt: number;
+  turns: ChatTurn[];
+  pending: boolean;           // a turn is being generated; the next one must wait for it
+}
+
+// Published prefix of a session (turns 0..N)
+export interface ChatTranscript {
+  version: 1;
+  kind: 'chat-transcript';
+  chain: 'sha256-v1';
+  sessionId: string;
+  turns: ChatTurn[];
+  head: string;               // turnHash of the last turn
+}
+
+export interface SendChatOptions {
+  sessionId?: string;         // omitted = new session
+  signer: string;
+  message: string;
+  provider: ProviderName;
+  model?: string;
+  params?: Record<string, any>;
+  fallback?: ProviderName[];
+  strict?: boolean;
+}
+
+const DEFAULT_MAX_TURNS = 50;
+
+const SYSTEM_PROMPT = 'You are a helpful assistant in a multi-turn conversation. Answer the latest user message, using the earlier turns as context.';
+
+// Shared across route bundles (see usageStore)
+const globalSessions = globalThis as unknown as { __chatSessions?: Map<string, ChatSession> };
+const sessions: Map<string, ChatSession> = globalSessions.__chatSessions || (globalSessions.__chatSessions = new Map());
+
+function sha256Hex(data: string) {
+  return '0x' + crypto.createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+export function maxChatTurns(): number {
+  const n = Number(process.env.CHAT_MAX_TURNS);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_MAX_TURNS;
+}
+
+export function getChatSession(sessionId: string): ChatSession | undefined {
+  return sessions.get(sessionId);
+}
+
+export function computeTurnHash(sessionId: string, t: Omit<ChatTurn, 'turnHash' | 'user' | 'reply' | 'params' | 'modelHash'>): string {
+  return sha256Hex(canonicalJson({
+    sessionId,
+    index: t.index,
+    prevHash: t.prevHash.toLowerCase(),
+    userHash: t.userHash.toLowerCase(),
+    replyHash: t.replyHash.toLowerCase(),
+    provider: t.provider,
+    modelId: t.modelId,
+    paramsHash: t.paramsHash.toLowerCase(),
+    timestamp: t.timestamp
+  }));
+}
+
+/**
+ * Re-walk the chain. `brokenAt` is the first turn whose index, link, text or params do not
+ * match its hashes; `head` is the recomputed hash of the last turn.
+ */
+export function verifyTranscript(transcript: ChatTranscript): { head: string; brokenAt?: number } {
+  let prev = ZERO_HASH;
+  for (let i = 0; i < transcript.turns.length; i++) {
+    const t = transcript.turns[i];
+    const textOk = (t.user === undefined || sha256Hex(t.user) === t.userHash.toLowerCase())
+      && (t.reply === undefined || sha256Hex(t.reply) === t.replyHash.toLowerCase())
+      && (t.params === undefined || hashParams(t.params).toLowerCase() === t.paramsHash.toLowerCase());
+    const hash = computeTurnHash(transcript.sessionId, t);
+    if (t.index !== i || t.prevHash.toLowerCase() !== prev || !textOk || hash !== t.turnHash.toLowerCase()) {
+      return { head: hash, brokenAt: i };
+    }
+    prev = hash;
+  }
+  return { head: prev };
+}
+
+// Earlier turns and the new message as a single prompt for providers without chat history
+export function renderConversation(history: ChatTurn[], message: string): RenderedPrompt {
+  const lines = history.map(t => `User: ${t.user}\n\nAssistant: ${t.reply}`);
+  lines.push(`User: ${message}\n\nAssistant:`);
+  return { system: SYSTEM_PROMPT, user: lines.join('\n\n') };
+}
+
+export async function sendChatMessage(opts: SendChatOptions): Promise<{ session: ChatSession; turn: ChatTurn; usage?: TokenUsage; attempts: ProviderAttempt[] }> {
+  // Session existence, ownership and the turn limit are checked by the route
+  let session = opts.sessionId ? sessions.get(opts.sessionId) : undefined;
+  if (opts.sessionId && !session) throw new Error(`Unknown chat session ${opts.sessionId}`);
+  if (session?.pending) throw new Error('A turn is already being generated for this session');
+  if (!session) {
+    session = { sessionId: crypto.randomUUID(), signer: opts.signer, createdAt: Date.now(), turns: [], pending: false };
+  }
+
+  const history = session.turns;
+  const chain = resolveProviderChain(opts.provider, opts.fallback, opts.strict);
+  session.pending = true;
+  let generation: FallbackResult;
+  try {
+    generation = await summarizeWithFallback({
+      chain,
+      text: opts.message,
+      model: opts.model,
+      params: opts.params,
+      renderPrompt: message => renderConversation(history, message),
+      signer: opts.signer
+    });
+  } finally {
+    session.pending = false;
+  }
+  const response = generation.response;
+  const modelId = modelIdFor(generation.provider, response.model);
+  const prev = history.length ? history[history.length - 1].turnHash : ZERO_HASH;
+  const base = {
+    index: history.length,
+    prevHash: prev,
+    userHash: sha256Hex(opts.message),
+    replyHash: sha256Hex(response.summary),
+    provider: generation.provider,
+    modelId,
+    paramsHash: hashParams(response.params),
+    timestamp: Date.now()
+  };
+  const turn: ChatTurn = {
+    ...base,
+    modelHash: response.modelHash || '',
+    params: response.params,
+    turnHash: computeTurnHash(session.sessionId, base),
+    user: opts.message,
+    reply: response.summary
+  };
+  // Appended only after the provider answered, so a failed call leaves the chain untouched
+  session.turns.push(turn);
+  sessions.set(session.sessionId, session);
+
+  if (response.usage) {
+    recordUsage({
+      timestamp: turn.timestamp,
+      signer: opts.signer,
+      requestedProvider: generation.requestedProvider,
+      provider: generation.provider,
+      model: response.model,
+      modelId,
+      outputHash: turn.replyHash,
+      usage: response.usage
+    });
+  }
+  return { session, turn, usage: response.usage, attempts: generation.attempts };
+}
+
+export function buildTranscript(session: ChatSession, upToIndex: number): ChatTranscript {
+  const turns = session.turns.slice(0, upToIndex + 1);
+  return {
+    version: 1,
+    kind: 'chat-transcript',
+    chain: 'sha256-v1',
+    sessionId: session.sessionId,
+    turns,
+    head: turns[turns.length - 1].turnHash
+  };
+}
+
+/**
+ * Unsigned provenance for one turn: promptHash/outputHash are that turn's user message and
+ * reply, and the transcript up to the turn is published and its head signed
+ */
+export async function chatTurnProvenance(session: ChatSession, turnIndex: number, signingDomain: Eip712Domain = domain): Promise<UnsignedProvenanceResponse> {
+  const turn = session.turns[turnIndex];
+  if (!turn) throw new Error(`Chat session has no turn ${turnIndex}`);
+  const transcript = buildTranscript(session, turnIndex);
+  const [transcriptCid, contentCid, promptCid] = await Promise.all([
+    addJson(transcript),
+    addFile(Uint8Array.from(Buffer.from(turn.reply))),
+    addFile(Uint8Array.from(Buffer.from(turn.user)))
+  ]);
+
+  const provenance: ContentProvenanceValue = {
+    version: CURRENT_PROVENANCE_VERSION,
+    modelId: turn.modelId,
+    modelHash: turn.modelHash,
+    promptHash: turn.userHash,
+    outputHash: turn.replyHash,
+    paramsHash: turn.paramsHash,
+    contentCid,
+    timestamp: Date.now(),
+    attestationStrategy: 'none',
+    keywordsHash: ZERO_HASH,
+    programHash: ZERO_HASH,
+    journalCid: '',
+    proofCid: '',
+    requestedProvider: turn.provider,
+    provider: turn.provider,
+    chunkRoot: ZERO_HASH,
+    chunkManifestCid: '',
+    templateId: '',
+    templateHash: ZERO_HASH,
+    schemaHash: ZERO_HASH,
+    bundleHash: ZERO_HASH,
+    bundleCid: '',
+    transcriptHead: transcript.head,
+    transcriptCid,
+    turnIndex,
+    sourcesRoot: ZERO_HASH,
+    sourcesManifestCid: '',
+    moderationPolicyId: '',
+    moderationPolicyHash: ZERO_HASH,
+    moderationVerdict: '',
+    mimeType: 'text/plain',
+    license: '',
+    parentCid: '',
+    parentRelation: ''
+  };
+
+  // Prune unused EIP-712 types to avoid ambiguity (we only sign ContentProvenance)
+  const prunedTypes: any = { ContentProvenance: types.ContentProvenance };
+  return {
+    provenance,
+    domain: signingDomain,
+    types: prunedTypes,
+    primaryType: 'ContentProvenance',
+    providerOutput: turn.reply,
+    promptCid,
+    params: turn.params,
+    chat: { sessionId: session.sessionId, turnIndex, turns: transcript.turns.length }
+  };
+}
+
+/**
+ * Verifier view of a chat turn provenance: fetch the transcript, re-walk the chain to the
+ * signed head and, when `quote` is given, check the quoted reply sits at the claimed position
+ */
+export async function checkChatProvenance(
+  prov: ContentProvenanceValue,
+  quote?: { reply: string; turnIndex?: number }
+): Promise<{ chat: Record<string, any> | null; issues: string[]; warnings: string[] }> {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  if (!prov.transcriptHead || prov.transcriptHead === ZERO_HASH) {
+    if (quote) issues.push('chat_turn_not_found');
+    return { chat: null, issues, warnings };
+  }
+  if (!prov.transcriptCid) return { chat: null, issues: ['transcript_missing'], warnings };
+
+  let transcript: ChatTranscript;
+  try {
+    transcript = await getJson(prov.transcriptCid);
+  } catch {
+    return { chat: null, issues, warnings: ['transcript_fetch_failed'] };
+  }
+  const { head, brokenAt } = verifyTranscript(transcript);
+  if (brokenAt !== undefined) issues.push('transcript_chain_broken');
+  if (head.toLowerCase() !== prov.transcriptHead.toLowerCase()) issues.push('transcript_head_mismatch');
+  const turnIndex = Number(prov.turnIndex);
+  const signedTurn = transcript.turns[turnIndex];
+  if (transcript.turns.length !== turnIndex + 1 || !signedTurn
+    || signedTurn.replyHash.toLowerCase() !== (prov.outputHash || '').toLowerCase()
+    || signedTurn.userHash.toLowerCase() !== (prov.promptHash || '').toLowerCase()) {
+    issues.push('transcript_turn_mismatch');
+  }
+  let quoted: Record<string, any> | undefined;
+  if (quote) {
+    const index = quote.turnIndex ?? turnIndex;
+    const turn = transcript.turns[index];
+    const verified = !!turn && sha256Hex(quote.reply) === turn.replyHash.toLowerCase();
+    if (!turn) issues.push('chat_turn_not_found');
+    else if (!verified) issues.push('chat_reply_mismatch');
+    quoted = { index, verified, turnHash: turn?.turnHash || null };
+  }
+  return {
+    chat: {
+      sessionId: transcript.sessionId,
+      transcriptCid: prov.transcriptCid,
+      head: prov.transcriptHead,
+      recomputedHead: head,
+      turnIndex,
+      turns: transcript.turns.length,
+      brokenAt: brokenAt ?? null,
+      quoted
+    },
+    issues,
+    warnings
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Multi-provider consensus. The same prompt goes to several providers in parallel; every
+ * output is hashed separately (and stored on IPFS once every member's output has passed
+ * output screening, see storeConsensusOutputs), and an agreement score is computed from
+ * keyword overlap. A bundle manifest lists each member's provider, model, paramsHash,
+ * outputHash and contentCid; its hash is signed as `bundleHash` (next to `bundleCid`), so one
+ * signature commits to every output. The member that agrees most with the others is the
+ * bundle's selected output and fills the usual outputHash/contentCid fields.
+ *
+ * Agreement (keyword-jaccard-v1): each output's top keywords (lowercase words longer than
+ * three characters, stopwords removed, most frequent first, ties alphabetical); the score
+ * of a pair is |A ∩ B| / |A ∪ B| and the bundle score is the mean over all pairs.
+ */
+
+import crypto from 'crypto';
+import { summarizeWithProvider, getProvider, modelIdFor, ProviderName, QueueHandler } from './providers';
+import { canonicalizeParams, hashParams } from './params';
+import { canonicalJson } from './structured';
+import { addFile } from './ipfs';
+import { AIModelResponse } from './types';
+import type { RenderedPrompt } from './templates';
+
+export interface ConsensusOptions {
+  providers: ProviderName[];            // at least two, each asked once (no fallback)
+  models?: Record<string, string>;      // per-provider model override
+}
+
+export interface ConsensusMember {
+  provider: string;
+  model: string;
+  modelId: string;
+  modelHash: string;
+  paramsHash: string;
+  outputHash: string;
+  contentCid: string;
+  keywords: string[];
+}
+
+export interface ConsensusBundle {
+  version: 1;
+  kind: 'consensus-bundle';
+  method: 'keyword-jaccard-v1';
+  promptHash: string;
+  members: ConsensusMember[];
+  failures: Array<{ provider: string; error: string }>;
+  agreement: {
+    score: number;                      // mean pairwise Jaccard, 0..1
+    pairwise: Array<{ a: number; b: number; score: number }>;
+  };
+  selected: number;                     // index of the member signed as the primary output
+}
+
+export interface ConsensusResult {
+  bundle: ConsensusBundle;
+  responses: AIModelResponse[];         // per member, same order as bundle.members
+}
+
+const KEYWORD_COUNT = 15;
+const MIN_MEMBERS = 2;
+
+const STOPWORDS = new Set([
+  'about', 'also', 'been', 'being', 'both', 'from', 'have', 'into', 'more', 'most', 'only', 'other',
+  'over', 'same', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'those', 'through', 'very', 'were', 'what', 'when', 'which', 'while', 'will', 'with', 'would', 'your'
+]);
+
+function sha256Hex(data: string) {
+  return '0x' + crypto.createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+export function extractKeywords(text: string, limit = KEYWORD_COUNT): string[] {
+  const counts: Record<string, number> = {};
+  for (const w of text.toLowerCase().split(/[^a-z0-9]+/)) {
+    if (w.length > 3 && !STOPWORDS.has(w)) counts[w] = (counts[w] || 0) + 1;
+  }
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+export function keywordAgreement(a: string[], b: string[]): number {
+  const setB = new Set(b);
+  const union = new Set(a.concat(b));
+  if (!union.size) return 1;
+  const shared = Array.from(new Set(a)).filter(w => setB.has(w)).length;
+  return round4(shared / union.size);
+}
+
+// Pairwise and mean agreement plus the member closest to all others (ties: first listed)
+export function computeAgreement(keywordSets: string[][]): { agreement: ConsensusBundle['agreement']; selected: number } {
+  const pairwise: ConsensusBundle['agreement']['pairwise'] = [];
+  const perMember = keywordSets.map(() => 0);
+  for (let a = 0; a < keywordSets.length; a++) {
+    for (let b = a + 1; b < keywordSets.length; b++) {
+      const score = keywordAgreement(keywordSets[a], keywordSets[b]);
+      pairwise.push({ a, b, score });
+      perMember[a] += score;
+      perMember[b] += score;
+    }
+  }
+  const score = pairwise.length ? round4(pairwise.reduce((s, p) => s + p.score, 0) / pairwise.length) : 1;
+  let selected = 0;
+  perMember.forEach((total, i) => { if (total > perMember[selected]) selected = i; });
+  return { agreement: { score, pairwise }, selected };
+}
+
+// Signed as bundleHash; verifiers recompute it from the manifest fetched at bundleCid
+export function bundleHash(bundle: ConsensusBundle): string {
+  return sha256Hex(canonicalJson(bundle));
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+/**
+ * Ask every provider in parallel. Failed providers are listed in the manifest; at least
+ * two members must answer for a bundle to be produced. Member contentCids are empty until
+ * storeConsensusOutputs runs.
+ */
+export async function generateConsensus(
+  opts: ConsensusOptions & {
+    text: string;
+    params?: Record<string, any>;
+    renderPrompt?: (text: string) => RenderedPrompt;
+    onMember?: (provider: string, error?: string) => void;
+    signer?: string;
+    onQueue?: QueueHandler;
+  }
+): Promise<ConsensusResult> {
+  const prompt = opts.renderPrompt?.(opts.text);
+  const settled = await Promise.allSettled(opts.providers.map(async name => {
+    const def = getProvider(name);
+    if (!def) throw new Error('unknown_provider');
+    const canonical = canonicalizeParams(opts.params, def);
+    if (canonical.errors.length) throw new Error(`params_unsupported: ${canonical.errors.join(', ')}`);
+    const response = await summarizeWithProvider({ provider: name, text: opts.text, model: opts.models?.[name], params: canonical.params, prompt, signer: opts.signer, onQueue: opts.onQueue });
+    opts.onMember?.(name);
+    return response;
+  }));
+
+  const members: ConsensusMember[] = [];
+  const responses: AIModelResponse[] = [];
+  const failures: ConsensusBundle['failures'] = [];
+  settled.forEach((s, i) => {
+    const provider = opts.providers[i];
+    if (s.status === 'rejected') {
+      const error = s.reason instanceof Error ? s.reason.message : String(s.reason);
+      failures.push({ provider, error });
+      opts.onMember?.(provider, error);
+      return;
+    }
+    const response = s.value;
+    responses.push(response);
+    members.push({
+      provider,
+      model: response.model,
+      modelId: modelIdFor(provider, response.model),
+      modelHash: response.modelHash || '',
+      paramsHash: hashParams(response.params),
+      outputHash: sha256Hex(response.summary),
+      contentCid: '',
+      keywords: extractKeywords(response.summary)
+    });
+  });
+
+  if (members.length < MIN_MEMBERS) {
+    const summary = failures.map(f => `${f.provider} (${f.error})`).join('; ');
+    throw new Error(`Consensus needs at least ${MIN_MEMBERS} providers to answer; failed: ${summary || 'none'}`);
+  }
+
+  const { agreement, selected } = computeAgreement(members.map(m => m.keywords));
+  return {
+    bundle: {
+      version: 1,
+      kind: 'consensus-bundle',
+      method: 'keyword-jaccard-v1',
+      promptHash: sha256Hex(opts.text),
+      members,
+      failures,
+      agreement,
+      selected
+    },
+    responses
+  };
+}
+
+// Upload every member's output and fill in its contentCid (before the bundle is hashed)
+export async function storeConsensusOutputs(result: ConsensusResult): Promise<void> {
+  const cids = await Promise.all(result.responses.map(r => addFile(Uint8Array.from(Buffer.from(r.summary)))));
+  result.bundle.members.forEach((m, i) => { m.contentCid = cids[i]; });
+}
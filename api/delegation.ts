@@ -0,0 +1,228 @@
+/**
+ * Delegated signing. A wallet signs one EIP-712 `SigningDelegation` certificate that lets a
+ * session key (a browser key, or the server signer) sign ContentProvenance on its behalf,
+ * within a scope: the models it may sign for (empty = any; a trailing `*` matches a prefix),
+ * a validity window (issuedAt..expiresAt, ms like the provenance timestamp) and a maximum
+ * number of records (0 = unlimited). The envelope is signed by the delegate and carries the
+ * certificate, so a verifier walks delegate signature -> certificate -> authorizing wallet.
+ *
+ * Certificates are identified by their EIP-712 digest. Records published under one are
+ * counted here (in memory, like the output index), and publish refuses the record past
+ * maxCount. The cap is therefore enforced only when records are issued through this server:
+ * published data does not show how many records a certificate signed, so verifiers report
+ * the count this server has seen but do not judge a record by it.
+ */
+
+import crypto from 'crypto';
+import { hashTypedData, isAddress } from 'viem';
+import { ContentProvenanceValue, Eip712Domain } from './types';
+import { checkSignatureDomain, DomainReport } from './domains';
+import { verifyEnvelopeSignature, SignatureCheck, SignatureScheme } from './signatures';
+
+export const delegationTypes = {
+  SigningDelegation: [
+    { name: 'delegate', type: 'address' },
+    { name: 'scope', type: 'string' },          // primary type the delegate may sign
+    { name: 'models', type: 'string[]' },
+    { name: 'issuedAt', type: 'uint64' },
+    { name: 'expiresAt', type: 'uint64' },
+    { name: 'maxCount', type: 'uint32' },
+    { name: 'nonce', type: 'bytes32' }
+  ]
+} as const;
+
+export interface DelegationCertificate {
+  delegate: string;
+  scope: 'ContentProvenance';
+  models: string[];
+  issuedAt: number;
+  expiresAt: number;
+  maxCount: number;
+  nonce: string;
+}
+
+// As carried in the envelope (`delegation`) and sent to /api/publish
+export interface SignedDelegation {
+  certificate: DelegationCertificate;
+  domain: Eip712Domain;         // domain the wallet signed the certificate under
+  issuer: string;               // authorizing wallet
+  signature: string;
+}
+
+export interface DelegationReport {
+  issuer: string;
+  delegate: string;
+  models: string[];
+  issuedAt: number;
+  expiresAt: number;
+  maxCount: number;
+  certificateHash: string;
+  domain: DomainReport;
+  issuerSignatureValid: boolean;
+  issuerSignatureScheme: SignatureScheme | null;
+  used: number;                 // records published under it on this server since it started
+  position: number | null;      // 1-based position of this record among them (null: not indexed here)
+}
+
+const MAX_DELEGATION_MODELS = 50;
+
+// certificateHash -> signedProvenanceCids in publish order, and publishes still in flight
+const globalUsage = globalThis as unknown as { __delegationUsage?: Map<string, string[]>; __delegationPending?: Map<string, number> };
+function usageStore(): Map<string, string[]> {
+  if (!globalUsage.__delegationUsage) globalUsage.__delegationUsage = new Map();
+  return globalUsage.__delegationUsage;
+}
+function pendingStore(): Map<string, number> {
+  if (!globalUsage.__delegationPending) globalUsage.__delegationPending = new Map();
+  return globalUsage.__delegationPending;
+}
+
+/**
+ * Unsigned certificate for the wallet to sign. Throws a plain Error naming the invalid
+ * field; the route turns it into a 400.
+ */
+export function buildDelegation(input: { delegate: string; models?: string[]; expiresAt?: number; expiresInMs?: number; maxCount?: number }): DelegationCertificate {
+  if (typeof input.delegate !== 'string' || !isAddress(input.delegate)) throw new Error('delegate must be an address');
+  const models = input.models ?? [];
+  if (!Array.isArray(models) || models.length > MAX_DELEGATION_MODELS || models.some(m => typeof m !== 'string' || !m.trim())) {
+    throw new Error(`models must be a list of at most ${MAX_DELEGATION_MODELS} model ids`);
+  }
+  const issuedAt = Date.now();
+  const expiresAt = input.expiresAt ?? (input.expiresInMs !== undefined ? issuedAt + input.expiresInMs : undefined);
+  if (!Number.isInteger(expiresAt) || (expiresAt as number) <= issuedAt) throw new Error('expiresAt (ms) or expiresInMs must give a time in the future');
+  const maxCount = input.maxCount ?? 0;
+  if (!Number.isInteger(maxCount) || maxCount < 0 || maxCount > 0xffffffff) throw new Error('maxCount must be a non-negative integer (0 = unlimited)');
+  return {
+    delegate: input.delegate,
+    scope: 'ContentProvenance',
+    models: models.map(m => m.trim()),
+    issuedAt,
+    expiresAt: expiresAt as number,
+    maxCount,
+    nonce: '0x' + crypto.randomBytes(32).toString('hex')
+  };
+}
+
+export function delegationHash(signed: Pick<SignedDelegation, 'certificate' | 'domain'>): string {
+  return hashTypedData({
+    domain: signed.domain as any,
+    types: delegationTypes,
+    primaryType: 'SigningDelegation',
+    message: signed.certificate as any
+  });
+}
+
+export function modelAllowed(models: string[], modelId: string): boolean {
+  if (!models.length) return true;
+  return models.some(m => m.endsWith('*') ? modelId.startsWith(m.slice(0, -1)) : m === modelId);
+}
+
+export function delegationUsage(certificateHash: string): string[] {
+  return (usageStore().get(certificateHash.toLowerCase()) || []).slice();
+}
+
+/**
+ * Hold one of the certificate's maxCount slots while a record is being stored, so concurrent
+ * publishes cannot overrun it. null when the certificate is used up; otherwise commit the
+ * stored record's CID, or release the slot when storing failed.
+ */
+export function reserveDelegationUse(certificateHash: string, maxCount: number): { commit(signedProvenanceCid: string): void; release(): void } | null {
+  const key = certificateHash.toLowerCase();
+  const pending = pendingStore();
+  const inFlight = pending.get(key) || 0;
+  if (maxCount > 0 && delegationUsage(key).length + inFlight >= maxCount) return null;
+  pending.set(key, inFlight + 1);
+  let settled = false;
+  const settle = () => {
+    if (settled) return;
+    settled = true;
+    const left = (pending.get(key) || 1) - 1;
+    if (left > 0) pending.set(key, left); else pending.delete(key);
+  };
+  return {
+    commit(signedProvenanceCid: string) {
+      settle();
+      const cids = usageStore().get(key) || [];
+      if (!cids.includes(signedProvenanceCid)) cids.push(signedProvenanceCid);
+      usageStore().set(key, cids);
+    },
+    release: settle
+  };
+}
+
+// The issuer's signature over the certificate; it may itself be a contract wallet
+export function verifyDelegationSignature(signed: SignedDelegation): Promise<SignatureCheck> {
+  return verifyEnvelopeSignature({
+    domain: signed.domain,
+    types: delegationTypes,
+    primaryType: 'SigningDelegation',
+    message: signed.certificate,
+    signature: signed.signature,
+    signer: signed.issuer
+  });
+}
+
+/**
+ * Verifier view of the delegation chain of an envelope signed by `signer` (the delegate).
+ * The caller checks the delegate's signature over the provenance as usual; this checks the
+ * certificate: issuer signature, delegate, scope, models and validity window. maxCount is
+ * only reported (it is enforced at publish); a record this server did not count is warned.
+ * `delegation` is null when the envelope was signed by the wallet itself.
+ */
+export async function checkDelegation(
+  signed: SignedDelegation | undefined,
+  prov: ContentProvenanceValue,
+  signer: string | undefined,
+  envelopeDomain?: Partial<Eip712Domain>,
+  signedProvenanceCid?: string
+): Promise<{ delegation: DelegationReport | null; issues: string[]; warnings: string[] }> {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  if (!signed) return { delegation: null, issues, warnings };
+  const cert = signed.certificate;
+  if (!cert || !signed.domain || typeof signed.issuer !== 'string' || typeof signed.signature !== 'string' || !Array.isArray(cert.models)) {
+    issues.push('delegation_malformed');
+    return { delegation: null, issues, warnings };
+  }
+
+  let certificateHash: string;
+  try {
+    certificateHash = delegationHash(signed);
+  } catch {
+    issues.push('delegation_malformed');
+    return { delegation: null, issues, warnings };
+  }
+  const domainCheck = checkSignatureDomain(signed.domain);
+  if (domainCheck.issues.length) issues.push('delegation_domain_not_allowed');
+  if (envelopeDomain?.chainId !== undefined && Number(envelopeDomain.chainId) !== domainCheck.domain.chainId) issues.push('delegation_chain_mismatch');
+
+  const issuerCheck = await verifyDelegationSignature(signed);
+  if (!issuerCheck.valid) issues.push('delegation_signature_invalid');
+  if (issuerCheck.error === 'rpc_not_configured') warnings.push('contract_signature_unchecked');
+
+  if (!signer || String(cert.delegate).toLowerCase() !== signer.toLowerCase()) issues.push('delegation_delegate_mismatch');
+  if (cert.scope !== 'ContentProvenance') issues.push('delegation_scope_mismatch');
+  if (!modelAllowed(cert.models, prov.modelId)) issues.push('delegation_model_not_allowed');
+  if (prov.timestamp < Number(cert.issuedAt)) issues.push('delegation_not_yet_valid');
+  if (prov.timestamp > Number(cert.expiresAt)) issues.push('delegation_expired');
+
+  const cids = delegationUsage(certificateHash);
+  const index = signedProvenanceCid ? cids.indexOf(signedProvenanceCid) : -1;
+  if (signedProvenanceCid && index < 0) warnings.push('delegation_usage_unknown');
+
+  const delegation: DelegationReport = {
+    issuer: signed.issuer,
+    delegate: cert.delegate,
+    models: cert.models,
+    issuedAt: Number(cert.issuedAt),
+    expiresAt: Number(cert.expiresAt),
+    maxCount: Number(cert.maxCount),
+    certificateHash,
+    domain: domainCheck.domain,
+    issuerSignatureValid: issuerCheck.valid,
+    issuerSignatureScheme: issuerCheck.scheme,
+    used: cids.length,
+    position: index >= 0 ? index + 1 : null
+  };
+  return { delegation, issues, warnings };
+}
@@ -0,0 +1,97 @@
+/**
+ * EIP-712 signing domains. The server issues each envelope under the domain of the chain the
+ * wallet is connected to, and verifiers accept only domains on the allowlist. EIP712_DOMAINS
+ * (JSON) replaces the default list, e.g.
+ *
+ *   EIP712_DOMAINS='[{"chainId":1},{"chainId":137,"verifyingContract":"0x1234…"},
+ *                    {"chainId":1,"verifyingContract":"0xabcd…","label":"v0 deployment","issue":false}]'
+ *
+ * `name` and `version` default to AIProof / 1 and `verifyingContract` to the zero address, so
+ * a deployment is told apart by its contract (or name/version). The first issuing entry for
+ * a chain is used to sign; `issue: false` entries are still accepted by verifiers (retired
+ * deployments). EIP712_DEFAULT_CHAIN_ID picks the domain when the client sends no chain.
+ */
+
+import { domain as defaultDomain, Eip712Domain } from './types';
+
+export interface DomainEntry {
+  chainId: number;
+  name?: string;
+  version?: string;
+  verifyingContract?: string;
+  label?: string;               // shown by verifiers (default: the chain name)
+  issue?: boolean;              // false = verify only
+}
+
+// Verifier view of the domain a signature was made under
+export interface DomainReport extends Eip712Domain {
+  label: string | null;         // allowlist label, null when not on the allowlist
+  allowed: boolean;
+}
+
+// Chains offered by the wallet connector (app/providers.tsx)
+const CHAIN_NAMES: Record<number, string> = { 1: 'Ethereum', 137: 'Polygon', 10: 'Optimism', 42161: 'Arbitrum' };
+
+const DEFAULT_DOMAINS: DomainEntry[] = Object.keys(CHAIN_NAMES).map(id => ({ chainId: Number(id) }));
+
+function domainTable(): DomainEntry[] {
+  const raw = process.env.EIP712_DOMAINS;
+  if (!raw) return DEFAULT_DOMAINS;
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed) && parsed.every(d => d && Number.isInteger(Number(d.chainId)))) return parsed;
+  } catch {}
+  console.warn('[domains] EIP712_DOMAINS is not a list of { chainId, ... }; using the default domains');
+  return DEFAULT_DOMAINS;
+}
+
+function toDomain(entry: DomainEntry): Eip712Domain {
+  return {
+    name: entry.name || defaultDomain.name,
+    version: entry.version || defaultDomain.version,
+    chainId: Number(entry.chainId),
+    verifyingContract: entry.verifyingContract || defaultDomain.verifyingContract
+  };
+}
+
+function sameDomain(a: Eip712Domain, b: Eip712Domain): boolean {
+  return a.name === b.name
+    && String(a.version) === String(b.version)
+    && Number(a.chainId) === Number(b.chainId)
+    && String(a.verifyingContract).toLowerCase() === String(b.verifyingContract).toLowerCase();
+}
+
+export function chainName(chainId: number): string {
+  return CHAIN_NAMES[chainId] || `chain ${chainId}`;
+}
+
+// Chains the server can issue envelopes for
+export function issuingChains(): number[] {
+  return Array.from(new Set(domainTable().filter(d => d.issue !== false).map(d => Number(d.chainId))));
+}
+
+/**
+ * Domain to sign under for the connected chain (EIP712_DEFAULT_CHAIN_ID, else the first
+ * issuing domain, when none is given); undefined when this deployment does not issue on it
+ */
+export function signingDomain(chainId?: number): Eip712Domain | undefined {
+  const entries = domainTable().filter(d => d.issue !== false);
+  const wanted = chainId ?? (Number(process.env.EIP712_DEFAULT_CHAIN_ID) || undefined);
+  const entry = wanted === undefined ? entries[0] : entries.find(d => Number(d.chainId) === Number(wanted));
+  return entry ? toDomain(entry) : undefined;
+}
+
+// Envelopes published before domains were chain-aware carry no domain: the legacy default
+export function checkSignatureDomain(envelopeDomain?: Partial<Eip712Domain>): { domain: DomainReport; issues: string[] } {
+  const signed: Eip712Domain = { ...defaultDomain, ...(envelopeDomain || {}) } as Eip712Domain;
+  const entry = domainTable().find(d => sameDomain(toDomain(d), signed));
+  const domain: DomainReport = {
+    name: signed.name,
+    version: signed.version,
+    chainId: Number(signed.chainId),
+    verifyingContract: signed.verifyingContract,
+    label: entry ? entry.label || chainName(Number(entry.chainId)) : null,
+    allowed: !!entry
+  };
+  return { domain, issues: entry ? [] : ['domain_not_allowed'] };
+}
@@ -0,0 +1,119 @@
+// In-memory cache of finished generations, keyed by provider, model, promptHash and
+// paramsHash. A hit reuses the provider output, the ZK journal/proof and the IPFS CIDs
+// instead of paying for the provider call, the prover run and new uploads again.
+// NOTE: Ephemeral like indexStore/usageStore; entries expire after their TTL
+// (GENERATION_CACHE_TTL_MS, default 24h, 0 disables) and the oldest are evicted past
+// GENERATION_CACHE_MAX_ENTRIES.
+
+import crypto from 'crypto';
+import { AIModelResponse, TokenUsage } from './types';
+import { ProviderAttempt } from './providers';
+import type { ConsensusBundle } from './consensus';
+import type { SourceEntry } from './sources';
+import type { ModerationStageReport } from './moderation';
+
+export type ZkMode = 'disabled' | 'real' | 'mock' | 'failed';
+
+// Everything the pipeline produces before the provenance struct is assembled
+export interface GenerationArtifacts {
+  response: AIModelResponse;
+  requestedProvider: string;
+  provider: string;             // provider that answered
+  attempts: ProviderAttempt[];
+  warnings: string[];
+  contentCid: string;
+  promptCid?: string;
+  structured?: { attempts: number }; // structured mode only
+  consensus?: {                 // consensus mode only
+    bundle: ConsensusBundle;
+    bundleHash: string;
+    bundleCid: string;
+    usage: Array<TokenUsage | undefined>; // per member, same order as bundle.members
+  };
+  sources?: {                   // source attribution only
+    root: string;
+    manifestCid: string;
+    entries: SourceEntry[];
+  };
+  chunks?: {                    // long-document mode only
+    root: string;
+    manifestCid: string;
+    count: number;
+  };
+  outputModeration?: ModerationStageReport; // every output above, screened before any upload
+  zk: {
+    mode: ZkMode;
+    programHash: string;
+    keywordsHash: string;
+    journalCid: string;
+    proofCid: string;
+  };
+}
+
+export interface CacheEntry {
+  key: string;
+  artifacts: GenerationArtifacts;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Shared across route bundles (see usageStore)
+const globalCache = globalThis as unknown as { __generationCache?: Map<string, CacheEntry> };
+const entries: Map<string, CacheEntry> = globalCache.__generationCache || (globalCache.__generationCache = new Map());
+
+export function defaultCacheTtlMs(): number {
+  const raw = process.env.GENERATION_CACHE_TTL_MS;
+  const n = raw === undefined ? DEFAULT_TTL_MS : Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_TTL_MS;
+}
+
+function maxEntries(): number {
+  const n = Number(process.env.GENERATION_CACHE_MAX_ENTRIES);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_MAX_ENTRIES;
+}
+
+// `variant` separates generation modes over the same input (e.g. map-reduce chunking)
+export function generationCacheKey(provider: string, model: string, promptHash: string, paramsHash: string, variant?: string): string {
+  const parts = [provider, model, promptHash.toLowerCase(), paramsHash.toLowerCase()];
+  const material = JSON.stringify(variant ? [...parts, variant] : parts);
+  return crypto.createHash('sha256').update(material, 'utf8').digest('hex');
+}
+
+/**
+ * Returns a live entry. With `needsZk` only entries that carry a journal (real or mock ZK)
+ * qualify, so a cached plain generation never stands in for a proved one.
+ */
+export function lookupGeneration(key: string, needsZk: boolean): CacheEntry | undefined {
+  const entry = entries.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    entries.delete(key);
+    return undefined;
+  }
+  if (needsZk && entry.artifacts.zk.mode !== 'real' && entry.artifacts.zk.mode !== 'mock') return undefined;
+  return entry;
+}
+
+export function storeGeneration(key: string, artifacts: GenerationArtifacts, ttlMs: number): CacheEntry | undefined {
+  if (ttlMs <= 0) return undefined;
+  const existing = entries.get(key);
+  // Keep a proved entry rather than replacing it with an unproved regeneration
+  const existingProved = existing && existing.expiresAt > Date.now() && (existing.artifacts.zk.mode === 'real' || existing.artifacts.zk.mode === 'mock');
+  const incomingProved = artifacts.zk.mode === 'real' || artifacts.zk.mode === 'mock';
+  if (existingProved && !incomingProved) return existing;
+
+  const now = Date.now();
+  const entry: CacheEntry = { key, artifacts, createdAt: now, expiresAt: now + ttlMs };
+  entries.delete(key);
+  entries.set(key, entry);
+  // Map iteration order is insertion order, so the first keys are the oldest
+  while (entries.size > maxEntries()) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+  return entry;
+}
@@ -0,0 +1,227 @@
+/**
+ * Long-document (map-reduce) summarization. The input is split into chunks, each chunk is
+ * summarized (map), and the chunk summaries are summarized together (reduce). Every chunk's
+ * hash and intermediate output go into a manifest stored on IPFS; the manifest's Merkle root
+ * is signed as `chunkRoot`, so a verifier can prove any single chunk against the provenance.
+ *
+ * Merkle scheme (sha256-v1):
+ *   leaf = sha256(0x00 || utf8(JSON.stringify([index, chunkHash, outputHash])))
+ *   node = sha256(0x01 || left || right); an odd node is carried up unchanged
+ */
+
+import crypto from 'crypto';
+import { summarizeWithFallback, FallbackResult, QueueHandler } from './providers';
+import { sumUsage } from './usage';
+import { TokenUsage } from './types';
+import type { RenderedPrompt } from './templates';
+
+export interface ChunkingOptions {
+  chunkSize?: number;   // max characters per chunk (default LONG_DOC_CHUNK_CHARS or 8000)
+  overlap?: number;     // characters repeated from the previous chunk (default 200)
+}
+
+export interface ChunkRecord {
+  index: number;
+  start: number;        // character offsets into the original text
+  end: number;
+  chunkHash: string;    // sha256 of text.slice(start, end)
+  outputHash: string;   // sha256 of the chunk summary
+  output: string;       // intermediate (map) summary
+}
+
+export interface ChunkManifest {
+  version: 1;
+  kind: 'chunk-manifest';
+  merkle: 'sha256-v1';
+  promptHash: string;   // hash of the full original text (same as the signed promptHash)
+  chunkSize: number;
+  overlap: number;
+  chunks: ChunkRecord[];
+  // Reduce input is the chunk outputs joined by reduceInput(); null when there was one chunk
+  reduce: { inputHash: string; outputHash: string } | null;
+  root: string;         // Merkle root, signed as chunkRoot
+}
+
+export interface MerkleProofStep {
+  position: 'left' | 'right';   // side of the sibling
+  hash: string;
+}
+
+const DEFAULT_CHUNK_CHARS = 8000;
+const DEFAULT_OVERLAP = 200;
+
+function sha256Hex(data: string | Buffer) {
+  return '0x' + crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hexBytes(hash: string): Buffer {
+  return Buffer.from(hash.replace(/^0x/, ''), 'hex');
+}
+
+export function chunkLeafHash(c: Pick<ChunkRecord, 'index' | 'chunkHash' | 'outputHash'>): string {
+  const body = Buffer.from(JSON.stringify([c.index, c.chunkHash.toLowerCase(), c.outputHash.toLowerCase()]), 'utf8');
+  return sha256Hex(Buffer.concat([Buffer.from([0]), body]));
+}
+
+function nodeHash(left: string, right: string): string {
+  return sha256Hex(Buffer.concat([Buffer.from([1]), hexBytes(left), hexBytes(right)]));
+}
+
+export function merkleRoot(leaves: string[]): string {
+  if (!leaves.length) throw new Error('Merkle tree needs at least one leaf');
+  let level = leaves;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? nodeHash(level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+export function merkleProof(leaves: string[], index: number): MerkleProofStep[] {
+  const proof: MerkleProofStep[] = [];
+  let level = leaves;
+  let i = index;
+  while (level.length > 1) {
+    const sibling = i % 2 === 0 ? i + 1 : i - 1;
+    if (sibling < level.length) proof.push({ position: i % 2 === 0 ? 'right' : 'left', hash: level[sibling] });
+    const next: string[] = [];
+    for (let j = 0; j < level.length; j += 2) {
+      next.push(j + 1 < level.length ? nodeHash(level[j], level[j + 1]) : level[j]);
+    }
+    level = next;
+    i = Math.floor(i / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(leaf: string, proof: MerkleProofStep[], root: string): boolean {
+  let acc = leaf;
+  for (const step of proof) acc = step.position === 'left' ? nodeHash(step.hash, acc) : nodeHash(acc, step.hash);
+  return acc.toLowerCase() === root.toLowerCase();
+}
+
+// Root recomputed from the manifest's chunk records (verifiers compare it to the signed chunkRoot)
+export function manifestRoot(manifest: ChunkManifest): string {
+  return merkleRoot(manifest.chunks.map(chunkLeafHash));
+}
+
+export function resolveChunking(opts?: ChunkingOptions): { chunkSize: number; overlap: number } {
+  const envSize = Number(process.env.LONG_DOC_CHUNK_CHARS);
+  const chunkSize = opts?.chunkSize || (Number.isInteger(envSize) && envSize > 0 ? envSize : DEFAULT_CHUNK_CHARS);
+  const overlap = Math.min(opts?.overlap ?? DEFAULT_OVERLAP, Math.floor(chunkSize / 2));
+  return { chunkSize, overlap };
+}
+
+// Whether a request without an explicit mode should use map-reduce (LONG_DOC_AUTO_CHARS)
+export function exceedsAutoThreshold(text: string): boolean {
+  const threshold = Number(process.env.LONG_DOC_AUTO_CHARS);
+  return Number.isInteger(threshold) && threshold > 0 && text.length > threshold;
+}
+
+/**
+ * Split on the last paragraph break, sentence end or whitespace in the second half of
+ * the window so chunks rarely cut words; offsets are kept so chunks can be re-derived
+ */
+export function splitIntoChunks(text: string, chunkSize: number, overlap: number): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const minCut = Math.floor(chunkSize / 2);
+      const candidates = [window.lastIndexOf('\n\n'), window.search(/[.!?]\s[^.!?]*$/), window.lastIndexOf(' ')];
+      const cut = candidates.find(c => c >= minCut);
+      if (cut !== undefined) end = start + cut + 1;
+    }
+    spans.push({ start, end });
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+  return spans;
+}
+
+export function reduceInput(outputs: string[]): string {
+  return outputs.map((o, i) => `[Part ${i + 1}]\n${o}`).join('\n\n');
+}
+
+interface MapReduceOptions {
+  chain: string[];
+  text: string;
+  model?: string;
+  params?: Record<string, any>;
+  chunking?: ChunkingOptions;
+  renderPrompt?: (text: string) => RenderedPrompt;
+  onToken?: (token: string) => void;
+  onStage?: (stage: 'mapping' | 'reducing', detail?: string) => void;
+  signer?: string;
+  onQueue?: QueueHandler;
+}
+
+/**
+ * Map-reduce summary. The provider that answers the first chunk (after any fallback) is
+ * pinned for the remaining chunks and the reduce step, so one signed provider and model
+ * produced every intermediate output. Usage is summed across all calls.
+ */
+export async function summarizeLongDocument(opts: MapReduceOptions): Promise<{ generation: FallbackResult; manifest: ChunkManifest }> {
+  const { chunkSize, overlap } = resolveChunking(opts.chunking);
+  const spans = splitIntoChunks(opts.text, chunkSize, overlap);
+  const chunks: ChunkRecord[] = [];
+  const usages: Array<TokenUsage | undefined> = [];
+  let first: FallbackResult | undefined;
+  let chain = opts.chain;
+  let model = opts.model;
+
+  for (let index = 0; index < spans.length; index++) {
+    const { start, end } = spans[index];
+    const chunkText = opts.text.slice(start, end);
+    opts.onStage?.('mapping', `${index + 1}/${spans.length}`);
+    const result = await summarizeWithFallback({ chain, text: chunkText, model, params: opts.params, renderPrompt: opts.renderPrompt, signer: opts.signer, onQueue: opts.onQueue });
+    if (!first) {
+      first = result;
+      if (result.provider !== result.requestedProvider) model = undefined;
+      chain = [result.provider];
+    }
+    usages.push(result.response.usage);
+    chunks.push({
+      index, start, end,
+      chunkHash: sha256Hex(chunkText),
+      outputHash: sha256Hex(result.response.summary),
+      output: result.response.summary
+    });
+  }
+  if (!first) throw new Error('Empty document');
+
+  let final = first.response;
+  let reduce: ChunkManifest['reduce'] = null;
+  if (chunks.length > 1) {
+    opts.onStage?.('reducing');
+    const combined = reduceInput(chunks.map(c => c.output));
+    const reduced = await summarizeWithFallback({ chain, text: combined, model, params: opts.params, renderPrompt: opts.renderPrompt, onToken: opts.onToken, signer: opts.signer, onQueue: opts.onQueue });
+    final = reduced.response;
+    usages.push(final.usage);
+    reduce = { inputHash: sha256Hex(combined), outputHash: sha256Hex(final.summary) };
+  } else if (opts.onToken) {
+    opts.onToken(final.summary);
+  }
+
+  const manifest: ChunkManifest = {
+    version: 1,
+    kind: 'chunk-manifest',
+    merkle: 'sha256-v1',
+    promptHash: sha256Hex(opts.text),
+    chunkSize,
+    overlap,
+    chunks,
+    reduce,
+    root: merkleRoot(chunks.map(chunkLeafHash))
+  };
+
+  return {
+    generation: { ...first, response: { ...final, usage: sumUsage(usages) } },
+    manifest
+  };
+}
@@ -2,7 +2,9 @@
  * Model utilities for Ollama integration and hash calculation
  */
 
-import { OllamaRequest, OllamaResponse, AIModelResponse } from './types';
+import fs from 'fs';
+import path from 'path';
+import { OllamaRequest, OllamaResponse, AIModelResponse, ModelFingerprintComponents } from './types';
 
 /**
  * Get Ollama API URL
@@ -89,21 +91,26 @@ export async function calculateModelHash(
   return hashHex;
 }
 
+/**
+ * List the models pulled into the Ollama daemon; throws when it is unreachable
+ */
+export async function listOllamaModels(signal?: AbortSignal): Promise<string[]> {
+  const response = await fetch(`${getOllamaUrl()}/api/tags`, { signal });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch models: ${response.status}`);
+  }
+  
+  const data = await response.json();
+  return data.models?.map((m: any) => m.name) || [];
+}
+
 /**
  * Get available models from Ollama
  */
 export async function getAvailableModels(): Promise<string[]> {
-  const ollamaUrl = getOllamaUrl();
-  
   try {
-    const response = await fetch(`${ollamaUrl}/api/tags`);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch models: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return data.models?.map((m: any) => m.name) || [];
+    return await listOllamaModels();
   } catch (error) {
     console.error('Error fetching models:', error);
     return ['llama3', 'qwen2.5-3b']; // Fallback to common models
@@ -125,4 +132,147 @@ export async function checkOllamaStatus(): Promise<boolean> {
   } catch (error) {
     return false;
   }
-}
\ No newline at end of file
+}
+
+export interface OllamaModelFingerprint {
+  fingerprint: string;    // sha256 hex over the canonical components JSON (used as modelHash)
+  components: ModelFingerprintComponents;
+}
+
+async function sha256HexString(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Blob references look like /root/.ollama/models/blobs/sha256-<hex> (or sha256:<hex>)
+const BLOB_DIGEST = /sha256[-:]([0-9a-f]{64})/i;
+
+function blobDigests(modelfile: string, directive: 'FROM' | 'ADAPTER'): string[] {
+  const out: string[] = [];
+  for (const line of modelfile.split('\n')) {
+    const m = line.trim().match(/^(\w+)\s+(.+)$/);
+    if (!m || m[1].toUpperCase() !== directive) continue;
+    const digest = m[2].match(BLOB_DIGEST);
+    if (digest) out.push(`sha256:${digest[1].toLowerCase()}`);
+  }
+  return out.sort();
+}
+
+// Drop comments (they embed tag names) and host-specific blob paths before hashing
+function normalizeModelfile(modelfile: string): string {
+  return modelfile
+    .split('\n')
+    .filter(line => !line.trim().startsWith('#'))
+    .map(line => line.replace(/\S*sha256[-:]([0-9a-f]{64})\S*/gi, (_m, hex) => `sha256:${hex.toLowerCase()}`).trimEnd())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Recompute the fingerprint from its components (fixed key order, so verifiers can
+ * reproduce it from the components stored next to a published envelope)
+ */
+export async function fingerprintFromComponents(c: ModelFingerprintComponents): Promise<string> {
+  const canonical = {
+    manifestDigest: c.manifestDigest,
+    weights: [...c.weights].sort(),
+    adapters: [...c.adapters].sort(),
+    templateHash: c.templateHash,
+    systemHash: c.systemHash,
+    parametersHash: c.parametersHash,
+    modelfileHash: c.modelfileHash
+  };
+  return sha256HexString(JSON.stringify(canonical));
+}
+
+/**
+ * Query the local Ollama daemon for a model's manifest digest and Modelfile and build
+ * a weight fingerprint, so two different weight files behind the same tag differ
+ */
+export async function getOllamaModelFingerprint(model: string): Promise<OllamaModelFingerprint> {
+  const ollamaUrl = getOllamaUrl();
+
+  const showRes = await fetch(`${ollamaUrl}/api/show`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: model, model })
+  });
+  if (!showRes.ok) throw new Error(`Ollama show error ${showRes.status}`);
+  const show = await showRes.json();
+
+  let manifestDigest = '';
+  try {
+    const tagsRes = await fetch(`${ollamaUrl}/api/tags`);
+    if (tagsRes.ok) {
+      const tags = await tagsRes.json();
+      const names = [model, model.includes(':') ? model : `${model}:latest`];
+      const entry = (tags.models || []).find((m: any) => names.includes(m.name) || names.includes(m.model));
+      if (entry?.digest) manifestDigest = `sha256:${String(entry.digest).replace(/^sha256[-:]/, '').toLowerCase()}`;
+    }
+  } catch {
+    // manifest digest is an extra binding; weights from the Modelfile are the core of the fingerprint
+  }
+
+  const modelfile: string = show.modelfile || '';
+  const weights = blobDigests(modelfile, 'FROM');
+  const adapters = blobDigests(modelfile, 'ADAPTER');
+  if (!weights.length && !manifestDigest) {
+    throw new Error(`Could not resolve weight digests for ${model}`);
+  }
+
+  const components: ModelFingerprintComponents = {
+    manifestDigest,
+    weights,
+    adapters,
+    templateHash: await sha256HexString(show.template || ''),
+    systemHash: await sha256HexString(show.system || ''),
+    parametersHash: await sha256HexString(show.parameters || ''),
+    modelfileHash: await sha256HexString(normalizeModelfile(modelfile))
+  };
+  return { fingerprint: await fingerprintFromComponents(components), components };
+}
+
+export type ModelHashPinStatus = 'match' | 'mismatch' | 'unpinned';
+
+function normalizeDigest(value: string): string {
+  return value.trim().toLowerCase().replace(/^0x/, '').replace(/^sha256[-:]/, '');
+}
+
+/**
+ * Pinned model hashes, from EXPECTED_MODEL_HASH and the pin file (EXPECTED_MODEL_HASH_FILE,
+ * default expected/model.sha256). File lines are `<hash>` (any Ollama model) or
+ * `<hash>  <modelId>` in sha256sum style; `#` lines are comments.
+ */
+export function loadPinnedModelHashes(): { any: string[]; byModel: Record<string, string> } {
+  const pins = { any: [] as string[], byModel: {} as Record<string, string> };
+  if (process.env.EXPECTED_MODEL_HASH) pins.any.push(normalizeDigest(process.env.EXPECTED_MODEL_HASH));
+  const file = process.env.EXPECTED_MODEL_HASH_FILE || path.join(process.cwd(), 'expected', 'model.sha256');
+  let content = '';
+  try {
+    content = fs.readFileSync(file, 'utf8');
+  } catch {
+    return pins;
+  }
+  for (const raw of content.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [hash, modelId] = line.split(/\s+/, 2);
+    if (!/^(0x|sha256[-:])?[0-9a-f]{64}$/i.test(hash)) continue;
+    if (modelId) pins.byModel[modelId] = normalizeDigest(hash);
+    else pins.any.push(normalizeDigest(hash));
+  }
+  return pins;
+}
+
+/**
+ * Compare a signed modelHash to the pinned value. A pin for the exact modelId wins; bare
+ * pins are weight fingerprints, so they only apply to records answered by Ollama.
+ */
+export function checkPinnedModelHash(modelId: string, modelHash: string, provider: string): ModelHashPinStatus {
+  const pins = loadPinnedModelHashes();
+  const actual = modelHash ? normalizeDigest(modelHash) : '';
+  const pinned = pins.byModel[modelId];
+  if (pinned) return pinned === actual ? 'match' : 'mismatch';
+  if (provider !== 'ollama' || !actual || !pins.any.length) return 'unpinned';
+  return pins.any.includes(actual) ? 'match' : 'mismatch';
+}
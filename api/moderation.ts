@@ -0,0 +1,241 @@
+/**
+ * Content policy screening. A deployment policy (MODERATION_POLICY as JSON, or a file at
+ * MODERATION_POLICY_FILE) lists checks that run on the input before generation and on the
+ * output after it, e.g.
+ *
+ *   { "id": "acme-content", "version": "2024-06",
+ *     "checks": [
+ *       { "type": "keyword", "terms": ["confidential"], "patterns": ["\\b\\d{3}-\\d{2}-\\d{4}\\b"], "category": "pii" },
+ *       { "type": "classifier", "url": "http://localhost:8088/classify", "threshold": 0.8 },
+ *       { "type": "provider", "provider": "openai", "action": "flag" } ] }
+ *
+ * A match by a `block` check (the default action) refuses the request; `flag` checks only
+ * annotate. Passed results sign `moderationPolicyId`, `moderationPolicyHash` (sha256 of the
+ * canonical policy JSON) and `moderationVerdict` ('pass' or 'flagged'). The policy itself is
+ * kept in the envelope as its preimage. Checks are pluggable via registerModerator().
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { canonicalJson } from './structured';
+import { ContentProvenanceValue, ZERO_HASH } from './types';
+
+export type ModerationStage = 'input' | 'output';
+export type ModerationVerdict = 'pass' | 'flagged' | 'blocked';
+
+export interface ModerationCheckConfig {
+  type: string;                 // registered moderator, e.g. 'keyword' | 'classifier' | 'provider'
+  action?: 'block' | 'flag';    // default 'block'
+  stages?: ModerationStage[];   // default: the policy's stages
+  [option: string]: any;        // moderator-specific settings (no secrets; use *Env names)
+}
+
+export interface ModerationPolicy {
+  id: string;
+  version?: string;
+  stages?: ModerationStage[];   // default both
+  checks: ModerationCheckConfig[];
+}
+
+export interface ModerationCheckResult {
+  type: string;
+  action: 'block' | 'flag';
+  flagged: boolean;
+  categories: string[];         // what matched (category names, never the matched text)
+  error?: string;               // the check could not run (treated as a match for `block` checks)
+}
+
+export interface ModerationStageReport {
+  stage: ModerationStage;
+  verdict: ModerationVerdict;
+  checks: ModerationCheckResult[];
+}
+
+export interface ModerationReport {
+  policyId: string;
+  policyHash: string;
+  verdict: ModerationVerdict;
+  stages: ModerationStageReport[];
+}
+
+export type Moderator = (text: string, config: ModerationCheckConfig) => Promise<{ flagged: boolean; categories: string[] }>;
+
+const moderators = new Map<string, Moderator>();
+
+export function registerModerator(type: string, moderator: Moderator) {
+  moderators.set(type, moderator);
+}
+
+// Deployment policy, or null when screening is off
+export function loadModerationPolicy(): ModerationPolicy | null {
+  let raw = process.env.MODERATION_POLICY;
+  if (!raw && process.env.MODERATION_POLICY_FILE) {
+    raw = fs.readFileSync(process.env.MODERATION_POLICY_FILE, 'utf8');
+  }
+  if (!raw) return null;
+  const policy = JSON.parse(raw);
+  if (!policy || typeof policy.id !== 'string' || !Array.isArray(policy.checks)) {
+    throw new Error('Moderation policy needs an id and a checks list');
+  }
+  return policy;
+}
+
+export function policyHash(policy: ModerationPolicy): string {
+  return '0x' + crypto.createHash('sha256').update(canonicalJson(policy), 'utf8').digest('hex');
+}
+
+function stagesOf(policy: ModerationPolicy, check?: ModerationCheckConfig): ModerationStage[] {
+  return check?.stages || policy.stages || ['input', 'output'];
+}
+
+export function screensStage(policy: ModerationPolicy | null, stage: ModerationStage): boolean {
+  return !!policy && policy.checks.some(c => stagesOf(policy, c).includes(stage));
+}
+
+// Runs every check for the stage in parallel; a check that fails to run counts as a match
+export async function moderate(policy: ModerationPolicy, stage: ModerationStage, text: string): Promise<ModerationStageReport> {
+  const checks = policy.checks.filter(c => stagesOf(policy, c).includes(stage));
+  const results = await Promise.all(checks.map(async (c): Promise<ModerationCheckResult> => {
+    const action = c.action || 'block';
+    const moderator = moderators.get(c.type);
+    if (!moderator) return { type: c.type, action, flagged: true, categories: [], error: 'unknown_moderator' };
+    try {
+      const { flagged, categories } = await moderator(text, c);
+      return { type: c.type, action, flagged, categories };
+    } catch (e) {
+      return { type: c.type, action, flagged: true, categories: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }));
+  return { stage, verdict: stageVerdict(results), checks: results };
+}
+
+/**
+ * One stage report over several texts (every consensus member, every chunk output): a check
+ * matches when it matches any of them, and a check that failed to run on any counts as failed
+ */
+export async function moderateAll(policy: ModerationPolicy, stage: ModerationStage, texts: string[]): Promise<ModerationStageReport> {
+  const reports = await Promise.all(texts.map(text => moderate(policy, stage, text)));
+  const checks = reports[0].checks.map((check, i): ModerationCheckResult => {
+    const results = reports.map(r => r.checks[i]);
+    const error = results.find(r => r.error)?.error;
+    return {
+      type: check.type,
+      action: check.action,
+      flagged: results.some(r => r.flagged),
+      categories: Array.from(new Set(results.flatMap(r => r.categories))),
+      ...(error ? { error } : {})
+    };
+  });
+  return { stage, verdict: stageVerdict(checks), checks };
+}
+
+function stageVerdict(results: ModerationCheckResult[]): ModerationVerdict {
+  if (results.some(r => r.flagged && r.action === 'block')) return 'blocked';
+  return results.some(r => r.flagged) ? 'flagged' : 'pass';
+}
+
+export function combineModeration(policy: ModerationPolicy, stages: ModerationStageReport[]): ModerationReport {
+  const verdict: ModerationVerdict = stages.some(s => s.verdict === 'blocked')
+    ? 'blocked'
+    : stages.some(s => s.verdict === 'flagged') ? 'flagged' : 'pass';
+  return { policyId: policy.id, policyHash: policyHash(policy), verdict, stages };
+}
+
+// Error thrown by the pipeline for refused content; routes answer 403 with the report
+export function moderationBlockedError(report: ModerationReport): Error & { moderation: ModerationReport } {
+  const stage = report.stages.find(s => s.verdict === 'blocked');
+  const categories = stage?.checks.filter(c => c.flagged && c.action === 'block').flatMap(c => c.categories.length ? c.categories : [c.type]);
+  return Object.assign(
+    new Error(`${stage?.stage || 'content'} blocked by policy ${report.policyId}${categories?.length ? ` (${categories.join(', ')})` : ''}`),
+    { moderation: report }
+  );
+}
+
+/**
+ * Verifier view: the signed policy fields, the stored policy checked against its hash and
+ * whether the policy is the one this deployment enforces now
+ */
+export function checkModeration(
+  prov: ContentProvenanceValue,
+  storedPolicy?: ModerationPolicy
+): { moderation: Record<string, any> | null; issues: string[]; warnings: string[] } {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  let current: ModerationPolicy | null = null;
+  try { current = loadModerationPolicy(); } catch { /* reported as unknown below */ }
+  if (!prov.moderationPolicyId) {
+    if (current) warnings.push('content_not_screened');
+    return { moderation: null, issues, warnings };
+  }
+  const signedHash = (prov.moderationPolicyHash || ZERO_HASH).toLowerCase();
+  let policyVerified: boolean | null = null;
+  if (storedPolicy) {
+    policyVerified = policyHash(storedPolicy).toLowerCase() === signedHash && storedPolicy.id === prov.moderationPolicyId;
+    if (!policyVerified) issues.push('moderation_policy_mismatch');
+  } else {
+    warnings.push('moderation_policy_not_stored');
+  }
+  const currentPolicy = current ? policyHash(current).toLowerCase() === signedHash : null;
+  if (currentPolicy === false) warnings.push('moderation_policy_changed');
+  return {
+    moderation: {
+      policyId: prov.moderationPolicyId,
+      policyHash: prov.moderationPolicyHash,
+      verdict: prov.moderationVerdict,
+      policyVerified,
+      currentPolicy,
+      policy: storedPolicy || null
+    },
+    issues,
+    warnings
+  };
+}
+
+// ===== Built-in moderators =====
+
+// Whole-word terms and regular expressions, case-insensitive
+registerModerator('keyword', async (text, config) => {
+  const terms: string[] = config.terms || [];
+  const patterns: string[] = config.patterns || [];
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const hit = terms.some(t => new RegExp(`\\b${escape(t)}\\b`, 'i').test(text))
+    || patterns.some(p => new RegExp(p, 'i').test(text));
+  return { flagged: hit, categories: hit ? [config.category || 'keyword'] : [] };
+});
+
+// Local classifier service: POST { text } -> { flagged?, categories?: { name: score } }
+registerModerator('classifier', async (text, config) => {
+  if (!config.url) throw new Error('classifier url missing');
+  const res = await fetch(config.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text }),
+    signal: AbortSignal.timeout(config.timeoutMs || 10000)
+  });
+  if (!res.ok) throw new Error(`Classifier error ${res.status}`);
+  const json = await res.json();
+  const threshold = config.threshold ?? 0.5;
+  const scores: Record<string, number> = json.categories || json.scores || {};
+  const categories = Object.entries(scores).filter(([, score]) => Number(score) >= threshold).map(([name]) => name);
+  return { flagged: !!json.flagged || categories.length > 0, categories };
+});
+
+// Provider moderation endpoint (OpenAI /v1/moderations or a compatible server)
+registerModerator('provider', async (text, config) => {
+  const provider = config.provider || 'openai';
+  if (provider !== 'openai') throw new Error(`No moderation endpoint for provider ${provider}`);
+  const key = process.env[config.apiKeyEnv || 'OPENAI_API_KEY'];
+  if (!key) throw new Error(`${config.apiKeyEnv || 'OPENAI_API_KEY'} missing`);
+  const base = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  const res = await fetch(`${base}/moderations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${key}` },
+    body: JSON.stringify({ model: config.model || 'omni-moderation-latest', input: text }),
+    signal: AbortSignal.timeout(config.timeoutMs || 10000)
+  });
+  if (!res.ok) throw new Error(`Moderation error ${res.status}`);
+  const json = await res.json();
+  const result = json.results?.[0] || {};
+  const categories = Object.entries(result.categories || {}).filter(([, hit]) => hit).map(([name]) => name);
+  return { flagged: !!result.flagged, categories };
+});
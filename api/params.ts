@@ -0,0 +1,85 @@
+/**
+ * Canonical generation parameters. The caller's `params` are validated against the chosen
+ * provider, completed with defaults and sorted, and that exact object is both forwarded to
+ * the provider and hashed into `paramsHash`, so the signed hash describes what was sent.
+ */
+
+import crypto from 'crypto';
+import { ProviderDefinition } from './providers';
+
+export const GENERATION_PARAM_KEYS = ['max_tokens', 'seed', 'stop', 'temperature', 'top_p'] as const;
+
+export type GenerationParamKey = typeof GENERATION_PARAM_KEYS[number];
+
+export interface GenerationParams {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  seed?: number;
+  stop?: string[];
+}
+
+export interface ParamsValidation {
+  params: GenerationParams;   // canonical (sorted keys, defaults applied)
+  errors: string[];           // e.g. unsupported_param:seed, invalid_param:temperature
+}
+
+// Deterministic-inference defaults applied when the provider supports the key
+const BASE_DEFAULTS: GenerationParams = { temperature: 0, top_p: 1 };
+
+const MAX_STOP_SEQUENCES = 4;
+
+export function canonicalizeParams(raw: Record<string, any> | undefined, def: ProviderDefinition): ParamsValidation {
+  const errors: string[] = [];
+  const supplied: Record<string, any> = raw && typeof raw === 'object' ? raw : {};
+  const merged: Record<string, any> = {};
+
+  for (const k of GENERATION_PARAM_KEYS) {
+    if (!def.supportedParams.includes(k)) continue;
+    if (BASE_DEFAULTS[k] !== undefined) merged[k] = BASE_DEFAULTS[k];
+    if (def.defaultParams?.[k] !== undefined) merged[k] = def.defaultParams[k];
+  }
+
+  for (const [k, v] of Object.entries(supplied)) {
+    if (v === undefined || v === null) continue;
+    if (!(GENERATION_PARAM_KEYS as readonly string[]).includes(k)) { errors.push(`unknown_param:${k}`); continue; }
+    if (!def.supportedParams.includes(k)) { errors.push(`unsupported_param:${k}`); continue; }
+    const normalized = normalizeParam(k as GenerationParamKey, v);
+    if (normalized === undefined) { errors.push(`invalid_param:${k}`); continue; }
+    merged[k] = normalized;
+  }
+
+  // Providers that cannot vary a param (e.g. the deterministic mock) pin its value
+  for (const [k, fixed] of Object.entries(def.fixedParams || {})) {
+    if (merged[k] !== undefined && JSON.stringify(merged[k]) !== JSON.stringify(fixed)) {
+      errors.push(`unsupported_param_value:${k}`);
+    }
+  }
+
+  const params: Record<string, any> = {};
+  for (const k of Object.keys(merged).sort()) params[k] = merged[k];
+  return { params, errors };
+}
+
+function normalizeParam(key: GenerationParamKey, value: any): any {
+  switch (key) {
+    case 'temperature':
+      return typeof value === 'number' && value >= 0 && value <= 2 ? value : undefined;
+    case 'top_p':
+      return typeof value === 'number' && value > 0 && value <= 1 ? value : undefined;
+    case 'max_tokens':
+      return Number.isInteger(value) && value > 0 ? value : undefined;
+    case 'seed':
+      return Number.isInteger(value) && value >= 0 ? value : undefined;
+    case 'stop': {
+      const list = typeof value === 'string' ? [value] : value;
+      if (!Array.isArray(list) || !list.length || list.length > MAX_STOP_SEQUENCES) return undefined;
+      return list.every(s => typeof s === 'string' && s.length > 0) ? list : undefined;
+    }
+  }
+}
+
+// bytes32 hash committed as `paramsHash` (params must already be canonical)
+export function hashParams(params: GenerationParams | Record<string, any>): string {
+  return '0x' + crypto.createHash('sha256').update(JSON.stringify(params), 'utf8').digest('hex');
+}
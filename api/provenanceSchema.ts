@@ -0,0 +1,192 @@
+/**
+ * Versioned ContentProvenance schema. Each version has its own EIP-712 field list
+ * (contentProvenanceFields in types.ts); a signature is always checked against the types of
+ * the version it was made with. decodeProvenance() normalizes any supported version into
+ * the current ContentProvenanceValue so verifiers read one model.
+ *
+ * v1: the original flattened struct (model, hashes, attestation, ZK journal and proof).
+ * v2: requested and answering provider.
+ * v3: long-document chunk manifest.
+ * v4: prompt template.
+ * v5: structured output schema.
+ * v6: consensus bundle.
+ * v7: chat transcript.
+ * v8: source documents.
+ * v9: content policy verdict.
+ * v10: `mimeType`, `license` (SPDX expression) and a parent reference (`parentCid` +
+ *     `parentRelation`). An older record is upgraded by re-signing its fields as v10 with
+ *     `parentRelation: 'upgrade'` pointing at the older envelope.
+ *
+ * A field list never changes once records are signed with it; new signed fields get a new
+ * version.
+ */
+
+import { getJson } from './ipfs';
+import { contentProvenanceFields, ContentProvenanceValue, domain as defaultDomain, ZERO_HASH } from './types';
+import { SignatureCheck, verifyEnvelopeSignature } from './signatures';
+
+export type ProvenanceVersion = keyof typeof contentProvenanceFields;
+
+export const CURRENT_PROVENANCE_VERSION: ProvenanceVersion = 10;
+// First version that signs content metadata and a parent reference
+const METADATA_VERSION = 10;
+
+// 'upgrade' is reserved for re-signed older records (see upgradeProvenance)
+export const PARENT_RELATIONS = ['upgrade', 'revision', 'derived'] as const;
+export type ParentRelation = typeof PARENT_RELATIONS[number];
+
+const MIME_TYPE = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*(\s*;\s*[a-z0-9_-]+=[^;\s]+)*$/i;
+const MAX_LICENSE_LENGTH = 200;
+
+export function isSupportedProvenanceVersion(version: unknown): version is ProvenanceVersion {
+  return typeof version === 'number' && Object.prototype.hasOwnProperty.call(contentProvenanceFields, version);
+}
+
+// EIP-712 types to sign or verify a record of the given version
+export function provenanceTypesFor(version: ProvenanceVersion): { ContentProvenance: readonly { name: string; type: string }[] } {
+  return { ContentProvenance: contentProvenanceFields[version] };
+}
+
+/**
+ * Whether an envelope's stored `types` are its version's own (an EIP712Domain entry aside).
+ * Signatures are always checked against provenanceTypesFor(); an envelope claiming other
+ * types is rejected rather than verified under either.
+ */
+export function provenanceTypesMatch(types: any, version: ProvenanceVersion): boolean {
+  if (!types || typeof types !== 'object') return false;
+  const expected = contentProvenanceFields[version];
+  const fields = types.ContentProvenance;
+  if (Object.keys(types).some(k => k !== 'ContentProvenance' && k !== 'EIP712Domain')) return false;
+  return Array.isArray(fields) && fields.length === expected.length
+    && fields.every((f: any, i: number) => f?.name === expected[i].name && f?.type === expected[i].type);
+}
+
+// An envelope's signature over its provenance, under the types of the version it claims
+export async function verifyProvenanceSignature(envelope: any): Promise<SignatureCheck> {
+  const prov = envelope?.provenance;
+  if (!prov || !isSupportedProvenanceVersion(prov.version) || !envelope.signature || envelope.signature === 'unsigned') {
+    return { valid: false, scheme: null, recoveredSigner: null, error: 'malformed' };
+  }
+  if (envelope.types && !provenanceTypesMatch(envelope.types, prov.version)) {
+    return { valid: false, scheme: null, recoveredSigner: null, error: 'types_mismatch' };
+  }
+  return verifyEnvelopeSignature({
+    domain: envelope.domain || defaultDomain,
+    types: provenanceTypesFor(prov.version),
+    primaryType: 'ContentProvenance',
+    message: prov,
+    signature: envelope.signature,
+    signer: envelope.signer
+  });
+}
+
+// Structured outputs are stored as canonical JSON, everything else as plain text
+export function defaultMimeType(prov: { schemaHash?: string }): string {
+  return prov.schemaHash && prov.schemaHash !== ZERO_HASH ? 'application/json' : 'text/plain';
+}
+
+/**
+ * Any supported version as the current model. Fields the signed version lacks get their
+ * empty value even when the record carries them; an older record's mimeType is inferred.
+ * The original `version` is kept so callers can still tell what was signed.
+ */
+export function decodeProvenance(raw: Record<string, any>): ContentProvenanceValue {
+  if (!isSupportedProvenanceVersion(raw?.version)) throw new Error(`Unsupported provenance version ${raw?.version}`);
+  // Only the fields of the signed version are read: anything else in the record is unsigned
+  const signed = new Set<string>(contentProvenanceFields[raw.version].map(f => f.name));
+  const decoded: Record<string, any> = {};
+  for (const { name, type } of contentProvenanceFields[CURRENT_PROVENANCE_VERSION]) {
+    const value = signed.has(name) ? raw[name] : undefined;
+    if (value !== undefined && value !== null) decoded[name] = value;
+    else decoded[name] = type === 'bytes32' ? ZERO_HASH : type.startsWith('uint') ? 0 : '';
+  }
+  if (!decoded.mimeType) decoded.mimeType = defaultMimeType(decoded);
+  return decoded as ContentProvenanceValue;
+}
+
+// Shape errors in the fields a version adds (empty list when valid)
+export function validateProvenanceFields(prov: Record<string, any>): string[] {
+  const errors: string[] = [];
+  if (!isSupportedProvenanceVersion(prov.version)) return [`unsupported version ${prov.version}`];
+  if (prov.version < METADATA_VERSION) return errors;
+  if (typeof prov.mimeType !== 'string' || !MIME_TYPE.test(prov.mimeType)) errors.push('mimeType must be a media type such as text/plain');
+  if (typeof prov.license !== 'string' || prov.license.length > MAX_LICENSE_LENGTH) errors.push(`license must be a string of at most ${MAX_LICENSE_LENGTH} characters`);
+  if (typeof prov.parentCid !== 'string' || typeof prov.parentRelation !== 'string') errors.push('parentCid and parentRelation must be strings');
+  else if (!prov.parentCid !== !prov.parentRelation) errors.push('parentCid and parentRelation must be set together');
+  else if (prov.parentRelation && !(PARENT_RELATIONS as readonly string[]).includes(prov.parentRelation)) {
+    errors.push(`parentRelation must be one of ${PARENT_RELATIONS.join(', ')}`);
+  }
+  return errors;
+}
+
+/**
+ * Unsigned current-version provenance for an older signed record. Every signed field is
+ * carried over unchanged (timestamp included: it is still the same generation) and the
+ * older envelope becomes the parent.
+ */
+export function upgradeProvenance(
+  raw: Record<string, any>,
+  parentCid: string,
+  opts: { mimeType?: string; license?: string } = {}
+): ContentProvenanceValue {
+  const decoded = decodeProvenance(raw);
+  return {
+    ...decoded,
+    version: CURRENT_PROVENANCE_VERSION,
+    mimeType: opts.mimeType || decoded.mimeType,
+    license: opts.license || decoded.license,
+    parentCid,
+    parentRelation: 'upgrade'
+  };
+}
+
+/**
+ * Verifier view of the parent reference: the parent envelope's version, signer and
+ * relation. An upgrade must carry over every field the parent signed, and must be signed
+ * by the parent's signer over a parent signature that verifies.
+ * `parent` is null when there is no reference or the parent could not be fetched.
+ */
+export async function checkParentProvenance(
+  prov: ContentProvenanceValue,
+  signer?: string
+): Promise<{ parent: Record<string, any> | null; issues: string[]; warnings: string[] }> {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  if (!prov.parentCid) return { parent: null, issues, warnings };
+  let envelope: any;
+  try {
+    envelope = await getJson(prov.parentCid);
+  } catch {
+    warnings.push('parent_fetch_failed');
+    return { parent: null, issues, warnings };
+  }
+  if (!envelope?.provenance || !isSupportedProvenanceVersion(envelope.provenance.version)) {
+    issues.push('parent_invalid');
+    return { parent: null, issues, warnings };
+  }
+  const parentProv = envelope.provenance;
+  const parent: Record<string, any> = {
+    cid: prov.parentCid,
+    relation: prov.parentRelation,
+    version: parentProv.version,
+    signer: envelope.signer || null,
+    outputHash: parentProv.outputHash,
+    timestamp: parentProv.timestamp
+  };
+  if (prov.parentRelation === 'upgrade') {
+    if (parentProv.version >= prov.version) issues.push('upgrade_parent_not_older');
+    const changed = contentProvenanceFields[parentProv.version as ProvenanceVersion]
+      .map(f => f.name)
+      .filter(name => name !== 'version' && parentProv[name] !== undefined && String(parentProv[name]) !== String((prov as any)[name]));
+    issues.push(...changed.map(name => `upgrade_field_mismatch:${name}`));
+    parent.fieldsCarried = changed.length === 0;
+    if (!signer || !envelope.signer || signer.toLowerCase() !== String(envelope.signer).toLowerCase()) issues.push('upgrade_signer_changed');
+    const parentSignature = await verifyProvenanceSignature(envelope);
+    parent.signatureValid = parentSignature.valid;
+    if (!parentSignature.valid) {
+      issues.push('upgrade_parent_signature_invalid');
+      if (parentSignature.error === 'rpc_not_configured') warnings.push('contract_signature_unchecked');
+    }
+  }
+  return { parent, issues, warnings };
+}
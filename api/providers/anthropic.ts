@@ -0,0 +1,106 @@
+/**
+ * ANTHROPIC provider: messages API (ANTHROPIC_API_KEY).
+ */
+
+import { AIModelResponse } from '../types';
+import { GenerationParams } from '../params';
+import { registerProvider, ProviderRequest } from './registry';
+import { providerHttpError, readSseJson, sha256Hex, tokenUsage } from './util';
+import { structuredInstruction } from '../structured';
+
+// Canonical params -> Messages API fields (max_tokens is mandatory, see defaultParams)
+function toAnthropicParams(p: GenerationParams): Record<string, any> {
+  const body: Record<string, any> = {};
+  if (p.max_tokens !== undefined) body.max_tokens = p.max_tokens;
+  if (p.temperature !== undefined) body.temperature = p.temperature;
+  if (p.top_p !== undefined) body.top_p = p.top_p;
+  if (p.stop !== undefined) body.stop_sequences = p.stop;
+  return body;
+}
+
+async function summarizeAnthropic({ text, model, params, prompt, responseFormat, onToken }: ProviderRequest): Promise<AIModelResponse> {
+  const key = process.env.ANTHROPIC_API_KEY;
+  if (!key) throw new Error('ANTHROPIC_API_KEY missing');
+  // Structured mode uses a forced tool call whose input_schema is the caller's schema
+  // (tool input must be an object; other schemas fall back to prompt instructions)
+  const useTool = !!responseFormat && responseFormat.schema.type === 'object';
+  const payload = {
+    model,
+    ...toAnthropicParams(params),
+    ...(prompt?.system ? { system: prompt.system } : {}),
+    ...(useTool ? {
+      tools: [{ name: responseFormat!.name, description: 'Return the structured output.', input_schema: responseFormat!.schema }],
+      tool_choice: { type: 'tool', name: responseFormat!.name }
+    } : {}),
+    messages: [
+      { role: 'user', content: (prompt?.user ?? `Summarize succinctly:\n\n${text}`) + (responseFormat ? structuredInstruction(responseFormat, useTool) : '') }
+    ],
+    stream: !!onToken
+  };
+  const res = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': key,
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify(payload)
+  });
+  if (!res.ok) throw providerHttpError('Anthropic', res);
+  let summary: string;
+  let usage;
+  if (onToken) {
+    let acc = '';
+    // Input tokens arrive on message_start, output tokens on the closing message_delta
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    await readSseJson(res, event => {
+      if (event.type === 'content_block_delta' && event.delta?.text) {
+        acc += event.delta.text;
+        onToken(event.delta.text);
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+        acc += event.delta.partial_json || '';
+        if (event.delta.partial_json) onToken(event.delta.partial_json);
+      } else if (event.type === 'message_start') {
+        inputTokens = event.message?.usage?.input_tokens;
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage?.output_tokens;
+      }
+    });
+    summary = acc.trim();
+    usage = tokenUsage(inputTokens, outputTokens);
+  } else {
+    const json = await res.json();
+    const toolUse = (json.content || []).find((c: any) => c.type === 'tool_use');
+    summary = toolUse ? JSON.stringify(toolUse.input) : (json.content?.[0]?.text || '').trim();
+    usage = tokenUsage(json.usage?.input_tokens, json.usage?.output_tokens);
+  }
+  const modelHash = await sha256Hex(JSON.stringify({ model, params }));
+  return { summary, model, modelHash, params, usage };
+}
+
+async function listAnthropicModels(signal: AbortSignal): Promise<string[]> {
+  const res = await fetch('https://api.anthropic.com/v1/models?limit=100', {
+    headers: {
+      'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+      'anthropic-version': '2023-06-01'
+    },
+    signal
+  });
+  if (!res.ok) throw providerHttpError('Anthropic', res);
+  const json = await res.json();
+  return (json.data || []).map((m: any) => m.id).filter((id: unknown): id is string => typeof id === 'string');
+}
+
+registerProvider({
+  name: 'anthropic',
+  displayName: 'Anthropic',
+  requiredEnv: ['ANTHROPIC_API_KEY'],
+  defaultModel: 'claude-3-haiku-20240307',
+  models: ['claude-3-haiku-20240307', 'claude-3-sonnet-20240229', 'claude-3-opus-20240229'],
+  supportedParams: ['temperature', 'top_p', 'max_tokens', 'stop'],
+  defaultParams: { max_tokens: 400 },
+  capabilities: { streaming: true, deterministic: false, local: false },
+  summarize: summarizeAnthropic,
+  listModels: listAnthropicModels
+});
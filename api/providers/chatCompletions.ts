@@ -0,0 +1,92 @@
+/**
+ * Shared client for the OpenAI `/v1/chat/completions` protocol. Used by the OpenAI provider
+ * and by every configured OpenAI-compatible endpoint (vLLM, llama.cpp server, LM Studio, ...).
+ */
+
+import { TokenHandler } from './registry';
+import { GenerationParams } from '../params';
+import { TokenUsage } from '../types';
+import type { ResponseFormat } from '../structured';
+import { providerHttpError, readSseJson, tokenUsage } from './util';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionCall {
+  url: string;                     // full chat/completions endpoint
+  headers: Record<string, string>; // auth and any extra headers
+  model: string;
+  messages: ChatMessage[];
+  body?: Record<string, any>;      // additional request fields (sampling params, ...)
+  label: string;                   // provider label used in error messages
+  onToken?: TokenHandler;
+  streamUsage?: boolean;           // ask for a final usage chunk when streaming (stream_options)
+}
+
+export interface ChatCompletionResult {
+  text: string;                    // assistant message (trimmed)
+  usage?: TokenUsage;              // from the `usage` block, when the server returns one
+}
+
+// Canonical params -> chat/completions request fields (names already match the protocol)
+export function toChatCompletionParams(p: GenerationParams): Record<string, any> {
+  const body: Record<string, any> = {};
+  if (p.temperature !== undefined) body.temperature = p.temperature;
+  if (p.top_p !== undefined) body.top_p = p.top_p;
+  if (p.max_tokens !== undefined) body.max_tokens = p.max_tokens;
+  if (p.seed !== undefined) body.seed = p.seed;
+  if (p.stop !== undefined) body.stop = p.stop;
+  return body;
+}
+
+// Structured mode -> `response_format` (json_schema is supported by OpenAI, vLLM, llama.cpp, LM Studio)
+export function toResponseFormat(format: ResponseFormat, mode: 'json_schema' | 'json_object' = 'json_schema'): Record<string, any> {
+  if (mode === 'json_object') return { response_format: { type: 'json_object' } };
+  return { response_format: { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: false } } };
+}
+
+// Model ids from the protocol's `GET /models` endpoint (also serves as the health probe)
+export async function listChatModels(url: string, headers: Record<string, string>, label: string, signal: AbortSignal): Promise<string[]> {
+  const res = await fetch(url, { headers, signal });
+  if (!res.ok) throw providerHttpError(label, res);
+  const json = await res.json();
+  return (json.data || []).map((m: any) => m.id).filter((id: unknown): id is string => typeof id === 'string');
+}
+
+// Returns the assistant message text (trimmed) and usage, streaming deltas to onToken when given
+export async function callChatCompletions(call: ChatCompletionCall): Promise<ChatCompletionResult> {
+  const payload: Record<string, any> = {
+    model: call.model,
+    messages: call.messages,
+    ...(call.body || {}),
+    stream: !!call.onToken
+  };
+  if (call.onToken && call.streamUsage) payload.stream_options = { include_usage: true };
+  const res = await fetch(call.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...call.headers
+    },
+    body: JSON.stringify(payload)
+  });
+  if (!res.ok) throw providerHttpError(call.label, res);
+  if (call.onToken) {
+    const onToken = call.onToken;
+    let acc = '';
+    let usage: TokenUsage | undefined;
+    await readSseJson(res, chunk => {
+      const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+      if (delta) { acc += delta; onToken(delta); }
+      if (chunk.usage) usage = tokenUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+    });
+    return { text: acc.trim(), usage };
+  }
+  const json = await res.json();
+  return {
+    text: (json.choices?.[0]?.message?.content || '').trim(),
+    usage: tokenUsage(json.usage?.prompt_tokens, json.usage?.completion_tokens)
+  };
+}
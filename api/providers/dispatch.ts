@@ -0,0 +1,36 @@
+/**
+ * Single-provider dispatcher: one call to one provider, through its scheduler queue, with the
+ * usage of the call finalized on the response. Fallback chains (./fallback), consensus and
+ * replay all reach providers through here.
+ */
+
+import { AIModelResponse } from '../types';
+import { GenerationParams } from '../params';
+import { finalizeUsage } from '../usage';
+import { getProvider, TokenHandler } from './registry';
+import { scheduleProviderCall, QueueHandler } from './scheduler';
+import type { RenderedPrompt } from '../templates';
+import type { ResponseFormat } from '../structured';
+
+export interface SummarizeOptions {
+  provider: string;
+  text: string;
+  model?: string;           // default: the provider's defaultModel
+  params: GenerationParams; // canonical params from canonicalizeParams()
+  prompt?: RenderedPrompt;
+  responseFormat?: ResponseFormat;
+  onToken?: TokenHandler;
+  signer?: string;          // fairness key for the provider queue
+  onQueue?: QueueHandler;
+}
+
+export async function summarizeWithProvider(opts: SummarizeOptions): Promise<AIModelResponse> {
+  const def = getProvider(opts.provider);
+  if (!def) throw new Error(`Unsupported provider ${opts.provider}`);
+  return scheduleProviderCall({ provider: def.name, signer: opts.signer, text: opts.prompt ? opts.prompt.system + opts.prompt.user : opts.text, maxTokens: opts.params.max_tokens, onQueue: opts.onQueue }, async () => {
+    const started = Date.now();
+    const response = await def.summarize({ text: opts.text, model: opts.model || def.defaultModel, params: opts.params, prompt: opts.prompt, responseFormat: opts.responseFormat, onToken: opts.onToken });
+    response.usage = finalizeUsage(response, def.name, opts.text, Date.now() - started);
+    return response;
+  });
+}
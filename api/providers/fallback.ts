@@ -0,0 +1,102 @@
+/**
+ * Provider fallback chains. A chain is the requested provider followed by its fallbacks,
+ * taken from the request (`fallback: [...]`) or the deployment (PROVIDER_FALLBACKS), e.g.
+ *
+ *   PROVIDER_FALLBACKS={"anthropic":["together","ollama"],"*":["mock"]}
+ *
+ * Strict mode (request `strict: true` or PROVIDER_FALLBACK_STRICT=true) never falls back.
+ * Which provider actually answered is returned so it can be signed into the provenance.
+ */
+
+import { AIModelResponse } from '../types';
+import { canonicalizeParams } from '../params';
+import { getProvider, TokenHandler } from './registry';
+import { QueueHandler } from './scheduler';
+import { summarizeWithProvider } from './dispatch';
+import type { RenderedPrompt } from '../templates';
+import type { ResponseFormat } from '../structured';
+
+export interface ProviderAttempt {
+  provider: string;
+  error?: string;   // set when the provider was skipped or failed
+}
+
+export interface FallbackResult {
+  response: AIModelResponse;
+  requestedProvider: string;
+  provider: string;             // provider that produced `response`
+  attempts: ProviderAttempt[];  // every provider tried, in order
+}
+
+interface FallbackOptions {
+  chain: string[];                 // requested provider first
+  text: string;
+  model?: string;                  // applies to the requested provider only
+  params?: Record<string, any>;    // raw request params, canonicalized per provider
+  renderPrompt?: (text: string) => RenderedPrompt; // selected template, applied to `text`
+  responseFormat?: ResponseFormat;                 // structured mode
+  onToken?: TokenHandler;
+  onAttempt?: (provider: string) => void;
+  signer?: string;                 // fairness key for the provider queues
+  onQueue?: QueueHandler;
+}
+
+// Default when PROVIDER_FALLBACKS is unset: keep the demo working by falling back to mock
+const DEFAULT_FALLBACKS: Record<string, string[]> = { '*': ['mock'] };
+
+function deploymentFallbacks(): Record<string, string[]> {
+  const raw = process.env.PROVIDER_FALLBACKS;
+  if (!raw) return DEFAULT_FALLBACKS;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : DEFAULT_FALLBACKS;
+  } catch {
+    // Also accept a plain comma separated list applied to every provider
+    return { '*': raw.split(',').map(s => s.trim()).filter(Boolean) };
+  }
+}
+
+export function resolveProviderChain(requested: string, requestFallback?: string[], strict?: boolean): string[] {
+  const strictMode = strict ?? process.env.PROVIDER_FALLBACK_STRICT === 'true';
+  if (strictMode) return [requested];
+  const deployment = deploymentFallbacks();
+  const fallbacks = requestFallback ?? deployment[requested] ?? deployment['*'] ?? [];
+  return Array.from(new Set([requested, ...fallbacks]));
+}
+
+export async function summarizeWithFallback(opts: FallbackOptions): Promise<FallbackResult> {
+  const [requestedProvider] = opts.chain;
+  const attempts: ProviderAttempt[] = [];
+  for (const name of opts.chain) {
+    const def = getProvider(name);
+    if (!def) { attempts.push({ provider: name, error: 'unknown_provider' }); continue; }
+    // A fallback that cannot honor the requested params would silently change paramsHash semantics
+    const canonical = canonicalizeParams(opts.params, def);
+    if (canonical.errors.length) {
+      attempts.push({ provider: name, error: `params_unsupported: ${canonical.errors.join(', ')}` });
+      continue;
+    }
+    opts.onAttempt?.(name);
+    try {
+      // Rate limits and 429/503 retries apply per provider; a provider that stays limited
+      // after its retries falls through to the next one like any other failure
+      const response = await summarizeWithProvider({
+        provider: name,
+        text: opts.text,
+        model: name === requestedProvider ? opts.model : undefined,
+        params: canonical.params,
+        prompt: opts.renderPrompt?.(opts.text),
+        responseFormat: opts.responseFormat,
+        onToken: opts.onToken,
+        signer: opts.signer,
+        onQueue: opts.onQueue
+      });
+      attempts.push({ provider: name });
+      return { response, requestedProvider, provider: name, attempts };
+    } catch (e) {
+      attempts.push({ provider: name, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  const summary = attempts.map(a => `${a.provider} (${a.error})`).join('; ');
+  throw new Error(`All providers failed: ${summary}`);
+}
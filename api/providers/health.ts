@@ -0,0 +1,80 @@
+/**
+ * Provider health probe. Each configured provider's live model catalog is fetched with a
+ * timeout; a successful call marks the provider available and records the latency and the
+ * models the backend actually serves. Results are cached briefly so the UI can poll
+ * /api/providers without hammering the upstream APIs.
+ * NOTE: Ephemeral like generationCache (PROVIDER_HEALTH_TTL_MS, default 30s, 0 disables).
+ */
+
+import { ProviderDefinition, ProviderDescriptor, describeProvider, isProviderConfigured } from './registry';
+
+export interface ProviderHealth {
+  available: boolean;
+  latencyMs: number | null;     // null when the provider was not probed
+  models: string[];             // live catalog; the static list when the provider has no probe
+  error?: string;               // 'not_configured', 'timeout' or the backend error
+  checkedAt: string;            // ISO time of the probe
+  cached?: boolean;
+}
+
+export interface ProviderStatus extends ProviderDescriptor {
+  health: ProviderHealth;
+}
+
+const DEFAULT_TTL_MS = 30 * 1000;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Shared across route bundles (see usageStore)
+const globalHealth = globalThis as unknown as { __providerHealth?: Map<string, { health: ProviderHealth; expiresAt: number }> };
+const cache = globalHealth.__providerHealth || (globalHealth.__providerHealth = new Map());
+
+function envMs(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const n = raw === undefined ? fallback : Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+// fetch() reports network failures as 'fetch failed'; the cause carries the useful code
+function describeError(e: unknown): string {
+  if (!(e instanceof Error)) return String(e);
+  const cause = (e as { cause?: { code?: string } }).cause;
+  return cause?.code ? `${e.message} (${cause.code})` : e.message;
+}
+
+export async function probeProvider(def: ProviderDefinition, refresh = false): Promise<ProviderHealth> {
+  const checkedAt = new Date().toISOString();
+  if (!isProviderConfigured(def)) {
+    return { available: false, latencyMs: null, models: [], error: 'not_configured', checkedAt };
+  }
+  if (!def.listModels) {
+    return { available: true, latencyMs: null, models: def.models || [def.defaultModel], checkedAt };
+  }
+
+  const hit = cache.get(def.name);
+  if (!refresh && hit && hit.expiresAt > Date.now()) return { ...hit.health, cached: true };
+
+  const timeoutMs = envMs('PROVIDER_PROBE_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const started = Date.now();
+  let health: ProviderHealth;
+  try {
+    const models = await def.listModels(AbortSignal.timeout(timeoutMs));
+    health = { available: true, latencyMs: Date.now() - started, models, checkedAt };
+  } catch (e) {
+    const timedOut = e instanceof Error && (e.name === 'TimeoutError' || e.name === 'AbortError');
+    health = {
+      available: false,
+      latencyMs: Date.now() - started,
+      models: [],
+      error: timedOut ? 'timeout' : describeError(e),
+      checkedAt
+    };
+  }
+  const ttl = envMs('PROVIDER_HEALTH_TTL_MS', DEFAULT_TTL_MS);
+  if (ttl > 0) cache.set(def.name, { health, expiresAt: Date.now() + ttl });
+  return health;
+}
+
+// Probes run in parallel, so the slowest backend (bounded by the timeout) sets the latency
+export async function probeProviders(defs: ProviderDefinition[], refresh = false): Promise<ProviderStatus[]> {
+  return Promise.all(defs.map(async def => ({ ...describeProvider(def), health: await probeProvider(def, refresh) })));
+}
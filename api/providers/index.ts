@@ -0,0 +1,58 @@
+/**
+ * Multi-provider abstraction for summarization.
+ * Built-in providers (mock, ollama, openai, anthropic, together, plus any configured
+ * OpenAI-compatible endpoints) register themselves with the registry when imported below.
+ * To add a backend, create a module next to these that calls registerProvider() and add
+ * one import line here.
+ * Only providers whose required env vars are set are active. Fallback chains live in
+ * ./fallback and the single-provider dispatcher in ./dispatch; this module exposes the
+ * registry and re-exports both.
+ */
+
+import { getProvider, listProviders, isProviderConfigured, describeProvider, formatModelId, ProviderDescriptor } from './registry';
+import { probeProviders, ProviderStatus } from './health';
+import { queueStats, limitsFor } from './scheduler';
+
+import './mock';
+import './ollama';
+import './openai';
+import './anthropic';
+import './together';
+import './openaiCompatible';
+
+export { registerProvider, getProvider, formatModelId } from './registry';
+export { resolveProviderChain, summarizeWithFallback } from './fallback';
+export { summarizeWithProvider } from './dispatch';
+export type { ProviderAttempt, FallbackResult } from './fallback';
+export type { ProviderHealth, ProviderStatus } from './health';
+export type { QueueUpdate, QueueHandler, ProviderLimits } from './scheduler';
+export type { ProviderDefinition, ProviderDescriptor, ProviderCapabilities, ProviderRequest, TokenHandler } from './registry';
+
+// Registry key of a provider (e.g. 'openai'); any registered name is valid
+export type ProviderName = string;
+
+// Signed modelId for a provider's model (applies the provider's modelIdPrefix, if any)
+export function modelIdFor(provider: ProviderName, model: string): string {
+  const def = getProvider(provider);
+  return def ? formatModelId(def, model) : model;
+}
+
+export function providerDisplayName(name: ProviderName): string {
+  return getProvider(name)?.displayName || name;
+}
+
+export function listActiveProviders(): ProviderName[] {
+  return listProviders().filter(isProviderConfigured).map(p => p.name);
+}
+
+// Serializable descriptors of every registered provider, for the API and UI
+export function describeProviders(): ProviderDescriptor[] {
+  return listProviders().map(describeProvider);
+}
+
+// Descriptors plus a live health probe (availability, latency, served models), the
+// configured limits and the current queue per provider
+export async function describeProvidersWithHealth(refresh = false) {
+  const statuses: ProviderStatus[] = await probeProviders(listProviders(), refresh);
+  return statuses.map(s => ({ ...s, limits: limitsFor(s.name), queue: queueStats(s.name) }));
+}
@@ -0,0 +1,63 @@
+/**
+ * MOCK provider: deterministic keyword summary, no external dependencies.
+ */
+
+import { AIModelResponse } from '../types';
+import { registerProvider, ProviderRequest } from './registry';
+import { sha256Hex } from './util';
+
+// Deterministic value shaped like the schema (strings get the summary, string arrays the keywords)
+function mockFromSchema(schema: any, top: string[], prose: string): unknown {
+  if (!schema || typeof schema !== 'object') return prose;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const out: Record<string, unknown> = {};
+      for (const [k, sub] of Object.entries(schema.properties || {})) out[k] = mockFromSchema(sub, top, prose);
+      return out;
+    }
+    case 'array': {
+      const n = Math.max(schema.minItems || 0, Math.min(top.length, schema.maxItems ?? top.length));
+      return top.slice(0, n).map(w => (schema.items?.type === 'string' || !schema.items ? w : mockFromSchema(schema.items, top, prose)));
+    }
+    case 'number':
+    case 'integer':
+      return Math.max(schema.minimum ?? 0, Math.min(top.length, schema.maximum ?? top.length));
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return prose;
+  }
+}
+
+async function summarizeMock({ text, params, responseFormat, onToken }: ProviderRequest): Promise<AIModelResponse> {
+  // simple word frequency summary similar to existing mock
+  const words = text.toLowerCase().split(/\W+/).filter(w => w.length > 3);
+  const counts: Record<string, number> = {};
+  for (const w of words) counts[w] = (counts[w] || 0) + 1;
+  const top = Object.entries(counts).sort((a,b)=>b[1]-a[1]).slice(0,5).map(x=>x[0]);
+  const prose = `Key topics: ${top.join(', ')}`;
+  const summary = responseFormat ? JSON.stringify(mockFromSchema(responseFormat.schema, top, prose)) : prose;
+  if (onToken) {
+    for (const piece of summary.match(/\S+\s*/g) || []) onToken(piece);
+  }
+  const model = 'mock-local';
+  const modelHash = await sha256Hex(model);
+  return { summary, model, modelHash, params };
+}
+
+registerProvider({
+  name: 'mock',
+  displayName: 'Mock (deterministic)',
+  requiredEnv: [],
+  defaultModel: 'mock-local',
+  // Output is a pure function of the input, i.e. greedy decoding; only those values are honest
+  supportedParams: ['temperature', 'top_p'],
+  fixedParams: { temperature: 0, top_p: 1 },
+  capabilities: { streaming: true, deterministic: true, local: true },
+  summarize: summarizeMock
+});
@@ -0,0 +1,84 @@
+/**
+ * OLLAMA provider: local models served by an Ollama daemon (OLLAMA_API_URL).
+ */
+
+import { AIModelResponse, OllamaResponse } from '../types';
+import { GenerationParams } from '../params';
+import { registerProvider, ProviderRequest } from './registry';
+import { getOllamaModelFingerprint, listOllamaModels } from '../model';
+import { providerHttpError, readLines, tokenUsage } from './util';
+import { structuredInstruction } from '../structured';
+
+// Canonical params -> Ollama `options`
+function toOllamaOptions(p: GenerationParams): Record<string, any> {
+  const options: Record<string, any> = {};
+  if (p.temperature !== undefined) options.temperature = p.temperature;
+  if (p.top_p !== undefined) options.top_p = p.top_p;
+  if (p.max_tokens !== undefined) options.num_predict = p.max_tokens;
+  if (p.seed !== undefined) options.seed = p.seed;
+  if (p.stop !== undefined) options.stop = p.stop;
+  return options;
+}
+
+async function summarizeOllama({ text, model, params, prompt: template, responseFormat, onToken }: ProviderRequest): Promise<AIModelResponse> {
+  const base = process.env.OLLAMA_API_URL || 'http://localhost:11434';
+  const basePrompt = template?.user ?? `Please provide a concise summary of the following text:\n\n${text}\n\nSummary:`;
+  // `format` accepts a JSON Schema and constrains decoding to it
+  const prompt = responseFormat ? basePrompt + structuredInstruction(responseFormat, true) : basePrompt;
+  const body = {
+    model,
+    prompt,
+    ...(responseFormat ? { format: responseFormat.schema } : {}),
+    ...(template?.system ? { system: template.system } : {}),
+    stream: !!onToken,
+    options: toOllamaOptions(params)
+  };
+  const res = await fetch(`${base}/api/generate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!res.ok) throw providerHttpError('Ollama', res);
+  let summary: string;
+  let usage;
+  if (onToken) {
+    // Ollama streams newline-delimited JSON chunks, each carrying a `response` fragment;
+    // the final `done` chunk carries the eval counts
+    let acc = '';
+    await readLines(res, line => {
+      try {
+        const chunk: OllamaResponse = JSON.parse(line);
+        if (chunk.response) { acc += chunk.response; onToken(chunk.response); }
+        if (chunk.done) usage = tokenUsage(chunk.prompt_eval_count, chunk.eval_count);
+      } catch { /* ignore malformed chunk */ }
+    });
+    summary = acc.trim();
+  } else {
+    const json: OllamaResponse = await res.json();
+    summary = (json.response || '').trim();
+    usage = tokenUsage(json.prompt_eval_count, json.eval_count);
+  }
+  // modelHash is the weight fingerprint, not the tag name: retagged or swapped weights change it
+  let modelHash = '';
+  let modelFingerprint;
+  try {
+    const fp = await getOllamaModelFingerprint(model);
+    modelHash = fp.fingerprint;
+    modelFingerprint = fp.components;
+  } catch (e) {
+    console.warn('[ollama] could not fingerprint model weights', model, e instanceof Error ? e.message : e);
+  }
+  return { summary, model, modelHash, params, modelFingerprint, usage };
+}
+
+registerProvider({
+  name: 'ollama',
+  displayName: 'Ollama',
+  requiredEnv: ['OLLAMA_API_URL'],
+  defaultModel: 'llama3',
+  models: ['llama3', 'qwen2.5:3b'],
+  supportedParams: ['temperature', 'top_p', 'max_tokens', 'seed', 'stop'],
+  capabilities: { streaming: true, deterministic: false, local: true },
+  summarize: summarizeOllama,
+  listModels: listOllamaModels
+});
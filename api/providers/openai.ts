@@ -0,0 +1,47 @@
+/**
+ * OPENAI provider: chat completions API (OPENAI_API_KEY).
+ */
+
+import { AIModelResponse } from '../types';
+import { registerProvider, ProviderRequest } from './registry';
+import { callChatCompletions, listChatModels, toChatCompletionParams, toResponseFormat } from './chatCompletions';
+import { structuredInstruction } from '../structured';
+import { sha256Hex } from './util';
+
+async function summarizeOpenAI({ text, model, params, prompt, responseFormat, onToken }: ProviderRequest): Promise<AIModelResponse> {
+  const key = process.env.OPENAI_API_KEY;
+  if (!key) throw new Error('OPENAI_API_KEY missing');
+  const { text: summary, usage } = await callChatCompletions({
+    url: 'https://api.openai.com/v1/chat/completions',
+    headers: { 'Authorization': `Bearer ${key}` },
+    model,
+    messages: [
+      { role: 'system', content: prompt?.system ?? 'You are a concise summarization assistant.' },
+      { role: 'user', content: (prompt?.user ?? `Summarize succinctly:\n\n${text}`) + (responseFormat ? structuredInstruction(responseFormat, true) : '') }
+    ],
+    body: { ...toChatCompletionParams(params), ...(responseFormat ? toResponseFormat(responseFormat) : {}) },
+    label: 'OpenAI',
+    onToken,
+    streamUsage: true
+  });
+  const modelHash = await sha256Hex(JSON.stringify({ model, params }));
+  return { summary, model, modelHash, params, usage };
+}
+
+// The catalog also lists embedding, image and audio models; keep the chat families
+async function listOpenAIModels(signal: AbortSignal): Promise<string[]> {
+  const ids = await listChatModels('https://api.openai.com/v1/models', { 'Authorization': `Bearer ${process.env.OPENAI_API_KEY}` }, 'OpenAI', signal);
+  return ids.filter(id => /^(gpt-|o\d|chatgpt-)/.test(id) && !/(audio|realtime|transcribe|tts|image)/.test(id)).sort();
+}
+
+registerProvider({
+  name: 'openai',
+  displayName: 'OpenAI',
+  requiredEnv: ['OPENAI_API_KEY'],
+  defaultModel: 'gpt-4o-mini',
+  models: ['gpt-4o-mini', 'gpt-4o', 'gpt-3.5-turbo'],
+  supportedParams: ['temperature', 'top_p', 'max_tokens', 'seed', 'stop'],
+  capabilities: { streaming: true, deterministic: false, local: false },
+  summarize: summarizeOpenAI,
+  listModels: listOpenAIModels
+});
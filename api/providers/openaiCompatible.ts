@@ -0,0 +1,122 @@
+/**
+ * OPENAI-COMPATIBLE providers: any server speaking `/v1/chat/completions` (vLLM, llama.cpp
+ * server, LM Studio, internal gateways). Instances are declared in OPENAI_COMPATIBLE_PROVIDERS
+ * as a JSON array and each registers under its own name, e.g.
+ *
+ *   [{ "name": "vllm", "baseUrl": "http://vllm:8000/v1", "apiKeyEnv": "VLLM_API_KEY",
+ *      "models": ["meta-llama/Llama-3.1-8B-Instruct"], "modelIdPrefix": "vllm-onprem" }]
+ *
+ * The signed modelId of an instance's output is `<modelIdPrefix>:<model>` so outputs from
+ * different deployments of the same model stay distinguishable. An instance whose name is
+ * already registered (a built-in provider or an earlier entry) or whose modelIdPrefix another
+ * provider uses is skipped. Instances count as hosted unless they declare `"local": true`.
+ */
+
+import { AIModelResponse } from '../types';
+import { registerProvider, getProvider, listProviders, ProviderDefinition, ProviderRequest } from './registry';
+import { callChatCompletions, listChatModels, toChatCompletionParams, toResponseFormat } from './chatCompletions';
+import { structuredInstruction } from '../structured';
+import { sha256Hex } from './util';
+
+export interface OpenAICompatibleConfig {
+  name: string;              // registry key / `provider` value
+  displayName?: string;
+  baseUrl: string;           // API root including /v1, e.g. http://localhost:1234/v1
+  apiKeyEnv?: string;        // env var holding the key (preferred over apiKey)
+  apiKey?: string;
+  authHeader?: string;       // default 'Authorization'
+  authScheme?: string;       // default 'Bearer'; '' sends the raw key
+  headers?: Record<string, string>;
+  models?: string[];
+  defaultModel?: string;
+  modelIdPrefix?: string;    // default `openai-compatible/<name>`
+  supportedParams?: string[];
+  systemPrompt?: string;
+  streamUsage?: boolean;     // server accepts stream_options.include_usage (vLLM, OpenAI proxies)
+  structuredOutput?: 'json_schema' | 'json_object' | 'prompt'; // native JSON feature (default json_schema)
+  local?: boolean;           // server runs on infrastructure the deployment controls (default false)
+}
+
+const DEFAULT_SUPPORTED_PARAMS = ['temperature', 'top_p', 'max_tokens', 'seed', 'stop'];
+
+function loadConfigs(): OpenAICompatibleConfig[] {
+  const raw = process.env.OPENAI_COMPATIBLE_PROVIDERS;
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    const list: any[] = Array.isArray(parsed) ? parsed : [parsed];
+    return list.filter(c => {
+      const valid = c && typeof c.name === 'string' && typeof c.baseUrl === 'string';
+      if (!valid) console.warn('[providers] skipping OPENAI_COMPATIBLE_PROVIDERS entry without name/baseUrl', c);
+      return valid;
+    });
+  } catch (e) {
+    console.warn('[providers] OPENAI_COMPATIBLE_PROVIDERS is not valid JSON:', e instanceof Error ? e.message : e);
+    return [];
+  }
+}
+
+function authHeaders(cfg: OpenAICompatibleConfig): Record<string, string> {
+  const key = cfg.apiKeyEnv ? process.env[cfg.apiKeyEnv] : cfg.apiKey;
+  const headers: Record<string, string> = { ...(cfg.headers || {}) };
+  if (key) {
+    const scheme = cfg.authScheme ?? 'Bearer';
+    headers[cfg.authHeader || 'Authorization'] = scheme ? `${scheme} ${key}` : key;
+  }
+  return headers;
+}
+
+export function createOpenAICompatibleProvider(cfg: OpenAICompatibleConfig): ProviderDefinition {
+  const baseUrl = cfg.baseUrl.replace(/\/+$/, '');
+  const modelIdPrefix = cfg.modelIdPrefix || `openai-compatible/${cfg.name}`;
+  const defaultModel = cfg.defaultModel || cfg.models?.[0] || 'default';
+
+  async function summarize({ text, model, params, prompt, responseFormat, onToken }: ProviderRequest): Promise<AIModelResponse> {
+    if (cfg.apiKeyEnv && !process.env[cfg.apiKeyEnv]) throw new Error(`${cfg.apiKeyEnv} missing`);
+    const structuredMode = cfg.structuredOutput || 'json_schema';
+    const structured = responseFormat && structuredMode !== 'prompt' ? toResponseFormat(responseFormat, structuredMode) : {};
+    const suffix = responseFormat ? structuredInstruction(responseFormat, structuredMode === 'json_schema') : '';
+    const { text: summary, usage } = await callChatCompletions({
+      url: `${baseUrl}/chat/completions`,
+      headers: authHeaders(cfg),
+      model,
+      messages: [
+        { role: 'system', content: prompt?.system ?? (cfg.systemPrompt || 'You are a concise summarization assistant.') },
+        { role: 'user', content: (prompt?.user ?? `Summarize succinctly:\n\n${text}`) + suffix }
+      ],
+      body: { ...toChatCompletionParams(params), ...structured },
+      label: cfg.displayName || cfg.name,
+      onToken,
+      streamUsage: cfg.streamUsage
+    });
+    const modelHash = await sha256Hex(JSON.stringify({ model: `${modelIdPrefix}:${model}`, params }));
+    return { summary, model, modelHash, params, usage };
+  }
+
+  return {
+    name: cfg.name,
+    displayName: cfg.displayName || cfg.name,
+    requiredEnv: cfg.apiKeyEnv ? [cfg.apiKeyEnv] : [],
+    defaultModel,
+    models: cfg.models,
+    supportedParams: cfg.supportedParams || DEFAULT_SUPPORTED_PARAMS,
+    capabilities: { streaming: true, deterministic: false, local: cfg.local === true },
+    modelIdPrefix,
+    summarize,
+    listModels: signal => listChatModels(`${baseUrl}/models`, authHeaders(cfg), cfg.displayName || cfg.name, signal)
+  };
+}
+
+for (const cfg of loadConfigs()) {
+  const def = createOpenAICompatibleProvider(cfg);
+  if (getProvider(def.name)) {
+    console.warn(`[providers] skipping OPENAI_COMPATIBLE_PROVIDERS entry "${def.name}": a provider with that name is already registered`);
+    continue;
+  }
+  const sharesPrefix = listProviders().find(p => p.modelIdPrefix === def.modelIdPrefix);
+  if (sharesPrefix) {
+    console.warn(`[providers] skipping OPENAI_COMPATIBLE_PROVIDERS entry "${def.name}": modelIdPrefix "${def.modelIdPrefix}" is already used by "${sharesPrefix.name}"`);
+    continue;
+  }
+  registerProvider(def);
+}
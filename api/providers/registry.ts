@@ -0,0 +1,96 @@
+/**
+ * Provider registry. Each provider module describes itself with a ProviderDefinition
+ * and calls registerProvider() at import time; the summarize pipeline, /api/providers
+ * and the UI discover backends from here instead of a hard-coded list.
+ */
+
+import { AIModelResponse } from '../types';
+import type { GenerationParams } from '../params';
+import type { RenderedPrompt } from '../templates';
+import type { ResponseFormat } from '../structured';
+
+// Called with each text fragment as the provider produces it (streaming mode)
+export type TokenHandler = (token: string) => void;
+
+export interface ProviderCapabilities {
+  streaming: boolean;      // can emit tokens through onToken
+  deterministic: boolean;  // same input + params always yields the same output
+  local: boolean;          // runs without a third-party hosted API
+}
+
+export interface ProviderRequest {
+  text: string;
+  model: string;           // resolved model (caller's choice or defaultModel)
+  params: GenerationParams; // canonical params; the provider must send exactly these
+  prompt?: RenderedPrompt;  // template instruction (input already embedded); default prompt when absent
+  responseFormat?: ResponseFormat; // structured mode: reply with JSON matching this schema
+  onToken?: TokenHandler;
+}
+
+export interface ProviderDefinition {
+  name: string;                 // registry key, also the `provider` value in /api/summarize
+  displayName: string;
+  requiredEnv: string[];        // provider is active only when all of these are set
+  defaultModel: string;
+  models?: string[];            // known models, shown as suggestions in the UI
+  supportedParams: string[];    // generation params the backend accepts
+  defaultParams?: GenerationParams; // provider-specific defaults (e.g. required max_tokens)
+  fixedParams?: GenerationParams;   // values the backend cannot vary; others are rejected
+  capabilities: ProviderCapabilities;
+  modelIdPrefix?: string;       // when set, signed modelId is `<prefix>:<model>`
+  summarize(req: ProviderRequest): Promise<AIModelResponse>;
+  // Live model catalog from the backend; used as the health probe (see ./health).
+  // Providers without one are always reported available with their static `models`.
+  listModels?(signal: AbortSignal): Promise<string[]>;
+}
+
+// Public, serializable view of a provider (no functions)
+export interface ProviderDescriptor {
+  name: string;
+  displayName: string;
+  defaultModel: string;
+  models: string[];
+  supportedParams: string[];
+  capabilities: ProviderCapabilities;
+  modelIdPrefix?: string;
+  configured: boolean;
+}
+
+const registry = new Map<string, ProviderDefinition>();
+
+export function registerProvider(def: ProviderDefinition) {
+  if (registry.has(def.name)) {
+    console.warn(`[providers] provider "${def.name}" registered twice; keeping the latest definition`);
+  }
+  registry.set(def.name, def);
+}
+
+export function getProvider(name: string): ProviderDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listProviders(): ProviderDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function isProviderConfigured(def: ProviderDefinition): boolean {
+  return def.requiredEnv.every(k => !!process.env[k]);
+}
+
+// Identifier recorded as `modelId` in the signed provenance
+export function formatModelId(def: ProviderDefinition, model: string): string {
+  return def.modelIdPrefix ? `${def.modelIdPrefix}:${model}` : model;
+}
+
+export function describeProvider(def: ProviderDefinition): ProviderDescriptor {
+  return {
+    name: def.name,
+    displayName: def.displayName,
+    defaultModel: def.defaultModel,
+    models: def.models || [def.defaultModel],
+    supportedParams: def.supportedParams,
+    capabilities: def.capabilities,
+    modelIdPrefix: def.modelIdPrefix,
+    configured: isProviderConfigured(def)
+  };
+}
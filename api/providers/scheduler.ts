@@ -0,0 +1,230 @@
+/**
+ * Per-provider scheduling in front of every provider call. Limits come from PROVIDER_LIMITS
+ * (merged over the defaults below), keyed by provider name with `*` as the fallback, e.g.
+ *
+ *   PROVIDER_LIMITS={"openai":{"rpm":500,"tpm":200000,"concurrency":8},"ollama":{"concurrency":1}}
+ *
+ * `rpm` and `tpm` are sliding one-minute windows; a call's tokens are estimated from its input
+ * plus max_tokens when it starts and replaced by the reported usage when it finishes. Waiting
+ * calls are served round-robin across signers so one bulk caller cannot starve the others.
+ * 429/503 answers are retried after Retry-After (or an exponential back-off), pausing the
+ * whole provider meanwhile. Callers get their place in line through `onQueue`.
+ * NOTE: In-memory like usageStore, so limits are per server process.
+ */
+
+import { estimateTokens } from '../usage';
+import type { ProviderHttpError } from './util';
+
+export interface ProviderLimits {
+  rpm?: number;          // requests per minute
+  tpm?: number;          // tokens per minute (prompt + completion)
+  concurrency?: number;  // calls in flight at once
+  maxRetries?: number;   // retries after 429/503 (default 2)
+}
+
+// Reported while a call waits: `position` is 1-based, 0 once the call starts
+export interface QueueUpdate {
+  provider: string;
+  position: number;
+  waitedMs?: number;     // set when the call starts after waiting
+  retryInMs?: number;    // set when a 429/503 is being retried
+}
+
+export type QueueHandler = (update: QueueUpdate) => void;
+
+export interface ScheduleOptions {
+  provider: string;
+  signer?: string;       // fairness key (default 'anonymous')
+  text: string;          // provider input, for the token estimate
+  maxTokens?: number;
+  onQueue?: QueueHandler;
+}
+
+// Small local machines fall over under parallel generations
+const DEFAULT_LIMITS: Record<string, ProviderLimits> = { 'ollama': { concurrency: 1 } };
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+const WINDOW_MS = 60 * 1000;
+
+interface Waiter {
+  signer: string;
+  tokens: number;
+  enqueuedAt: number;
+  lastPosition: number;
+  onQueue?: QueueHandler;
+  start: () => void;
+}
+
+interface ProviderQueue {
+  active: number;
+  waiting: Map<string, Waiter[]>;  // per signer, FIFO
+  turn: string[];                  // round-robin order of signers with waiting calls
+  requests: number[];              // start times inside the window
+  tokens: Array<{ at: number; n: number }>;
+  pausedUntil: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// Shared across route bundles (see usageStore)
+const globalQueues = globalThis as unknown as { __providerQueues?: Map<string, ProviderQueue> };
+const queues: Map<string, ProviderQueue> = globalQueues.__providerQueues || (globalQueues.__providerQueues = new Map());
+
+function limitsTable(): Record<string, ProviderLimits> {
+  const raw = process.env.PROVIDER_LIMITS;
+  if (!raw) return DEFAULT_LIMITS;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return { ...DEFAULT_LIMITS, ...parsed };
+  } catch {
+    console.warn('[scheduler] PROVIDER_LIMITS is not valid JSON; using default limits');
+  }
+  return DEFAULT_LIMITS;
+}
+
+export function limitsFor(provider: string): ProviderLimits {
+  const table = limitsTable();
+  return table[provider] || table['*'] || {};
+}
+
+function queueFor(provider: string): ProviderQueue {
+  let q = queues.get(provider);
+  if (!q) {
+    q = { active: 0, waiting: new Map(), turn: [], requests: [], tokens: [], pausedUntil: 0 };
+    queues.set(provider, q);
+  }
+  return q;
+}
+
+// Earliest time the next call may start (now when it may start immediately)
+function nextStartAt(q: ProviderQueue, limits: ProviderLimits, tokens: number, now: number): number {
+  q.requests = q.requests.filter(t => t > now - WINDOW_MS);
+  q.tokens = q.tokens.filter(t => t.at > now - WINDOW_MS);
+  let at = Math.max(now, q.pausedUntil);
+  if (limits.rpm && q.requests.length >= limits.rpm) {
+    at = Math.max(at, q.requests[q.requests.length - limits.rpm] + WINDOW_MS);
+  }
+  // A call larger than the whole budget still runs once the window is empty
+  if (limits.tpm && q.tokens.length) {
+    let used = q.tokens.reduce((s, t) => s + t.n, 0);
+    for (const t of q.tokens) {
+      if (used + tokens <= limits.tpm) break;
+      used -= t.n;
+      at = Math.max(at, t.at + WINDOW_MS);
+    }
+  }
+  return at;
+}
+
+// Waiters in the order they will be served (round-robin over signers, FIFO per signer)
+function serviceOrder(q: ProviderQueue): Waiter[] {
+  const lists = q.turn.map(s => q.waiting.get(s) || []);
+  const order: Waiter[] = [];
+  for (let depth = 0; lists.some(l => l.length > depth); depth++) {
+    for (const l of lists) if (l[depth]) order.push(l[depth]);
+  }
+  return order;
+}
+
+function pump(provider: string) {
+  const q = queueFor(provider);
+  const limits = limitsFor(provider);
+  if (q.timer) { clearTimeout(q.timer); q.timer = undefined; }
+  while (q.turn.length) {
+    if (limits.concurrency && q.active >= limits.concurrency) break;
+    const signer = q.turn[0];
+    const list = q.waiting.get(signer)!;
+    const now = Date.now();
+    const at = nextStartAt(q, limits, list[0].tokens, now);
+    if (at > now) {
+      q.timer = setTimeout(() => pump(provider), at - now);
+      break;
+    }
+    const waiter = list.shift()!;
+    q.turn.shift();
+    if (list.length) q.turn.push(signer);
+    else q.waiting.delete(signer);
+    q.active++;
+    q.requests.push(now);
+    q.tokens.push({ at: now, n: waiter.tokens });
+    waiter.start();
+  }
+  serviceOrder(q).forEach((w, i) => {
+    if (w.lastPosition === i + 1) return;
+    w.lastPosition = i + 1;
+    w.onQueue?.({ provider, position: i + 1 });
+  });
+}
+
+// Resolves when the call may start; the returned release records the actual token count
+function acquire(opts: ScheduleOptions, tokens: number, retry: boolean): Promise<(actualTokens?: number) => void> {
+  const q = queueFor(opts.provider);
+  const signer = opts.signer || 'anonymous';
+  return new Promise(resolve => {
+    const waiter: Waiter = { signer, tokens, enqueuedAt: Date.now(), lastPosition: 0, onQueue: opts.onQueue, start: () => {} };
+    let entry: { at: number; n: number } | undefined;
+    waiter.start = () => {
+      entry = q.tokens[q.tokens.length - 1];
+      if (waiter.lastPosition) opts.onQueue?.({ provider: opts.provider, position: 0, waitedMs: Date.now() - waiter.enqueuedAt });
+      resolve(actualTokens => {
+        q.active--;
+        if (entry && actualTokens !== undefined) entry.n = actualTokens;
+        pump(opts.provider);
+      });
+    };
+    // A retried call keeps its place at the head of its signer's line
+    const list = q.waiting.get(signer) || [];
+    if (retry) list.unshift(waiter);
+    else list.push(waiter);
+    q.waiting.set(signer, list);
+    if (!q.turn.includes(signer)) {
+      if (retry) q.turn.unshift(signer);
+      else q.turn.push(signer);
+    }
+    pump(opts.provider);
+  });
+}
+
+function retryDelay(e: unknown, attempt: number): number | undefined {
+  const status = (e as ProviderHttpError)?.status;
+  if (status !== 429 && status !== 503) return undefined;
+  const hinted = (e as ProviderHttpError).retryAfterMs;
+  const delay = hinted ?? BASE_BACKOFF_MS * 2 ** attempt;
+  return delay <= MAX_RETRY_DELAY_MS ? delay : undefined;
+}
+
+/**
+ * Run one provider call under the provider's limits. Rate-limited and unavailable answers
+ * are retried up to `maxRetries` times; any other error (or the last one) is rethrown.
+ */
+export async function scheduleProviderCall<T extends { usage?: { totalTokens: number; estimated?: boolean } }>(
+  opts: ScheduleOptions,
+  call: () => Promise<T>
+): Promise<T> {
+  const limits = limitsFor(opts.provider);
+  const maxRetries = limits.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const tokens = estimateTokens(opts.text) + (opts.maxTokens || 0);
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquire(opts, tokens, attempt > 0);
+    try {
+      const result = await call();
+      release(result.usage?.totalTokens);
+      return result;
+    } catch (e) {
+      release();
+      const delay = retryDelay(e, attempt);
+      if (delay === undefined || attempt >= maxRetries) throw e;
+      const q = queueFor(opts.provider);
+      q.pausedUntil = Math.max(q.pausedUntil, Date.now() + delay);
+      opts.onQueue?.({ provider: opts.provider, position: 0, retryInMs: delay });
+    }
+  }
+}
+
+// Snapshot for /api/providers
+export function queueStats(provider: string): { active: number; waiting: number; pausedUntil?: number } {
+  const q = queues.get(provider);
+  if (!q) return { active: 0, waiting: 0 };
+  const waiting = Array.from(q.waiting.values()).reduce((n, l) => n + l.length, 0);
+  return { active: q.active, waiting, pausedUntil: q.pausedUntil > Date.now() ? q.pausedUntil : undefined };
+}
@@ -0,0 +1,92 @@
+/**
+ * TOGETHER provider: hosted open models via the completions API (TOGETHER_API_KEY).
+ */
+
+import { AIModelResponse } from '../types';
+import { GenerationParams } from '../params';
+import { registerProvider, ProviderRequest } from './registry';
+import { providerHttpError, readSseJson, sha256Hex, tokenUsage } from './util';
+import { structuredInstruction } from '../structured';
+
+// Canonical params -> completions request fields
+function toTogetherParams(p: GenerationParams): Record<string, any> {
+  const body: Record<string, any> = {};
+  if (p.temperature !== undefined) body.temperature = p.temperature;
+  if (p.top_p !== undefined) body.top_p = p.top_p;
+  if (p.max_tokens !== undefined) body.max_tokens = p.max_tokens;
+  if (p.stop !== undefined) body.stop = p.stop;
+  return body;
+}
+
+async function summarizeTogether({ text, model, params, prompt: template, responseFormat, onToken }: ProviderRequest): Promise<AIModelResponse> {
+  const key = process.env.TOGETHER_API_KEY;
+  if (!key) throw new Error('TOGETHER_API_KEY missing');
+  // The completions API has no system role, so a template's system prompt leads the input
+  // The legacy completions API has no JSON mode; structured output is requested in the prompt
+  const suffix = responseFormat ? structuredInstruction(responseFormat, false) : '';
+  const prompt = template
+    ? `${template.system}\n\n${template.user}${suffix}\n\n`
+    : `Summarize succinctly:\n\n${text}${suffix}\n\n${responseFormat ? 'JSON:' : 'Summary:'}`;
+  const payload = {
+    model,
+    input: prompt,
+    ...toTogetherParams(params),
+    stream_tokens: !!onToken
+  };
+  const res = await fetch('https://api.together.xyz/v1/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${key}`
+    },
+    body: JSON.stringify(payload)
+  });
+  if (!res.ok) throw providerHttpError('Together', res);
+  let summary: string;
+  let usage;
+  if (onToken) {
+    let acc = '';
+    await readSseJson(res, chunk => {
+      const delta: string | undefined = chunk.choices?.[0]?.text ?? chunk.choices?.[0]?.delta?.content;
+      if (delta) { acc += delta; onToken(delta); }
+      if (chunk.usage) usage = tokenUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+    });
+    summary = acc.trim();
+  } else {
+    const json = await res.json();
+    summary = (json.output?.choices?.[0]?.text || '').trim();
+    const u = json.usage || json.output?.usage;
+    usage = tokenUsage(u?.prompt_tokens, u?.completion_tokens);
+  }
+  const modelHash = await sha256Hex(JSON.stringify({ model, params }));
+  return { summary, model, modelHash, params, usage };
+}
+
+// The catalog is a plain array covering every model type; keep the text generation ones
+async function listTogetherModels(signal: AbortSignal): Promise<string[]> {
+  const res = await fetch('https://api.together.xyz/v1/models', {
+    headers: { 'Authorization': `Bearer ${process.env.TOGETHER_API_KEY}` },
+    signal
+  });
+  if (!res.ok) throw providerHttpError('Together', res);
+  const json = await res.json();
+  const list: any[] = Array.isArray(json) ? json : json.data || [];
+  return list.filter(m => !m.type || m.type === 'chat' || m.type === 'language').map(m => m.id).filter(Boolean);
+}
+
+registerProvider({
+  name: 'together',
+  displayName: 'Together',
+  requiredEnv: ['TOGETHER_API_KEY'],
+  defaultModel: 'meta-llama/Meta-Llama-3-8B-Instruct-Turbo',
+  models: [
+    'meta-llama/Meta-Llama-3-8B-Instruct-Turbo',
+    'mistralai/Mixtral-8x7B-Instruct-v0.1',
+    'NousResearch/Nous-Hermes-2-Mixtral-8x7B-DPO'
+  ],
+  supportedParams: ['temperature', 'top_p', 'max_tokens', 'stop'],
+  defaultParams: { max_tokens: 400 },
+  capabilities: { streaming: true, deterministic: false, local: false },
+  summarize: summarizeTogether,
+  listModels: listTogetherModels
+});
@@ -0,0 +1,69 @@
+/**
+ * Shared helpers for provider modules (hashing, streamed response parsing, usage).
+ */
+
+import { TokenUsage } from '../types';
+
+// Utility: hash helper (SHA-256 hex)
+export async function sha256Hex(data: string): Promise<string> {
+  const enc = new TextEncoder().encode(data);
+  const hash = await crypto.subtle.digest('SHA-256', enc);
+  return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Read a streamed response body line by line (SSE and NDJSON are both line oriented)
+export async function readLines(res: Response, onLine: (line: string) => void): Promise<void> {
+  if (!res.body) throw new Error('Response body is not readable');
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let nl: number;
+    while ((nl = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, nl).replace(/\r$/, '');
+      buffer = buffer.slice(nl + 1);
+      if (line.trim()) onLine(line);
+    }
+  }
+  if (buffer.trim()) onLine(buffer);
+}
+
+// Parse `data:` lines of an SSE stream as JSON, ignoring comments and the [DONE] sentinel
+export async function readSseJson(res: Response, onData: (json: any) => void): Promise<void> {
+  await readLines(res, line => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+    try { onData(JSON.parse(data)); } catch { /* partial or non-JSON keepalive */ }
+  });
+}
+
+// HTTP status and back-off hint of a failed provider call (read by the scheduler's retry)
+export type ProviderHttpError = Error & { status: number; retryAfterMs?: number };
+
+// Retry-After is seconds or an HTTP date; some OpenAI-style gateways also send retry-after-ms
+function retryAfterMs(headers: Headers): number | undefined {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (headers.get('retry-after-ms') && Number.isFinite(ms)) return Math.max(0, ms);
+  const raw = headers.get('retry-after');
+  if (!raw) return undefined;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(raw);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+export function providerHttpError(label: string, res: Response): ProviderHttpError {
+  return Object.assign(new Error(`${label} error ${res.status}`), { status: res.status, retryAfterMs: retryAfterMs(res.headers) });
+}
+
+// Provider-reported token counts -> TokenUsage (undefined when the provider reported none)
+export function tokenUsage(promptTokens?: number, completionTokens?: number): TokenUsage | undefined {
+  if (typeof promptTokens !== 'number' && typeof completionTokens !== 'number') return undefined;
+  const prompt = promptTokens || 0;
+  const completion = completionTokens || 0;
+  return { promptTokens: prompt, completionTokens: completion, totalTokens: prompt + completion };
+}
@@ -0,0 +1,163 @@
+/**
+ * Publishing a signed envelope: the preimages sent along must hash to what was signed, the
+ * domain must be on the allowlist, a parent must exist and a delegate's certificate must
+ * authorize the record. The envelope is then stored on IPFS and indexed by outputHash.
+ * Shared by /api/publish (wallet signatures) and /api/sign-publish (server signer).
+ */
+
+import { addJson } from './ipfs';
+import { ContentProvenanceValue, Eip712Domain, ModelFingerprintComponents, TokenUsage } from './types';
+import { addOutputHashMapping } from './indexStore';
+import { attachEnvelopeToUsage } from './usageStore';
+import { hashParams } from './params';
+import { fingerprintFromComponents } from './model';
+import { getTemplate, templateHash } from './templates';
+import { schemaHash } from './structured';
+import { bundleHash, ConsensusBundle } from './consensus';
+import { policyHash, ModerationPolicy } from './moderation';
+import { checkSignatureDomain } from './domains';
+import { checkParentProvenance, decodeProvenance, isSupportedProvenanceVersion, provenanceTypesFor, validateProvenanceFields } from './provenanceSchema';
+import { checkDelegation, reserveDelegationUse, SignedDelegation } from './delegation';
+import { verifyEnvelopeSignature } from './signatures';
+
+export interface PublishBody {
+  provenance: ContentProvenanceValue; // any supported schema version
+  signature: string; // hex signature from wallet
+  signer: string;    // address recovered client-side (we will not trust blindly)
+  domain?: Eip712Domain; // domain the wallet signed under (default: the legacy chain 1 domain)
+  promptCid?: string; // optional CID of original prompt (not part of signed struct)
+  params?: Record<string, any>; // optional canonical params (preimage of paramsHash)
+  modelFingerprint?: ModelFingerprintComponents; // optional preimage of modelHash (local models)
+  usage?: TokenUsage;           // optional token/cost accounting from /api/summarize (unsigned)
+  template?: { templateId: string; variables: Record<string, string> }; // preimage of templateHash
+  outputSchema?: Record<string, any>; // JSON Schema of structured mode (preimage of schemaHash)
+  consensus?: ConsensusBundle;        // consensus bundle manifest (preimage of bundleHash)
+  moderationPolicy?: ModerationPolicy; // content policy (preimage of moderationPolicyHash)
+  delegation?: SignedDelegation;       // certificate authorizing `signer` as a delegate of a wallet
+}
+
+export interface PublishResult {
+  signedProvenanceCid: string;
+  proofCid?: string;
+  journalCid?: string;
+}
+
+// Rejected envelope: routes answer with `status` (400, 409 for a used-up delegation) instead of a 500
+export type PublishError = Error & { status: number; details?: string };
+
+function rejected(message: string, details?: string, status = 400): PublishError {
+  return Object.assign(new Error(message), { status, details });
+}
+
+export async function publishEnvelope(body: PublishBody): Promise<PublishResult> {
+  if (!body?.provenance || !body.signature || !body.signer) throw rejected('Missing provenance, signature or signer');
+
+  const prov = body.provenance;
+
+  // Basic structural validation
+  if (!isSupportedProvenanceVersion(prov.version)) throw rejected('Unsupported version');
+  const fieldErrors = validateProvenanceFields(prov);
+  if (fieldErrors.length) throw rejected('Invalid provenance', fieldErrors.join(', '));
+  // Basic shape checks
+  const requiredStrings: Array<keyof ContentProvenanceValue> = ['modelId','promptHash','outputHash','paramsHash','contentCid'];
+  for (const k of requiredStrings) {
+    if (!prov[k]) throw rejected(`Missing field ${k}`);
+  }
+
+  // Stored params must be the exact preimage of the signed paramsHash
+  if (body.params && hashParams(body.params).toLowerCase() !== prov.paramsHash.toLowerCase()) {
+    throw rejected('params do not match paramsHash');
+  }
+  if (body.template) {
+    const template = getTemplate(body.template.templateId);
+    if (!template || body.template.templateId !== prov.templateId || templateHash(template, body.template.variables || {}) !== prov.templateHash) {
+      throw rejected('template does not match templateId/templateHash');
+    }
+  }
+  if (body.outputSchema && schemaHash(body.outputSchema).toLowerCase() !== (prov.schemaHash || '').toLowerCase()) {
+    throw rejected('outputSchema does not match schemaHash');
+  }
+  if (body.consensus && bundleHash(body.consensus).toLowerCase() !== (prov.bundleHash || '').toLowerCase()) {
+    throw rejected('consensus does not match bundleHash');
+  }
+  if (body.moderationPolicy && (body.moderationPolicy.id !== prov.moderationPolicyId || policyHash(body.moderationPolicy).toLowerCase() !== (prov.moderationPolicyHash || '').toLowerCase())) {
+    throw rejected('moderationPolicy does not match moderationPolicyId/moderationPolicyHash');
+  }
+  if (body.modelFingerprint && (await fingerprintFromComponents(body.modelFingerprint)) !== prov.modelHash) {
+    throw rejected('modelFingerprint does not match modelHash');
+  }
+
+  // Only domains on this deployment's allowlist are stored
+  const { domain, issues: domainIssues } = checkSignatureDomain(body.domain);
+  if (domainIssues.length) {
+    throw rejected('Signing domain not allowed', `${domain.name} v${domain.version} on chain ${domain.chainId} (${domain.verifyingContract})`);
+  }
+
+  // The parent must exist, and an upgrade must carry every field its parent signed
+  if (prov.parentCid) {
+    const lineage = await checkParentProvenance(decodeProvenance(prov), body.signer);
+    if (!lineage.parent && !lineage.issues.length) throw rejected(`Parent ${prov.parentCid} not found`);
+    if (lineage.issues.length) throw rejected('Parent reference does not match', lineage.issues.join(', '));
+  }
+
+  // A delegate's record counts against its certificate, so the whole chain is checked first
+  let reservation: ReturnType<typeof reserveDelegationUse> = null;
+  if (body.delegation) {
+    const chain = await checkDelegation(body.delegation, decodeProvenance(prov), body.signer, domain);
+    if (chain.issues.length) throw rejected('Delegation does not authorize this record', chain.issues.join(', '));
+    if (Date.now() > chain.delegation!.expiresAt) throw rejected('Delegation expired');
+    const delegateSignature = await verifyEnvelopeSignature({ domain, types: provenanceTypesFor(prov.version), primaryType: 'ContentProvenance', message: prov, signature: body.signature, signer: body.signer });
+    if (!delegateSignature.valid) throw rejected('Delegate signature invalid');
+    reservation = reserveDelegationUse(chain.delegation!.certificateHash, chain.delegation!.maxCount);
+    if (!reservation) throw rejected('Delegation used up', `maxCount ${chain.delegation!.maxCount} reached`, 409);
+  }
+
+  // Placeholder: we could fetch contentCid & recompute outputHash here (Stage 2 verify endpoint will do deeper checks)
+
+  // Stored with the types of the version that was signed
+  const prunedTypes: any = provenanceTypesFor(prov.version);
+  const signedEnvelope = {
+    domain: { name: domain.name, version: domain.version, chainId: domain.chainId, verifyingContract: domain.verifyingContract },
+    types: prunedTypes,
+    primaryType: 'ContentProvenance',
+    provenance: prov,
+    signature: body.signature,
+    signer: body.signer,
+    createdAt: Date.now(),
+    promptCid: body.promptCid || undefined,
+    params: body.params || undefined,
+    modelFingerprint: body.modelFingerprint || undefined,
+    usage: body.usage || undefined,
+    template: body.template || undefined,
+    outputSchema: body.outputSchema || undefined,
+    consensus: body.consensus || undefined,
+    moderationPolicy: body.moderationPolicy || undefined,
+    delegation: body.delegation || undefined
+  };
+
+  let signedProvenanceCid: string;
+  try {
+    signedProvenanceCid = await addJson(signedEnvelope);
+  } catch (e) {
+    reservation?.release();
+    throw e;
+  }
+  reservation?.commit(signedProvenanceCid);
+  // Index by outputHash so later we can allow paste-of-content -> provenance discovery.
+  if (prov.outputHash) {
+    try { addOutputHashMapping(prov.outputHash, signedProvenanceCid); } catch {}
+    try { attachEnvelopeToUsage(prov.outputHash, signedProvenanceCid); } catch {}
+  }
+  // Every consensus member's output leads back to the bundle envelope
+  for (const m of body.consensus?.members || []) {
+    if (m.outputHash === prov.outputHash) continue;
+    try { addOutputHashMapping(m.outputHash, signedProvenanceCid); } catch {}
+    try { attachEnvelopeToUsage(m.outputHash, signedProvenanceCid); } catch {}
+  }
+
+  return {
+    signedProvenanceCid,
+    proofCid: prov.proofCid || undefined,
+    journalCid: prov.journalCid || undefined
+  };
+}
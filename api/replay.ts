@@ -0,0 +1,205 @@
+/**
+ * Deterministic replay. For reproducible generations (the mock provider, or a local model
+ * with temperature 0 and a fixed seed) a verifier can re-run the signed generation: the
+ * stored prompt (promptCid), canonical params (preimage of paramsHash), template and schema
+ * are fed to the same provider and model on this server, and the new output hash is
+ * compared with the signed outputHash. When it differs, the report measures how far.
+ *
+ * Only local providers are replayed (no third-party API is billed by a verifier), only with
+ * a model the provider serves and params it accepts as canonical, and consensus, chat and
+ * long-document generations are out of scope: they are several calls whose intermediate
+ * state is not a single prompt.
+ */
+
+import crypto from 'crypto';
+import { getFile } from './ipfs';
+import { getProvider, summarizeWithProvider } from './providers';
+import { canonicalizeParams, hashParams } from './params';
+import { probeProvider } from './providers/health';
+import { getTemplate, renderTemplate } from './templates';
+import { compileSchema, validateStructured } from './structured';
+import { ZERO_HASH } from './types';
+import { decodeProvenance } from './provenanceSchema';
+
+export interface ReplayDivergence {
+  originalLength: number;       // characters
+  replayLength: number;
+  commonPrefix: number;         // characters shared from the start
+  firstDivergence: number;      // index of the first differing character
+  wordEditDistance: number;     // word-level Levenshtein distance
+  similarity: number;           // 1 - distance / max word count, 0..1
+}
+
+export interface ReplayReport {
+  replayable: boolean;
+  reason?: string;              // why the generation cannot be replayed
+  provider: string;
+  model: string;
+  deterministic: boolean;       // provider or params promise reproducible output
+  reproduced?: boolean;         // replayed outputHash equals the signed one
+  outputHash?: string;          // signed
+  replayOutputHash?: string;
+  modelHashMatch?: boolean | null; // replayed modelHash equals the signed one (null when unsigned)
+  divergence?: ReplayDivergence;
+  original?: string;
+  replay?: string;
+  latencyMs?: number;
+  issues: string[];
+  warnings: string[];
+}
+
+// Word-level edit distance is quadratic; longer outputs only get the prefix comparison
+const MAX_DIFF_WORDS = 4000;
+
+function sha256Hex(data: string) {
+  return '0x' + crypto.createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+// Model name inside the signed modelId (strips the provider's modelIdPrefix)
+function modelFromId(modelId: string, prefix?: string): string {
+  return prefix && modelId.startsWith(`${prefix}:`) ? modelId.slice(prefix.length + 1) : modelId;
+}
+
+function wordDistance(a: string[], b: string[]): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+export function measureDivergence(original: string, replay: string): ReplayDivergence {
+  let prefix = 0;
+  while (prefix < original.length && prefix < replay.length && original[prefix] === replay[prefix]) prefix++;
+  const a = original.split(/\s+/).filter(Boolean);
+  const b = replay.split(/\s+/).filter(Boolean);
+  const longest = Math.max(a.length, b.length);
+  const distance = a.length + b.length <= MAX_DIFF_WORDS ? wordDistance(a, b) : longest;
+  return {
+    originalLength: original.length,
+    replayLength: replay.length,
+    commonPrefix: prefix,
+    firstDivergence: prefix,
+    wordEditDistance: distance,
+    similarity: longest ? Math.round((1 - distance / longest) * 10000) / 10000 : 1
+  };
+}
+
+/**
+ * Re-run the signed generation from its stored inputs. `envelope` is the published signed
+ * envelope; nothing it claims is trusted without re-hashing.
+ */
+export async function replayGeneration(envelope: any, opts: { includeOutput?: boolean } = {}): Promise<ReplayReport> {
+  const prov = decodeProvenance(envelope.provenance);
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  const providerName = prov.provider || prov.requestedProvider || '';
+  const def = getProvider(providerName);
+  const model = modelFromId(prov.modelId || '', def?.modelIdPrefix);
+  const base = { provider: providerName, model, deterministic: false, issues, warnings };
+
+  const refuse = (reason: string): ReplayReport => ({ ...base, replayable: false, reason });
+  if (!def) return refuse('provider_not_registered');
+  if (!def.capabilities.local) return refuse('provider_not_local');
+  if (prov.bundleHash && prov.bundleHash !== ZERO_HASH) return refuse('consensus_not_replayable');
+  if (prov.transcriptHead && prov.transcriptHead !== ZERO_HASH) return refuse('chat_not_replayable');
+  if (prov.chunkRoot && prov.chunkRoot !== ZERO_HASH) return refuse('long_document_not_replayable');
+  if (!envelope.promptCid) return refuse('prompt_not_stored');
+  if (!envelope.params) return refuse('params_not_stored');
+
+  // Inputs must be the exact preimages of the signed hashes before they are worth re-running
+  let prompt: string;
+  try {
+    prompt = new TextDecoder().decode(await getFile(envelope.promptCid));
+  } catch {
+    return refuse('prompt_not_stored');
+  }
+  if (sha256Hex(prompt).toLowerCase() !== (prov.promptHash || '').toLowerCase()) issues.push('prompt_hash_mismatch');
+  if (hashParams(envelope.params).toLowerCase() !== (prov.paramsHash || '').toLowerCase()) issues.push('params_hash_mismatch');
+  if (issues.length) return { ...base, replayable: false, reason: 'inputs_do_not_match_signed_hashes' };
+
+  // The stored params are sent as they are only when this provider would have sent exactly them
+  const canonical = canonicalizeParams(envelope.params, def);
+  if (canonical.errors.length) {
+    warnings.push(...canonical.errors);
+    return refuse('params_not_supported');
+  }
+  if (JSON.stringify(canonical.params) !== JSON.stringify(envelope.params)) return refuse('params_not_canonical');
+  const served = await probeProvider(def);
+  if (!served.available) return refuse('provider_unavailable');
+  // Ollama lists untagged models as `<name>:latest`
+  if (!served.models.some(m => m === model || m === `${model}:latest`)) return refuse('model_not_served');
+
+  let renderedPrompt;
+  if (prov.templateId) {
+    const template = getTemplate(prov.templateId);
+    if (!template || !envelope.template?.variables) return refuse('template_not_available');
+    const rendered = renderTemplate(template, envelope.template.variables, prompt);
+    if (rendered.templateHash.toLowerCase() !== (prov.templateHash || '').toLowerCase()) return refuse('template_hash_mismatch');
+    renderedPrompt = rendered.prompt;
+  }
+  const structured = !!prov.schemaHash && prov.schemaHash !== ZERO_HASH;
+  if (structured && !envelope.outputSchema) return refuse('schema_not_stored');
+
+  const params = canonical.params;
+  const deterministic = def.capabilities.deterministic || (params.temperature === 0 && params.seed !== undefined);
+  if (!deterministic) warnings.push('nondeterministic_params');
+  if (structured) warnings.push('structured_first_attempt_only');
+
+  const started = Date.now();
+  const response = await summarizeWithProvider({
+    provider: def.name,
+    text: prompt,
+    model,
+    params,
+    prompt: renderedPrompt,
+    responseFormat: structured ? { name: 'output', schema: envelope.outputSchema } : undefined,
+    signer: 'replay'
+  });
+  const latencyMs = Date.now() - started;
+
+  // Structured outputs were signed as canonical JSON
+  let replay = response.summary;
+  if (structured) {
+    const check = validateStructured(compileSchema(envelope.outputSchema), replay);
+    if (check.canonical) replay = check.canonical;
+    else warnings.push('replay_output_schema_invalid');
+  }
+  const replayOutputHash = sha256Hex(replay);
+  const reproduced = replayOutputHash.toLowerCase() === (prov.outputHash || '').toLowerCase();
+  const modelHashMatch = prov.modelHash ? response.modelHash === prov.modelHash : null;
+  if (modelHashMatch === false) warnings.push('model_hash_changed');
+
+  const report: ReplayReport = {
+    ...base,
+    deterministic,
+    replayable: true,
+    reproduced,
+    outputHash: prov.outputHash,
+    replayOutputHash,
+    modelHashMatch,
+    latencyMs
+  };
+  let original: string | undefined;
+  if (!reproduced || opts.includeOutput) {
+    try {
+      original = new TextDecoder().decode(await getFile(prov.contentCid));
+      if (sha256Hex(original).toLowerCase() !== (prov.outputHash || '').toLowerCase()) issues.push('content_hash_mismatch');
+    } catch {
+      warnings.push('content_fetch_failed');
+    }
+  }
+  if (!reproduced) {
+    issues.push('replay_output_mismatch');
+    if (original !== undefined) report.divergence = measureDivergence(original, replay);
+  }
+  if (opts.includeOutput) {
+    report.original = original;
+    report.replay = replay;
+  }
+  return report;
+}
@@ -0,0 +1,324 @@
+/**
+ * Reviewer countersignatures. A published envelope keeps its one signer; reviewers approve
+ * (or reject) it with their own EIP-712 `ProvenanceApproval` over its signedProvenanceCid and
+ * outputHash, with a role and comment. Approvals are collected in a review record on IPFS;
+ * every new approval stores a new record pointing at the previous one, and the latest per
+ * envelope is indexed here (in memory, like the output index).
+ *
+ * Whether a record counts as approved is decided by the review policy (REVIEW_POLICY as JSON,
+ * or a file at REVIEW_POLICY_FILE), e.g. 2-of-3 editors plus any one legal reviewer:
+ *
+ *   { "id": "editorial", "rules": [
+ *       { "role": "editor", "threshold": 2, "reviewers": ["0xA…", "0xB…", "0xC…"] },
+ *       { "role": "legal", "threshold": 1 } ] }
+ *
+ * A rule without `role` counts any role; without `reviewers` any address. Only each
+ * reviewer's latest decision counts, the envelope's signer (or the wallet that delegated to
+ * it) cannot review its own record, and a counted rejection makes the status 'rejected'.
+ * Without a policy one approval by anyone else is enough.
+ */
+
+import fs from 'fs';
+import { addJson, getJson } from './ipfs';
+import { Eip712Domain } from './types';
+import { checkSignatureDomain } from './domains';
+import { verifyEnvelopeSignature, SignatureScheme } from './signatures';
+import { decodeProvenance, isSupportedProvenanceVersion } from './provenanceSchema';
+
+export const approvalTypes = {
+  ProvenanceApproval: [
+    { name: 'signedProvenanceCid', type: 'string' },
+    { name: 'outputHash', type: 'bytes32' },
+    { name: 'decision', type: 'string' },       // 'approve' | 'reject'
+    { name: 'role', type: 'string' },
+    { name: 'comment', type: 'string' },
+    { name: 'timestamp', type: 'uint64' }
+  ]
+} as const;
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export interface ProvenanceApproval {
+  signedProvenanceCid: string;
+  outputHash: string;
+  decision: ReviewDecision;
+  role: string;
+  comment: string;
+  timestamp: number;
+}
+
+// One countersignature as stored in the review record and sent to /api/review
+export interface SignedApproval {
+  approval: ProvenanceApproval;
+  domain: Eip712Domain;
+  reviewer: string;
+  signature: string;
+}
+
+export interface ReviewRecord {
+  signedProvenanceCid: string;
+  outputHash: string;
+  approvals: SignedApproval[];
+  previousReviewCid?: string;
+  createdAt: number;
+}
+
+export interface ReviewRule {
+  role?: string;
+  threshold: number;
+  reviewers?: string[];
+}
+
+export interface ReviewPolicy {
+  id: string;
+  rules: ReviewRule[];
+}
+
+export type ReviewStatus = 'approved' | 'rejected' | 'pending';
+
+export interface ReviewReport {
+  reviewCid: string;
+  policyId: string;
+  status: ReviewStatus;
+  rules: Array<{ role: string | null; threshold: number; approvals: number; met: boolean }>;
+  approvals: Array<{
+    reviewer: string;
+    role: string;
+    decision: ReviewDecision;
+    comment: string;
+    timestamp: number;
+    signatureValid: boolean;
+    signatureScheme: SignatureScheme | null;
+    counted: boolean;           // latest decision of an eligible reviewer
+  }>;
+}
+
+// Review failures that are the caller's fault; routes answer with `status`
+export type ReviewError = Error & { status: number; details?: string };
+
+const DEFAULT_REVIEW_POLICY: ReviewPolicy = { id: 'default', rules: [{ threshold: 1 }] };
+const MAX_ROLE_LENGTH = 64;
+const MAX_COMMENT_LENGTH = 2000;
+
+// signedProvenanceCid -> latest review record CID; submissions per envelope run one at a time
+const globalReviews = globalThis as unknown as { __reviewIndex?: Map<string, string>; __reviewQueue?: Map<string, Promise<unknown>> };
+function reviewIndex(): Map<string, string> {
+  if (!globalReviews.__reviewIndex) globalReviews.__reviewIndex = new Map();
+  return globalReviews.__reviewIndex;
+}
+function reviewQueue(): Map<string, Promise<unknown>> {
+  if (!globalReviews.__reviewQueue) globalReviews.__reviewQueue = new Map();
+  return globalReviews.__reviewQueue;
+}
+
+function reviewFailure(message: string, status = 400, details?: string): ReviewError {
+  return Object.assign(new Error(message), { status, details });
+}
+
+function sameAddress(a?: string | null, b?: string | null): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+// Deployment policy, or null when none is configured (see DEFAULT_REVIEW_POLICY)
+export function loadReviewPolicy(): ReviewPolicy | null {
+  let raw = process.env.REVIEW_POLICY;
+  if (!raw && process.env.REVIEW_POLICY_FILE) {
+    raw = fs.readFileSync(process.env.REVIEW_POLICY_FILE, 'utf8');
+  }
+  if (!raw) return null;
+  const policy = JSON.parse(raw);
+  if (!policy || typeof policy.id !== 'string' || !Array.isArray(policy.rules)
+    || policy.rules.some((r: ReviewRule) => !Number.isInteger(r?.threshold) || r.threshold < 1)) {
+    throw new Error('Review policy needs an id and rules with a positive threshold');
+  }
+  return policy;
+}
+
+export function latestReviewCid(signedProvenanceCid: string): string | undefined {
+  return reviewIndex().get(signedProvenanceCid);
+}
+
+function ruleCounts(rule: ReviewRule, reviewer: string, role: string): boolean {
+  if (rule.role !== undefined && rule.role !== role) return false;
+  return !rule.reviewers || rule.reviewers.some(r => sameAddress(r, reviewer));
+}
+
+// Signer and delegating wallet of an envelope: they cannot review their own record
+function authorsOf(envelope: any): string[] {
+  return [envelope?.signer, envelope?.delegation?.issuer].filter((a): a is string => typeof a === 'string');
+}
+
+/**
+ * Unsigned approval for a reviewer to sign. Throws a ReviewError for an unknown envelope
+ * (404) or an invalid role, decision or comment (400).
+ */
+export async function buildApproval(input: { signedProvenanceCid: string; role: string; decision?: string; comment?: string }): Promise<ProvenanceApproval> {
+  const decision = input.decision ?? 'approve';
+  if (decision !== 'approve' && decision !== 'reject') throw reviewFailure('decision must be approve or reject');
+  if (typeof input.role !== 'string' || !input.role.trim() || input.role.length > MAX_ROLE_LENGTH) {
+    throw reviewFailure(`role must be a non-empty string of at most ${MAX_ROLE_LENGTH} characters`);
+  }
+  const comment = input.comment ?? '';
+  if (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH) throw reviewFailure(`comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+  const envelope = await fetchEnvelope(input.signedProvenanceCid);
+  return {
+    signedProvenanceCid: input.signedProvenanceCid,
+    outputHash: decodeProvenance(envelope.provenance).outputHash,
+    decision,
+    role: input.role.trim(),
+    comment,
+    timestamp: Date.now()
+  };
+}
+
+async function fetchEnvelope(signedProvenanceCid: string): Promise<any> {
+  let envelope: any;
+  try {
+    envelope = await getJson(signedProvenanceCid);
+  } catch {
+    throw reviewFailure(`Provenance ${signedProvenanceCid} not found`, 404);
+  }
+  if (!envelope?.provenance || !isSupportedProvenanceVersion(envelope.provenance.version)) throw reviewFailure('Invalid provenance envelope');
+  return envelope;
+}
+
+async function verifyApproval(entry: SignedApproval) {
+  return verifyEnvelopeSignature({
+    domain: entry.domain,
+    types: approvalTypes,
+    primaryType: 'ProvenanceApproval',
+    message: entry.approval,
+    signature: entry.signature,
+    signer: entry.reviewer
+  });
+}
+
+/**
+ * Add a signed approval to the envelope's review record. The countersignature must verify,
+ * target this envelope's output, come from someone other than its author and, under a
+ * policy with reviewer lists, from a reviewer listed for the role.
+ */
+export async function submitApproval(entry: SignedApproval): Promise<{ reviewCid: string; review: ReviewReport }> {
+  const approval = entry?.approval;
+  if (!approval || typeof entry.reviewer !== 'string' || typeof entry.signature !== 'string' || !entry.domain) {
+    throw reviewFailure('Missing approval, domain, reviewer or signature');
+  }
+  const cid = approval.signedProvenanceCid;
+  const envelope = await fetchEnvelope(cid);
+  if (String(approval.outputHash).toLowerCase() !== decodeProvenance(envelope.provenance).outputHash.toLowerCase()) {
+    throw reviewFailure('Approval does not match the record output');
+  }
+  if (checkSignatureDomain(entry.domain).issues.length) throw reviewFailure('Signing domain not allowed');
+  const check = await verifyApproval(entry);
+  if (!check.valid) throw reviewFailure('Approval signature invalid', 400, check.error);
+  if (authorsOf(envelope).some(a => sameAddress(a, entry.reviewer))) throw reviewFailure('Authors cannot review their own record', 403);
+
+  const policy = loadReviewPolicy() || DEFAULT_REVIEW_POLICY;
+  if (!policy.rules.some(rule => rule.role === undefined || rule.role === approval.role)) {
+    throw reviewFailure(`Role ${approval.role} is not part of review policy ${policy.id}`);
+  }
+  if (!policy.rules.some(rule => ruleCounts(rule, entry.reviewer, approval.role))) {
+    throw reviewFailure(`${entry.reviewer} is not a reviewer for role ${approval.role} under policy ${policy.id}`, 403);
+  }
+
+  // Read-modify-write of the latest record, one submission per envelope at a time
+  const queue = reviewQueue();
+  const run = (queue.get(cid) || Promise.resolve()).catch(() => undefined).then(async () => {
+    const previousReviewCid = reviewIndex().get(cid);
+    const previous: ReviewRecord | null = previousReviewCid ? await getJson(previousReviewCid) : null;
+    const approvals = (previous?.approvals || []).filter(a => a.signature !== entry.signature);
+    const record: ReviewRecord = {
+      signedProvenanceCid: cid,
+      outputHash: approval.outputHash,
+      approvals: [...approvals, { approval, domain: entry.domain, reviewer: entry.reviewer, signature: entry.signature }],
+      previousReviewCid,
+      createdAt: Date.now()
+    };
+    const reviewCid = await addJson(record);
+    reviewIndex().set(cid, reviewCid);
+    return reviewCid;
+  });
+  queue.set(cid, run);
+  const reviewCid = await run;
+  if (queue.get(cid) === run) queue.delete(cid);
+
+  const { review } = await checkReview(cid, envelope, reviewCid);
+  return { reviewCid, review: review! };
+}
+
+/**
+ * Verifier view of the review of an envelope: every countersignature re-verified, and the
+ * approval status under this deployment's policy. `review` is null when nobody reviewed it.
+ */
+export async function checkReview(
+  signedProvenanceCid: string,
+  envelope: any,
+  reviewCid: string | undefined = latestReviewCid(signedProvenanceCid)
+): Promise<{ review: ReviewReport | null; issues: string[]; warnings: string[] }> {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  let configured: ReviewPolicy | null = null;
+  try { configured = loadReviewPolicy(); } catch { warnings.push('review_policy_invalid'); }
+  const policy = configured || DEFAULT_REVIEW_POLICY;
+
+  let record: ReviewRecord | null = null;
+  if (reviewCid) {
+    try {
+      record = await getJson(reviewCid);
+    } catch {
+      warnings.push('review_fetch_failed');
+    }
+  }
+  if (!record) {
+    if (configured && reviewCid === undefined) warnings.push('review_pending');
+    return { review: null, issues, warnings };
+  }
+
+  const outputHash = String(decodeProvenance(envelope.provenance).outputHash).toLowerCase();
+  const authors = authorsOf(envelope);
+  const checked = await Promise.all((record.approvals || []).map(async entry => {
+    const check = await verifyApproval(entry);
+    const onTarget = entry.approval?.signedProvenanceCid === signedProvenanceCid && String(entry.approval?.outputHash).toLowerCase() === outputHash;
+    if (!check.valid) issues.push('review_signature_invalid');
+    if (!onTarget) issues.push('review_target_mismatch');
+    const eligible = check.valid && onTarget && !authors.some(a => sameAddress(a, entry.reviewer));
+    return { entry, check, eligible };
+  }));
+
+  // Each reviewer's latest eligible decision
+  const latest = new Map<string, typeof checked[number]>();
+  for (const c of checked) {
+    if (!c.eligible) continue;
+    const key = c.entry.reviewer.toLowerCase();
+    const seen = latest.get(key);
+    if (!seen || Number(c.entry.approval.timestamp) >= Number(seen.entry.approval.timestamp)) latest.set(key, c);
+  }
+  const counted = Array.from(latest.values()).filter(c => policy.rules.some(rule => ruleCounts(rule, c.entry.reviewer, c.entry.approval.role)));
+
+  const rules = policy.rules.map(rule => {
+    const approvals = counted.filter(c => c.entry.approval.decision === 'approve' && ruleCounts(rule, c.entry.reviewer, c.entry.approval.role)).length;
+    return { role: rule.role ?? null, threshold: rule.threshold, approvals, met: approvals >= rule.threshold };
+  });
+  const status: ReviewStatus = counted.some(c => c.entry.approval.decision === 'reject')
+    ? 'rejected'
+    : rules.every(r => r.met) ? 'approved' : 'pending';
+  if (configured && status !== 'approved') warnings.push(`review_${status}`);
+
+  const review: ReviewReport = {
+    reviewCid: reviewCid!,
+    policyId: policy.id,
+    status,
+    rules,
+    approvals: checked.map(({ entry, check }) => ({
+      reviewer: entry.reviewer,
+      role: entry.approval.role,
+      decision: entry.approval.decision,
+      comment: entry.approval.comment,
+      timestamp: Number(entry.approval.timestamp),
+      signatureValid: check.valid,
+      signatureScheme: check.scheme,
+      counted: counted.some(c => c.entry === entry)
+    }))
+  };
+  return { review, issues, warnings };
+}
@@ -0,0 +1,233 @@
+/**
+ * Revocation of published records. A CID cannot be deleted, so its author signs an EIP-712
+ * `ProvenanceRevocation` over the signedProvenanceCid and outputHash with a reason code. The
+ * author is the envelope's signer or the wallet that delegated to it; a delegate of either
+ * may revoke too, by sending its delegation certificate along (it must be valid at the time
+ * of revocation and cover the record's model). The statement is stored on IPFS and indexed
+ * by signedProvenanceCid (in memory, like the output index); verifiers re-check it and
+ * report the record as revoked from the signed revocation time.
+ */
+
+import { addJson, getJson } from './ipfs';
+import { Eip712Domain } from './types';
+import { checkSignatureDomain } from './domains';
+import { verifyEnvelopeSignature, SignatureScheme } from './signatures';
+import { decodeProvenance, isSupportedProvenanceVersion } from './provenanceSchema';
+import { modelAllowed, SignedDelegation, verifyDelegationSignature } from './delegation';
+
+export const REVOCATION_REASONS = ['inaccurate', 'harmful', 'superseded', 'rights_issue', 'key_compromised', 'other'] as const;
+export type RevocationReason = typeof REVOCATION_REASONS[number];
+
+export const revocationTypes = {
+  ProvenanceRevocation: [
+    { name: 'signedProvenanceCid', type: 'string' },
+    { name: 'outputHash', type: 'bytes32' },
+    { name: 'reason', type: 'string' },
+    { name: 'note', type: 'string' },
+    { name: 'timestamp', type: 'uint64' }
+  ]
+} as const;
+
+export interface ProvenanceRevocation {
+  signedProvenanceCid: string;
+  outputHash: string;
+  reason: RevocationReason;
+  note: string;
+  timestamp: number;
+}
+
+// As stored at revocationCid and sent to /api/revocation
+export interface SignedRevocation {
+  revocation: ProvenanceRevocation;
+  domain: Eip712Domain;
+  revoker: string;
+  signature: string;
+  delegation?: SignedDelegation;  // when the revoker is a delegate of the author
+}
+
+export interface RevocationReport {
+  revoked: boolean;
+  revokedAt: number;            // signed revocation time (ms)
+  reason: RevocationReason;
+  note: string;
+  revoker: string;
+  delegatedBy: string | null;   // author wallet when a delegate revoked
+  revocationCid: string;
+  signatureScheme: SignatureScheme | null;
+}
+
+// Revocation failures that are the caller's fault; routes answer with `status`
+export type RevocationError = Error & { status: number; details?: string };
+
+const MAX_NOTE_LENGTH = 1000;
+// Signed revocation time may run this far ahead of the server clock
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// signedProvenanceCid -> revocationCid
+const globalRevocations = globalThis as unknown as { __revocationIndex?: Map<string, string> };
+function revocationIndex(): Map<string, string> {
+  if (!globalRevocations.__revocationIndex) globalRevocations.__revocationIndex = new Map();
+  return globalRevocations.__revocationIndex;
+}
+
+function revocationFailure(message: string, status = 400, details?: string): RevocationError {
+  return Object.assign(new Error(message), { status, details });
+}
+
+function sameAddress(a?: string | null, b?: string | null): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+// Signer and delegating wallet of an envelope
+function authorsOf(envelope: any): string[] {
+  return [envelope?.signer, envelope?.delegation?.issuer].filter((a): a is string => typeof a === 'string');
+}
+
+async function fetchEnvelope(signedProvenanceCid: string): Promise<any> {
+  let envelope: any;
+  try {
+    envelope = await getJson(signedProvenanceCid);
+  } catch {
+    throw revocationFailure(`Provenance ${signedProvenanceCid} not found`, 404);
+  }
+  if (!envelope?.provenance || !isSupportedProvenanceVersion(envelope.provenance.version)) throw revocationFailure('Invalid provenance envelope');
+  return envelope;
+}
+
+/**
+ * Why `statement` does not revoke `envelope` (empty when it does): the signature, the
+ * target, and the revoker's authority as author or delegate of the author.
+ */
+async function revocationProblems(statement: SignedRevocation, envelope: any): Promise<{ problems: string[]; signatureScheme: SignatureScheme | null }> {
+  const problems: string[] = [];
+  const { revocation } = statement;
+  const prov = decodeProvenance(envelope.provenance);
+  if (String(revocation.outputHash).toLowerCase() !== prov.outputHash.toLowerCase()) problems.push('revocation_target_mismatch');
+  if (checkSignatureDomain(statement.domain).issues.length) problems.push('revocation_domain_not_allowed');
+  const check = await verifyEnvelopeSignature({
+    domain: statement.domain,
+    types: revocationTypes,
+    primaryType: 'ProvenanceRevocation',
+    message: revocation,
+    signature: statement.signature,
+    signer: statement.revoker
+  });
+  if (!check.valid) problems.push('revocation_signature_invalid');
+
+  const authors = authorsOf(envelope);
+  if (!authors.some(a => sameAddress(a, statement.revoker))) {
+    const cert = statement.delegation?.certificate;
+    if (!statement.delegation || !cert) {
+      problems.push('revoker_not_authorized');
+    } else {
+      if (!authors.some(a => sameAddress(a, statement.delegation!.issuer))) problems.push('revocation_delegation_not_from_author');
+      if (!sameAddress(cert.delegate, statement.revoker)) problems.push('revocation_delegate_mismatch');
+      const at = Number(revocation.timestamp);
+      if (at < Number(cert.issuedAt) || at > Number(cert.expiresAt)) problems.push('revocation_delegation_expired');
+      if (!Array.isArray(cert.models) || !modelAllowed(cert.models, prov.modelId)) problems.push('revocation_delegation_model_not_allowed');
+      const certCheck = await verifyDelegationSignature(statement.delegation).catch(() => null);
+      if (!certCheck?.valid) problems.push('revocation_delegation_signature_invalid');
+    }
+  }
+  return { problems, signatureScheme: check.scheme };
+}
+
+/**
+ * Unsigned revocation statement for the author (or a delegate) to sign. Throws a
+ * RevocationError for an unknown record (404), an already revoked one (409) or an invalid
+ * reason or note (400).
+ */
+export async function buildRevocation(input: { signedProvenanceCid: string; reason: string; note?: string }): Promise<ProvenanceRevocation> {
+  if (!(REVOCATION_REASONS as readonly string[]).includes(input.reason)) {
+    throw revocationFailure(`reason must be one of ${REVOCATION_REASONS.join(', ')}`);
+  }
+  const note = input.note ?? '';
+  if (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH) throw revocationFailure(`note must be at most ${MAX_NOTE_LENGTH} characters`);
+  const envelope = await fetchEnvelope(input.signedProvenanceCid);
+  if (revocationIndex().has(input.signedProvenanceCid)) throw revocationFailure(`Provenance ${input.signedProvenanceCid} is already revoked`, 409);
+  return {
+    signedProvenanceCid: input.signedProvenanceCid,
+    outputHash: decodeProvenance(envelope.provenance).outputHash,
+    reason: input.reason as RevocationReason,
+    note,
+    timestamp: Date.now()
+  };
+}
+
+// Store and index a signed revocation; the first valid one for a record stands
+export async function submitRevocation(statement: SignedRevocation): Promise<{ revocationCid: string; revocation: RevocationReport }> {
+  const revocation = statement?.revocation;
+  if (!revocation || typeof statement.revoker !== 'string' || typeof statement.signature !== 'string' || !statement.domain) {
+    throw revocationFailure('Missing revocation, domain, revoker or signature');
+  }
+  if (!(REVOCATION_REASONS as readonly string[]).includes(revocation.reason)) {
+    throw revocationFailure(`reason must be one of ${REVOCATION_REASONS.join(', ')}`);
+  }
+  if (!Number.isInteger(revocation.timestamp) || revocation.timestamp > Date.now() + MAX_CLOCK_SKEW_MS) {
+    throw revocationFailure('Revocation timestamp is in the future');
+  }
+  const cid = revocation.signedProvenanceCid;
+  const envelope = await fetchEnvelope(cid);
+  if (revocationIndex().has(cid)) throw revocationFailure(`Provenance ${cid} is already revoked`, 409);
+
+  const { problems, signatureScheme } = await revocationProblems(statement, envelope);
+  if (problems.some(p => p === 'revoker_not_authorized' || p.startsWith('revocation_delegat'))) {
+    throw revocationFailure('Not authorized to revoke this record', 403, problems.join(', '));
+  }
+  if (problems.length) throw revocationFailure('Invalid revocation', 400, problems.join(', '));
+
+  const stored: SignedRevocation = {
+    revocation,
+    domain: statement.domain,
+    revoker: statement.revoker,
+    signature: statement.signature,
+    delegation: statement.delegation
+  };
+  const revocationCid = await addJson(stored);
+  // A concurrent revocation may have been indexed while this one was stored
+  if (revocationIndex().has(cid)) throw revocationFailure(`Provenance ${cid} is already revoked`, 409);
+  revocationIndex().set(cid, revocationCid);
+  return { revocationCid, revocation: toReport(stored, revocationCid, signatureScheme) };
+}
+
+function toReport(statement: SignedRevocation, revocationCid: string, signatureScheme: SignatureScheme | null): RevocationReport {
+  return {
+    revoked: true,
+    revokedAt: Number(statement.revocation.timestamp),
+    reason: statement.revocation.reason,
+    note: statement.revocation.note,
+    revoker: statement.revoker,
+    delegatedBy: statement.delegation?.issuer || null,
+    revocationCid,
+    signatureScheme
+  };
+}
+
+/**
+ * Verifier view: whether the record was revoked, re-checking the indexed statement.
+ * `revocation` is null when it was not; a revoked record gets the issue
+ * `provenance_revoked`.
+ */
+export async function checkRevocation(
+  signedProvenanceCid: string,
+  envelope: any
+): Promise<{ revocation: RevocationReport | null; issues: string[]; warnings: string[] }> {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  const revocationCid = revocationIndex().get(signedProvenanceCid);
+  if (!revocationCid) return { revocation: null, issues, warnings };
+  let statement: SignedRevocation;
+  try {
+    statement = await getJson(revocationCid);
+  } catch {
+    warnings.push('revocation_fetch_failed');
+    return { revocation: null, issues, warnings };
+  }
+  const { problems, signatureScheme } = await revocationProblems(statement, envelope);
+  if (problems.length || statement.revocation?.signedProvenanceCid !== signedProvenanceCid) {
+    warnings.push('revocation_invalid');
+    return { revocation: null, issues, warnings };
+  }
+  issues.push('provenance_revoked');
+  return { revocation: toReport(statement, revocationCid, signatureScheme), issues, warnings };
+}
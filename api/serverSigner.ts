@@ -0,0 +1,106 @@
+/**
+ * Headless signer for automation that has no browser wallet. The key comes from config:
+ *
+ *   SERVER_SIGNER_KEYSTORE           encrypted JSON keystore (file path or the JSON itself)
+ *   SERVER_SIGNER_PASSWORD           its password, or SERVER_SIGNER_PASSWORD_FILE
+ *   SERVER_SIGNER_PRIVATE_KEY        raw 0x key instead of a keystore (development)
+ *   SERVER_SIGNER_TOKENS             comma-separated bearer tokens allowed to sign
+ *
+ * The signer is off unless both a key and at least one token are configured. It only ever
+ * signs ContentProvenance under an allowlisted domain, with the types of the record's
+ * version, so a token holder cannot make it sign arbitrary typed data.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { HDNodeWallet, Wallet } from 'ethers';
+import { ContentProvenanceValue, Eip712Domain } from './types';
+import { checkSignatureDomain } from './domains';
+import { isSupportedProvenanceVersion, provenanceTypesFor } from './provenanceSchema';
+
+export interface ServerSignature {
+  signature: string;
+  signer: string;
+  domain: Eip712Domain;
+}
+
+// Decrypting a keystore runs scrypt: done once per process
+const globalSigner = globalThis as unknown as { __serverSigner?: Promise<Wallet | HDNodeWallet> };
+
+function accessTokens(): string[] {
+  return (process.env.SERVER_SIGNER_TOKENS || '').split(',').map(t => t.trim()).filter(Boolean);
+}
+
+export function serverSignerConfigured(): boolean {
+  return !!(process.env.SERVER_SIGNER_KEYSTORE || process.env.SERVER_SIGNER_PRIVATE_KEY) && accessTokens().length > 0;
+}
+
+function sha256(value: string): Buffer {
+  return crypto.createHash('sha256').update(value, 'utf8').digest();
+}
+
+// `Authorization: Bearer <token>` against SERVER_SIGNER_TOKENS, compared in constant time
+export function isAuthorizedSignerRequest(authorization: string | null): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(authorization || '');
+  if (!match) return false;
+  const presented = sha256(match[1].trim());
+  return accessTokens().some(token => crypto.timingSafeEqual(sha256(token), presented));
+}
+
+async function loadWallet(): Promise<Wallet | HDNodeWallet> {
+  const keystore = process.env.SERVER_SIGNER_KEYSTORE;
+  if (keystore) {
+    const json = keystore.trim().startsWith('{') ? keystore : fs.readFileSync(keystore, 'utf8');
+    const passwordFile = process.env.SERVER_SIGNER_PASSWORD_FILE;
+    const password = passwordFile ? fs.readFileSync(passwordFile, 'utf8').trim() : process.env.SERVER_SIGNER_PASSWORD;
+    if (password === undefined) throw new Error('SERVER_SIGNER_KEYSTORE requires SERVER_SIGNER_PASSWORD or SERVER_SIGNER_PASSWORD_FILE');
+    try {
+      return await Wallet.fromEncryptedJson(json, password);
+    } catch (e) {
+      throw new Error(`Server signer keystore could not be decrypted: ${e instanceof Error ? e.message : 'unknown'}`);
+    }
+  }
+  const key = process.env.SERVER_SIGNER_PRIVATE_KEY;
+  if (!key) throw new Error('Server signer is not configured');
+  return new Wallet(key.startsWith('0x') ? key : `0x${key}`);
+}
+
+function serverWallet(): Promise<Wallet | HDNodeWallet> {
+  if (!globalSigner.__serverSigner) {
+    globalSigner.__serverSigner = loadWallet();
+    // A bad password or missing file is retried on the next request once config is fixed
+    globalSigner.__serverSigner.catch(() => { globalSigner.__serverSigner = undefined; });
+  }
+  return globalSigner.__serverSigner;
+}
+
+export async function serverSignerAddress(): Promise<string> {
+  return (await serverWallet()).address;
+}
+
+/**
+ * Sign provenance as issued by /api/summarize, /api/chat/provenance or
+ * /api/upgrade-provenance. Throws a 400-tagged error for a record it refuses to sign.
+ */
+export async function signProvenance(provenance: ContentProvenanceValue, domain?: Eip712Domain): Promise<ServerSignature> {
+  const refuse = (message: string, details?: string) => Object.assign(new Error(message), { status: 400, details });
+  if (!provenance || !isSupportedProvenanceVersion(provenance.version)) throw refuse('Unsupported version');
+  const check = checkSignatureDomain(domain);
+  if (check.issues.length) {
+    throw refuse('Signing domain not allowed', `${check.domain.name} v${check.domain.version} on chain ${check.domain.chainId} (${check.domain.verifyingContract})`);
+  }
+  const signingDomain: Eip712Domain = {
+    name: check.domain.name,
+    version: check.domain.version,
+    chainId: check.domain.chainId,
+    verifyingContract: check.domain.verifyingContract
+  };
+  const wallet = await serverWallet();
+  let signature: string;
+  try {
+    signature = await wallet.signTypedData(signingDomain, provenanceTypesFor(provenance.version) as any, provenance);
+  } catch (e) {
+    throw refuse('Provenance does not match its schema version', e instanceof Error ? e.message.split(' (')[0] : undefined);
+  }
+  return { signature, signer: wallet.address, domain: signingDomain };
+}
@@ -0,0 +1,120 @@
+/**
+ * Envelope signature verification. An ECDSA signature from an externally owned account is
+ * recovered locally. When that does not yield the claimed signer, the signature is checked on
+ * the signing chain instead: EIP-1271 `isValidSignature` on a deployed contract wallet (e.g. a
+ * Safe), or, for an ERC-6492 wrapped signature of a wallet that is not deployed yet, a
+ * deployless eth_call that deploys and checks it in one simulation.
+ *
+ * RPC endpoints come from SIGNATURE_RPC_URLS (JSON { "<chainId>": url }) or SIGNATURE_RPC_URL
+ * for every chain (e.g. a local anvil/hardhat node); SIGNATURE_RPC_TIMEOUT_MS bounds each call.
+ */
+
+import { createPublicClient, hashTypedData, http, isAddress, recoverAddress, type Hex } from 'viem';
+import { verifyHash } from 'viem/actions';
+
+export type SignatureScheme = 'ecdsa' | 'eip1271' | 'erc6492';
+
+export interface SignatureCheck {
+  valid: boolean;
+  scheme: SignatureScheme | null;   // what validated the signature (null when nothing did)
+  recoveredSigner: string | null;   // ECDSA recovery; null for contract signatures that do not recover
+  error?: string;                   // 'rpc_not_configured', 'malformed', 'types_mismatch' or the RPC error
+}
+
+export interface SignatureInput {
+  domain: Record<string, any>;
+  types: Record<string, readonly { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, any>;
+  signature: string;
+  signer?: string;                  // claimed signer; required for contract wallets
+}
+
+// ERC-6492 wrapped signatures end with this suffix
+const ERC6492_MAGIC = '6492649264926492649264926492649264926492649264926492649264926492';
+const EIP1271_MAGIC = '0x1626ba7e';
+const DEFAULT_RPC_TIMEOUT_MS = 10000;
+
+const isValidSignatureAbi = [{
+  name: 'isValidSignature',
+  type: 'function',
+  stateMutability: 'view',
+  inputs: [{ name: 'hash', type: 'bytes32' }, { name: 'signature', type: 'bytes' }],
+  outputs: [{ name: 'magicValue', type: 'bytes4' }]
+}] as const;
+
+export function signatureRpcUrl(chainId: number): string | undefined {
+  const raw = process.env.SIGNATURE_RPC_URLS;
+  if (raw) {
+    try {
+      const urls = JSON.parse(raw);
+      if (urls && typeof urls[String(chainId)] === 'string') return urls[String(chainId)];
+    } catch {
+      console.warn('[signatures] SIGNATURE_RPC_URLS is not valid JSON');
+    }
+  }
+  return process.env.SIGNATURE_RPC_URL || undefined;
+}
+
+function rpcTimeoutMs(): number {
+  const n = Number(process.env.SIGNATURE_RPC_TIMEOUT_MS);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_RPC_TIMEOUT_MS;
+}
+
+function sameAddress(a?: string | null, b?: string | null): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * ECDSA first, then the contract-wallet fallback on the domain's chain. Without a claimed
+ * signer only ECDSA applies: whoever recovers is reported.
+ */
+export async function verifyEnvelopeSignature(input: SignatureInput): Promise<SignatureCheck> {
+  const signature = input.signature as Hex;
+  let hash: Hex;
+  try {
+    hash = hashTypedData({
+      domain: input.domain as any,
+      types: input.types as any,
+      primaryType: input.primaryType,
+      message: input.message
+    });
+  } catch (e) {
+    return { valid: false, scheme: null, recoveredSigner: null, error: e instanceof Error ? e.message : 'malformed' };
+  }
+
+  const wrapped = signature.toLowerCase().endsWith(ERC6492_MAGIC);
+  let recoveredSigner: string | null = null;
+  if (!wrapped) {
+    try {
+      recoveredSigner = await recoverAddress({ hash, signature });
+    } catch {
+      // Not a 65-byte ECDSA signature: contract wallets sign with their own encoding
+    }
+    if (recoveredSigner && (!input.signer || sameAddress(recoveredSigner, input.signer))) {
+      return { valid: true, scheme: 'ecdsa', recoveredSigner };
+    }
+  }
+  if (!input.signer || !isAddress(input.signer)) return { valid: false, scheme: null, recoveredSigner, error: recoveredSigner ? undefined : 'malformed' };
+
+  const chainId = Number(input.domain.chainId);
+  const url = signatureRpcUrl(chainId);
+  if (!url) return { valid: false, scheme: null, recoveredSigner, error: 'rpc_not_configured' };
+  const client = createPublicClient({ transport: http(url, { timeout: rpcTimeoutMs(), retryCount: 0 }) });
+  const address = input.signer as Hex;
+  try {
+    if (wrapped) {
+      const valid = await verifyHash(client, { address, hash, signature });
+      return { valid, scheme: valid ? 'erc6492' : null, recoveredSigner };
+    }
+    // A deployed contract wallet answers isValidSignature; an EOA has no code
+    const code = await client.getBytecode({ address });
+    if (!code || code === '0x') return { valid: false, scheme: null, recoveredSigner };
+    const magic = await client.readContract({ address, abi: isValidSignatureAbi, functionName: 'isValidSignature', args: [hash, signature] })
+      .catch(() => undefined);
+    const valid = typeof magic === 'string' && magic.toLowerCase() === EIP1271_MAGIC;
+    return { valid, scheme: valid ? 'eip1271' : null, recoveredSigner };
+  } catch (e) {
+    return { valid: false, scheme: null, recoveredSigner, error: e instanceof Error ? e.message.split('\n')[0] : String(e) };
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Source-document attribution for retrieval-augmented and multi-document generations.
+ * Each source is stored on IPFS and hashed; a sources manifest lists them and its Merkle
+ * root is signed as `sourcesRoot` (next to `sourcesManifestCid`), so a verifier can confirm
+ * that a given file was one of the inputs without trusting the manifest host.
+ *
+ *   leaf = sha256(0x00 || utf8(JSON.stringify([index, contentHash, title, url])))
+ *
+ * Nodes follow the chunk manifest scheme (see longDocument). The provider input is the
+ * request text followed by the sources as numbered blocks, and promptHash commits to it.
+ */
+
+import crypto from 'crypto';
+import { addFile, addJson, getFile, getJson } from './ipfs';
+import { merkleRoot, merkleProof, verifyMerkleProof } from './longDocument';
+import { ContentProvenanceValue, ZERO_HASH } from './types';
+
+export interface SourceDocument {
+  text: string;
+  title?: string;
+  url?: string;
+}
+
+export interface SourceEntry {
+  index: number;
+  title: string;
+  url: string;
+  contentHash: string;  // sha256 of the source text
+  cid: string;
+  length: number;       // characters
+}
+
+export interface SourcesManifest {
+  version: 1;
+  kind: 'sources-manifest';
+  merkle: 'sha256-v1';
+  sources: SourceEntry[];
+  root: string;
+}
+
+const MAX_SOURCES = 20;
+const MAX_TITLE_LENGTH = 300;
+
+function sha256Hex(data: string | Buffer) {
+  return '0x' + crypto.createHash('sha256').update(data).digest('hex');
+}
+
+export function sourceLeafHash(s: Pick<SourceEntry, 'index' | 'contentHash' | 'title' | 'url'>): string {
+  const body = Buffer.from(JSON.stringify([s.index, s.contentHash.toLowerCase(), s.title, s.url]), 'utf8');
+  return sha256Hex(Buffer.concat([Buffer.from([0]), body]));
+}
+
+// Route-level checks; errors name the offending source
+export function validateSources(sources: unknown): string[] {
+  if (!Array.isArray(sources) || !sources.length) return ['sources must be a non-empty list'];
+  if (sources.length > MAX_SOURCES) return [`at most ${MAX_SOURCES} sources are allowed`];
+  const errors: string[] = [];
+  sources.forEach((s: any, i) => {
+    if (!s || typeof s.text !== 'string' || !s.text.trim()) errors.push(`source ${i}: missing text`);
+    if (s?.title !== undefined && (typeof s.title !== 'string' || s.title.length > MAX_TITLE_LENGTH)) errors.push(`source ${i}: invalid title`);
+    if (s?.url !== undefined && (typeof s.url !== 'string' || !/^https?:\/\//i.test(s.url))) errors.push(`source ${i}: url must be http(s)`);
+  });
+  return errors;
+}
+
+// Text sent to the provider: the request text, then each source as a numbered block
+export function composeSourcesInput(text: string, sources: SourceDocument[]): string {
+  const blocks = sources.map((s, i) => {
+    const heading = [`[Source ${i + 1}]`, s.title, s.url ? `<${s.url}>` : ''].filter(Boolean).join(' ');
+    return `${heading}\n${s.text}`;
+  });
+  return text.trim() ? `${text}\n\n${blocks.join('\n\n')}` : blocks.join('\n\n');
+}
+
+function entryFields(sources: SourceDocument[]): Array<Omit<SourceEntry, 'cid'>> {
+  return sources.map((s, index) => ({
+    index,
+    title: s.title || '',
+    url: s.url || '',
+    contentHash: sha256Hex(s.text),
+    length: s.text.length
+  }));
+}
+
+// Root without uploading (used for the cache key before the generation runs)
+export function sourcesRoot(sources: SourceDocument[]): string {
+  return merkleRoot(entryFields(sources).map(sourceLeafHash));
+}
+
+export async function storeSources(sources: SourceDocument[]): Promise<{ manifest: SourcesManifest; manifestCid: string }> {
+  const fields = entryFields(sources);
+  const cids = await Promise.all(sources.map(s => addFile(Uint8Array.from(Buffer.from(s.text)))));
+  const entries: SourceEntry[] = fields.map((f, i) => ({ ...f, cid: cids[i] }));
+  const manifest: SourcesManifest = {
+    version: 1,
+    kind: 'sources-manifest',
+    merkle: 'sha256-v1',
+    sources: entries,
+    root: merkleRoot(entries.map(sourceLeafHash))
+  };
+  return { manifest, manifestCid: await addJson(manifest) };
+}
+
+/**
+ * Verifier view of the signed sources: rebuild the root from the manifest, optionally
+ * re-hash every stored source, and prove a supplied source text against the root
+ */
+export async function checkSourcesProvenance(
+  prov: ContentProvenanceValue,
+  opts: { source?: string; includeContent?: boolean }
+): Promise<{ sources: Record<string, any> | null; issues: string[]; warnings: string[] }> {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+  if (!prov.sourcesRoot || prov.sourcesRoot === ZERO_HASH) {
+    if (opts.source !== undefined) issues.push('source_not_in_manifest');
+    return { sources: null, issues, warnings };
+  }
+  if (!prov.sourcesManifestCid) return { sources: null, issues: ['sources_manifest_missing'], warnings };
+
+  let manifest: SourcesManifest;
+  try {
+    manifest = await getJson(prov.sourcesManifestCid);
+  } catch {
+    return { sources: null, issues, warnings: ['sources_manifest_fetch_failed'] };
+  }
+  const leaves = manifest.sources.map(sourceLeafHash);
+  const root = leaves.length ? merkleRoot(leaves) : ZERO_HASH;
+  if (root.toLowerCase() !== prov.sourcesRoot.toLowerCase()) issues.push('sources_root_mismatch');
+
+  const entries = await Promise.all(manifest.sources.map(async s => {
+    const entry: Record<string, any> = { index: s.index, title: s.title, url: s.url, contentHash: s.contentHash, cid: s.cid, length: s.length };
+    if (!opts.includeContent) return entry;
+    try {
+      const text = new TextDecoder().decode(await getFile(s.cid));
+      entry.contentVerified = sha256Hex(text).toLowerCase() === s.contentHash.toLowerCase();
+      if (!entry.contentVerified) issues.push(`source_content_mismatch:${s.index}`);
+    } catch {
+      warnings.push(`source_fetch_failed:${s.index}`);
+    }
+    return entry;
+  }));
+
+  let match: Record<string, any> | undefined;
+  if (opts.source !== undefined) {
+    const hash = sha256Hex(opts.source).toLowerCase();
+    const i = manifest.sources.findIndex(s => s.contentHash.toLowerCase() === hash);
+    if (i === -1) {
+      issues.push('source_not_in_manifest');
+      match = { contentHash: hash, found: false };
+    } else {
+      const proof = merkleProof(leaves, i);
+      const verified = verifyMerkleProof(leaves[i], proof, prov.sourcesRoot);
+      if (!verified) issues.push('source_proof_invalid');
+      match = { contentHash: hash, found: true, index: i, title: manifest.sources[i].title, url: manifest.sources[i].url, proof, verified };
+    }
+  }
+
+  return {
+    sources: { manifestCid: prov.sourcesManifestCid, root: prov.sourcesRoot, recomputedRoot: root, entries, match },
+    issues,
+    warnings
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Structured (JSON) output mode. The caller supplies a JSON Schema; providers use their
+ * native JSON feature where they have one (OpenAI json_schema, Anthropic tool input,
+ * Ollama `format`) and otherwise get the schema in the prompt. The reply is parsed and
+ * validated, retried a bounded number of times with the validation errors as feedback,
+ * and the canonical JSON (sorted keys, no whitespace) is stored as the content.
+ * `schemaHash` = sha256 of the canonical schema JSON and is signed into the provenance.
+ */
+
+import crypto from 'crypto';
+import Ajv, { ValidateFunction } from 'ajv';
+
+export interface StructuredOptions {
+  schema: Record<string, any>;
+  name?: string;          // schema / tool name given to providers (default 'output')
+  maxRetries?: number;    // extra attempts after an invalid reply (default STRUCTURED_MAX_RETRIES or 2)
+}
+
+// What providers receive in ProviderRequest.responseFormat
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, any>;
+  feedback?: string;      // validation errors of the previous attempt
+}
+
+export interface StructuredValidation {
+  value?: unknown;
+  canonical?: string;
+  errors: string[];
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const MAX_RETRIES_CAP = 5;
+
+// Canonical JSON: object keys sorted recursively, no insignificant whitespace
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const entries = Object.keys(obj).sort().filter(k => obj[k] !== undefined).map(k => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function schemaHash(schema: Record<string, any>): string {
+  return '0x' + crypto.createHash('sha256').update(canonicalJson(schema), 'utf8').digest('hex');
+}
+
+export function maxRetries(opts: StructuredOptions): number {
+  const env = Number(process.env.STRUCTURED_MAX_RETRIES);
+  const n = opts.maxRetries ?? (Number.isInteger(env) && env >= 0 ? env : DEFAULT_MAX_RETRIES);
+  return Math.max(0, Math.min(n, MAX_RETRIES_CAP));
+}
+
+// Throws with a readable message when the schema itself is invalid
+export function compileSchema(schema: Record<string, any>): ValidateFunction {
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  return ajv.compile(schema);
+}
+
+// Models sometimes wrap JSON in a markdown fence despite instructions
+function stripFence(text: string): string {
+  const m = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return m ? m[1] : text.trim();
+}
+
+export function validateStructured(validate: ValidateFunction, text: string): StructuredValidation {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripFence(text));
+  } catch (e) {
+    return { errors: [`invalid_json: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+  if (!validate(value)) {
+    const errors = (validate.errors || []).map(err => `${err.instancePath || '/'} ${err.message || 'is invalid'}`);
+    return { value, errors: errors.length ? errors : ['schema_validation_failed'] };
+  }
+  return { value, canonical: canonicalJson(value), errors: [] };
+}
+
+// Prompt suffix for providers without a native schema feature (and retry feedback for all)
+export function structuredInstruction(format: ResponseFormat, native: boolean): string {
+  const parts: string[] = [];
+  if (!native) {
+    parts.push(`Respond only with a JSON value that matches this JSON Schema, with no prose or code fences:\n${JSON.stringify(format.schema)}`);
+  }
+  if (format.feedback) {
+    parts.push(`Your previous reply was rejected: ${format.feedback}. Reply again with corrected JSON only.`);
+  }
+  return parts.length ? `\n\n${parts.join('\n\n')}` : '';
+}
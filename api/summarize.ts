@@ -0,0 +1,640 @@
+/**
+ * Summarization pipeline shared by the JSON and streaming (SSE) modes of /api/summarize.
+ * Runs the provider call, optional hosted ZK proving and IPFS uploads, then returns the
+ * unsigned ContentProvenance envelope. Progress is reported through an optional emitter.
+ */
+
+import crypto from 'crypto';
+import { summarizeWithFallback, resolveProviderChain, modelIdFor, getProvider, ProviderName, FallbackResult, QueueHandler } from './providers';
+import { hashParams, canonicalizeParams } from './params';
+import { generationCacheKey, lookupGeneration, storeGeneration, defaultCacheTtlMs, GenerationArtifacts, CacheEntry, ZkMode } from './generationCache';
+import { domain, types, ZERO_HASH, ContentProvenanceValue, UnsignedProvenanceResponse, SummarizeStreamEvent, Eip712Domain, TokenUsage } from './types';
+import { recordUsage } from './usageStore';
+import { summarizeLongDocument, exceedsAutoThreshold, resolveChunking, ChunkingOptions, ChunkManifest } from './longDocument';
+import { addFile, addJson } from './ipfs';
+import { compileSchema, maxRetries, schemaHash, validateStructured, StructuredOptions } from './structured';
+import { sumUsage } from './usage';
+import { generateConsensus, storeConsensusOutputs, bundleHash, ConsensusBundle, ConsensusOptions, ConsensusResult } from './consensus';
+import { composeSourcesInput, sourcesRoot, storeSources, SourceDocument } from './sources';
+import { loadModerationPolicy, moderate, moderateAll, policyHash, screensStage, combineModeration, moderationBlockedError, ModerationStageReport } from './moderation';
+import { getTemplate, renderTemplate, resolveVariables, templateHash, templateKey, RenderedPrompt } from './templates';
+import { callHostedProver, verifyReceipt, validateJournalBindings } from './prover';
+import { CURRENT_PROVENANCE_VERSION, defaultMimeType, ParentRelation } from './provenanceSchema';
+
+export interface SummarizeInput {
+  text: string;
+  signer: string;
+  provider: ProviderName;
+  model?: string;
+  useZk: boolean;
+  params?: Record<string, any>; // raw request params; canonicalized per provider in the chain
+  fallback?: ProviderName[];    // per-request fallback chain (overrides PROVIDER_FALLBACKS)
+  strict?: boolean;             // never fall back
+  cache?: boolean;              // false = bypass the generation cache (the fresh result replaces the entry)
+  cacheTtlMs?: number;          // TTL for the entry this request stores (default GENERATION_CACHE_TTL_MS)
+  templateId?: string;          // prompt template `<id>@<version>` (validated by the route)
+  templateVariables?: Record<string, string>;
+  structured?: StructuredOptions; // JSON output validated against a schema (validated by the route)
+  consensus?: ConsensusOptions; // ask several providers and sign one bundle (validated by the route)
+  sources?: SourceDocument[];   // attributed source documents appended to the text (validated by the route)
+  longDocument?: boolean;       // map-reduce over chunks (default: only past LONG_DOC_AUTO_CHARS, never when structured or consensus)
+  chunking?: ChunkingOptions;
+  mimeType?: string;            // media type of the output (default text/plain, application/json when structured)
+  license?: string;             // SPDX license expression signed with the output
+  parent?: { cid: string; relation: ParentRelation }; // signed envelope this output revises or derives from
+  domain?: Eip712Domain;        // signing domain of the wallet's chain (resolved by the route; default: legacy domain)
+}
+
+export type SummarizeEmitter = (event: SummarizeStreamEvent) => void;
+
+const noopEmitter: SummarizeEmitter = () => {};
+
+export async function runSummarize(input: SummarizeInput, emit: SummarizeEmitter = noopEmitter): Promise<UnsignedProvenanceResponse> {
+  // With sources the provider input (and so promptHash) is the text plus the numbered sources
+  if (input.sources?.length) input = { ...input, text: composeSourcesInput(input.text, input.sources) };
+  const { text, provider, model, useZk, params } = input;
+
+  // promptHash == hash of the original text (prompt)
+  const promptHash = sha256Hex(text);
+  // Structured output is validated on a single reply and consensus compares whole replies,
+  // so neither switches to map-reduce on its own
+  const longDocument = input.longDocument ?? (!input.structured && !input.consensus && exceedsAutoThreshold(text));
+
+  // The template's rendered instruction (not the user input) is committed as templateHash
+  const template = input.templateId ? getTemplate(input.templateId) : undefined;
+  const templateVariables = template ? resolveVariables(template, input.templateVariables).variables : undefined;
+  const templateId = template ? templateKey(template) : '';
+  const templateDigest = template && templateVariables ? templateHash(template, templateVariables) : ZERO_HASH;
+  const renderPrompt = template && templateVariables
+    ? (chunk: string): RenderedPrompt => renderTemplate(template, templateVariables, chunk).prompt
+    : undefined;
+
+  const variantParts: string[] = [];
+  if (longDocument) {
+    const { chunkSize, overlap } = resolveChunking(input.chunking);
+    variantParts.push(`map-reduce:${chunkSize}:${overlap}`);
+  }
+  if (template) variantParts.push(`template:${templateId}:${templateDigest}`);
+  const schemaDigest = input.structured ? schemaHash(input.structured.schema) : ZERO_HASH;
+  if (input.structured) variantParts.push(`schema:${schemaDigest}`);
+  if (input.sources?.length) variantParts.push(`sources:${sourcesRoot(input.sources)}`);
+  if (input.consensus) variantParts.push(`consensus:${JSON.stringify([input.consensus.providers, input.consensus.models || {}])}`);
+  // A hit must have had its outputs screened under the policy in force now
+  const policy = loadModerationPolicy();
+  const screenOutput = screensStage(policy, 'output');
+  if (screenOutput) variantParts.push(`moderation:${policyHash(policy!)}`);
+  const variant = variantParts.length ? variantParts.join('|') : undefined;
+
+  // Cache key uses the requested provider/model and its canonical params (validated by the route)
+  const def = getProvider(provider);
+  const ttlMs = input.cacheTtlMs ?? defaultCacheTtlMs();
+  const cacheKey = def
+    ? generationCacheKey(provider, model || def.defaultModel, promptHash, hashParams(canonicalizeParams(params, def).params), variant)
+    : '';
+  const cached = cacheKey && input.cache !== false ? lookupGeneration(cacheKey, useZk) : undefined;
+
+  // Content policy: the input is screened before any provider call; when outputs are screened
+  // too, tokens are held back so refused content never reaches the client
+  const moderationStages: ModerationStageReport[] = [];
+  if (policy && screensStage(policy, 'input')) {
+    emit({ type: 'stage', stage: 'moderating', detail: 'input' });
+    const report = await moderate(policy, 'input', text);
+    moderationStages.push(report);
+    if (report.verdict === 'blocked') throw moderationBlockedError(combineModeration(policy, moderationStages));
+  }
+  const pipelineEmit: SummarizeEmitter = screenOutput ? event => { if (event.type !== 'token') emit(event); } : emit;
+  // Every output of a fresh generation is screened before anything is proved, uploaded or
+  // cached; a refused one is still billed
+  const screen: OutputScreen | undefined = screenOutput
+    ? async (generation, outputs, consensus) => {
+      emit({ type: 'stage', stage: 'moderating', detail: 'output' });
+      const stage = await moderateAll(policy!, 'output', outputs);
+      moderationStages.push(stage);
+      const report = combineModeration(policy!, moderationStages);
+      if (report.verdict !== 'blocked') return stage;
+      recordGenerationUsage(input.signer, Date.now(), generation, consensus && { bundle: consensus.bundle, usage: consensus.responses.map(r => r.usage) });
+      throw moderationBlockedError(report);
+    }
+    : undefined;
+
+  // Waits in the provider queues are reported as they happen and summarized in the response
+  const queue = { position: 0, waitedMs: 0, retries: 0 };
+  const onQueue: QueueHandler = update => {
+    if (update.retryInMs !== undefined) {
+      queue.retries++;
+      emit({ type: 'stage', stage: 'queued', detail: `${update.provider} rate limited, retrying in ${Math.ceil(update.retryInMs / 1000)}s` });
+    } else if (update.position) {
+      queue.position = Math.max(queue.position, update.position);
+      emit({ type: 'stage', stage: 'queued', detail: `${update.provider} #${update.position}` });
+    } else {
+      queue.waitedMs += update.waitedMs || 0;
+      emit({ type: 'stage', stage: 'generating', detail: update.provider });
+    }
+  };
+
+  let artifacts: GenerationArtifacts;
+  let cacheEntry: CacheEntry | undefined;
+  if (cached) {
+    artifacts = cached.artifacts;
+    cacheEntry = cached;
+    emit({ type: 'stage', stage: 'cached' });
+    pipelineEmit({ type: 'token', token: artifacts.response.summary });
+  } else {
+    artifacts = await produceGeneration({ ...input, longDocument }, pipelineEmit, renderPrompt, onQueue, screen);
+    // Fallback answers, partial consensus bundles and failed proofs are not cached: the next
+    // request should retry the real thing
+    const complete = artifacts.consensus ? !artifacts.consensus.bundle.failures.length : artifacts.provider === provider;
+    const cacheable = complete && artifacts.zk.mode !== 'failed';
+    if (cacheKey && cacheable) cacheEntry = storeGeneration(cacheKey, artifacts, ttlMs);
+  }
+
+  const providerSummaryData = artifacts.response;
+  const answeredBy = artifacts.provider;
+  const { contentCid, promptCid } = artifacts;
+  const warnings = [...artifacts.warnings];
+  // A cached entry may carry a proof the caller did not ask for; only bind it when requested
+  const zk = useZk ? artifacts.zk : { mode: 'disabled' as ZkMode, programHash: ZERO_HASH, keywordsHash: ZERO_HASH, journalCid: '', proofCid: '' };
+  const { programHash, keywordsHash, journalCid, proofCid } = zk;
+  const zkMode = zk.mode;
+
+  // paramsHash commits to the canonical params the answering provider was actually sent
+  const sentParams = providerSummaryData.params;
+  const paramsHash = hashParams(sentParams);
+  const providerOutput = providerSummaryData.summary;
+  const outputHash = sha256Hex(providerOutput);
+
+  // A hit was screened under this policy when it was generated (see the cache variant)
+  if (cached && screenOutput && artifacts.outputModeration) moderationStages.push(artifacts.outputModeration);
+  const moderation = policy ? combineModeration(policy, moderationStages) : undefined;
+
+  const provenance: ContentProvenanceValue = {
+    version: CURRENT_PROVENANCE_VERSION,
+    modelId: modelIdFor(answeredBy, providerSummaryData.model),
+    modelHash: providerSummaryData.modelHash || '',
+    promptHash,
+    outputHash,
+    paramsHash,
+    contentCid,
+    timestamp: Date.now(),
+    attestationStrategy: useZk ? (zkMode === 'real' ? 'zk-keywords' : zkMode === 'mock' ? 'zk-keywords-mock' : 'none') : 'none',
+    keywordsHash,
+    programHash: programHash === ZERO_HASH ? ZERO_HASH : programHash,
+    journalCid: journalCid || '',
+    proofCid: proofCid || '',
+    requestedProvider: artifacts.requestedProvider,
+    provider: answeredBy,
+    chunkRoot: artifacts.chunks?.root || ZERO_HASH,
+    chunkManifestCid: artifacts.chunks?.manifestCid || '',
+    templateId,
+    templateHash: templateDigest,
+    schemaHash: schemaDigest,
+    bundleHash: artifacts.consensus?.bundleHash || ZERO_HASH,
+    bundleCid: artifacts.consensus?.bundleCid || '',
+    transcriptHead: ZERO_HASH,
+    transcriptCid: '',
+    turnIndex: 0,
+    sourcesRoot: artifacts.sources?.root || ZERO_HASH,
+    sourcesManifestCid: artifacts.sources?.manifestCid || '',
+    moderationPolicyId: moderation?.policyId || '',
+    moderationPolicyHash: moderation?.policyHash || ZERO_HASH,
+    moderationVerdict: moderation?.verdict || '',
+    mimeType: input.mimeType || defaultMimeType({ schemaHash: schemaDigest }),
+    license: input.license || '',
+    parentCid: input.parent?.cid || '',
+    parentRelation: input.parent?.relation || ''
+  };
+
+  // Prune unused EIP-712 types to avoid ambiguity (we only sign ContentProvenance)
+  const prunedTypes: any = { ContentProvenance: types.ContentProvenance };
+  const unsigned: UnsignedProvenanceResponse = {
+    provenance,
+    domain: input.domain || domain,
+    types: prunedTypes,
+    primaryType: 'ContentProvenance',
+    providerOutput,
+    promptCid,
+    params: sentParams,
+    modelFingerprint: providerSummaryData.modelFingerprint,
+    template: templateVariables ? { templateId, variables: templateVariables } : undefined,
+    outputSchema: input.structured?.schema,
+    structured: artifacts.structured,
+    consensus: artifacts.consensus?.bundle,
+    sources: artifacts.sources?.entries,
+    moderation,
+    moderationPolicy: policy || undefined,
+    // A hit incurred no provider cost
+    usage: cached ? undefined : providerSummaryData.usage,
+    fallback: { requestedProvider: artifacts.requestedProvider, provider: answeredBy, attempts: artifacts.attempts },
+    queue: queue.position || queue.retries ? queue : undefined,
+    zk: useZk ? { mode: zkMode, journalCid, proofCid, warnings } : undefined,
+    cache: { hit: !!cached, key: cacheKey || undefined, createdAt: cacheEntry?.createdAt, expiresAt: cacheEntry?.expiresAt }
+  };
+
+  if (!cached) recordGenerationUsage(input.signer, provenance.timestamp, artifacts, artifacts.consensus);
+
+  // A refused cache hit was never billed and is not returned
+  if (moderation?.verdict === 'blocked') throw moderationBlockedError(moderation);
+  if (screenOutput) emit({ type: 'token', token: providerOutput });
+
+  emit({ type: 'stage', stage: 'envelope-ready' });
+  return unsigned;
+}
+
+// Called with every output of a generation before anything derived from them is proved or
+// uploaded; returns the output stage report, or throws to refuse them
+type OutputScreen = (generation: FallbackResult, outputs: string[], consensus?: ConsensusResult) => Promise<ModerationStageReport>;
+
+// Provider call, optional ZK proving and IPFS uploads (everything a cache hit skips)
+async function produceGeneration(
+  input: SummarizeInput,
+  emit: SummarizeEmitter,
+  renderPrompt?: (text: string) => RenderedPrompt,
+  onQueue?: QueueHandler,
+  screen?: OutputScreen
+): Promise<GenerationArtifacts> {
+  const { text, provider, model, useZk, params } = input;
+  const chain = resolveProviderChain(provider, input.fallback, input.strict);
+  const onToken = (token: string) => emit({ type: 'token', token });
+
+  // Provider summary first (even if zk fails, we have something)
+  const warnings: string[] = [];
+  let generation: FallbackResult;
+  let chunkManifest: ChunkManifest | undefined;
+  let structured: GenerationArtifacts['structured'];
+  let consensusResult: ConsensusResult | undefined;
+  if (input.longDocument) {
+    const mapReduce = await summarizeLongDocument({
+      chain,
+      text,
+      model,
+      params,
+      chunking: input.chunking,
+      renderPrompt,
+      onToken,
+      onStage: (stage, detail) => emit({ type: 'stage', stage, detail }),
+      signer: input.signer,
+      onQueue
+    });
+    generation = mapReduce.generation;
+    chunkManifest = mapReduce.manifest;
+  } else if (input.consensus) {
+    const result = await generateConsensus({
+      ...input.consensus,
+      text,
+      params,
+      renderPrompt,
+      signer: input.signer,
+      onQueue,
+      onMember: (name, error) => emit({ type: 'stage', stage: 'consensus', detail: error ? `${name} failed` : `${name} answered` })
+    });
+    const { bundle } = result;
+    const selected = bundle.members[bundle.selected];
+    consensusResult = result;
+    for (const f of bundle.failures) warnings.push(`consensus_member_failed:${f.provider}`);
+    // The selected member is the signed primary output; usage covers every member
+    generation = {
+      response: { ...result.responses[bundle.selected], usage: sumUsage(result.responses.map(r => r.usage)) },
+      requestedProvider: selected.provider,
+      provider: selected.provider,
+      attempts: [...bundle.members.map(m => ({ provider: m.provider })), ...bundle.failures.map(f => ({ provider: f.provider, error: f.error }))]
+    };
+    onToken(generation.response.summary);
+  } else if (input.structured) {
+    const result = await generateStructured(chain, input, emit, renderPrompt, onQueue);
+    generation = result.generation;
+    structured = { attempts: result.attempts };
+    if (result.attempts > 1) warnings.push(`structured_retries:${result.attempts - 1}`);
+  } else {
+    generation = await summarizeWithFallback({
+      chain,
+      text,
+      model,
+      params,
+      renderPrompt,
+      onToken,
+      signer: input.signer,
+      onQueue,
+      // Each attempt restarts the token stream so clients drop partial output from a failed provider
+      onAttempt: name => emit({ type: 'stage', stage: 'generating', detail: name })
+    });
+  }
+  const providerSummaryData = generation.response;
+  const answeredBy = generation.provider;
+  if (!consensusResult && answeredBy !== provider) warnings.push(`provider_fallback:${provider}->${answeredBy}`);
+
+  const providerOutput = providerSummaryData.summary;
+  // Everything this generation would publish: the answer, every consensus member and every
+  // map-step chunk output
+  const outputs = [providerOutput, ...(consensusResult?.responses.map(r => r.summary) || []), ...(chunkManifest?.chunks.map(c => c.output) || [])];
+  const outputModeration = screen ? await screen(generation, Array.from(new Set(outputs)), consensusResult) : undefined;
+
+  let chunks: GenerationArtifacts['chunks'];
+  if (chunkManifest) {
+    const manifestCid = await addJson(chunkManifest);
+    chunks = { root: chunkManifest.root, manifestCid, count: chunkManifest.chunks.length };
+  }
+  let consensus: GenerationArtifacts['consensus'];
+  if (consensusResult) {
+    await storeConsensusOutputs(consensusResult);
+    const { bundle, responses } = consensusResult;
+    const bundleCid = await addJson(bundle);
+    consensus = { bundle, bundleHash: bundleHash(bundle), bundleCid, usage: responses.map(r => r.usage) };
+  }
+
+  // Defaults for zk fields
+  let programHash = ZERO_HASH;      // will be real program/image hash or ZERO
+  let keywordsHash = ZERO_HASH;     // hash over canonical keywords JSON
+  let journalCid = '';
+  let proofCid = '';
+  let zkMode: ZkMode = 'disabled';
+
+  if (useZk) {
+    emit({ type: 'stage', stage: 'proving' });
+    const forceMock = process.env.MOCK_ZK === 'true';
+    if (forceMock) {
+      zkMode = 'mock';
+      const mock = await generateMockJournal(providerOutput);
+      programHash = mock.programHash;
+      keywordsHash = sha256Hex(JSON.stringify(mock.keywords));
+      try {
+        const [j, p] = await Promise.all([
+          safeAddFile(Buffer.from(JSON.stringify(mock.journalData))),
+          safeAddFile(Buffer.from('mock-proof'))
+        ]);
+        if (j) journalCid = j;
+        if (p) proofCid = p;
+      } catch {
+        warnings.push('mock_zk_ipfs_failed');
+      }
+    } else {
+      // Use hosted prover instead of local rzup execution
+      try {
+        console.log('[summarize] prover_request_start', {
+          req_id: `req_${Date.now()}_${Math.random().toString(36).slice(2,8)}`,
+          image_id: 'default_image_id',
+          input_length: providerOutput.length
+        });
+
+        // Prepare request for hosted prover
+        const proverRequest = {
+          image_id: 'default_image_id',
+          input: providerOutput,
+          seed: Math.floor(Math.random() * 1000000),
+          model_fingerprint: providerSummaryData.modelHash || sha256Hex(providerSummaryData.model)
+        };
+
+        // Call hosted prover
+        const proverResult = await callHostedProver(
+          proverRequest.image_id,
+          proverRequest.input,
+          proverRequest.model_fingerprint,
+          proverRequest.seed
+        );
+
+        if (proverResult.success && proverResult.output && proverResult.receiptBytes) {
+          const output = proverResult.output;
+          const receiptBytes = proverResult.receiptBytes;
+
+          // Verify receipt locally before proceeding
+          const verificationResult = verifyReceipt(receiptBytes, proverRequest.image_id);
+          if (!verificationResult.success) {
+            console.error('[summarize] prover_request_error', {
+              req_id: proverRequest.seed,
+              error: 'receipt_verification_failed',
+              details: verificationResult.error
+            });
+            zkMode = 'failed';
+            warnings.push('receipt_verification_failed');
+          } else {
+            // Parse journal and validate bindings
+            const journal = verificationResult.journal!;
+            const expectedInputHash = sha256Hex(proverRequest.input);
+            const expectedOutputHash = sha256Hex(JSON.stringify(output));
+
+            const bindingValidation = validateJournalBindings(
+              journal,
+              expectedInputHash,
+              expectedOutputHash,
+              proverRequest.model_fingerprint
+            );
+
+            if (!bindingValidation.valid) {
+              console.error('[summarize] prover_request_error', {
+                req_id: proverRequest.seed,
+                error: 'journal_binding_validation_failed',
+                details: bindingValidation.errors
+              });
+              zkMode = 'failed';
+              warnings.push('journal_validation_failed');
+            } else {
+              zkMode = 'real';
+              const kws = journal.keywords || output.keywords || [];
+              keywordsHash = sha256Hex(JSON.stringify(kws));
+              programHash = journal.programHash ? toBytes32(programHashFromAny(journal.programHash)) : ZERO_HASH;
+
+              console.log('[summarize] prover_request_success', {
+                req_id: proverRequest.seed,
+                image_id: proverRequest.image_id,
+                program_hash: programHash
+              });
+
+              try {
+                const [j, p] = await Promise.all([
+                  safeAddFile(Buffer.from(JSON.stringify(journal))),
+                  safeAddFile(receiptBytes)
+                ]);
+                if (j) journalCid = j;
+                if (p) proofCid = p;
+              } catch {
+                warnings.push('hosted_zk_ipfs_failed');
+              }
+            }
+          }
+        } else {
+          console.error('[summarize] prover_request_error', {
+            req_id: proverRequest.seed,
+            error: 'prover_request_failed',
+            details: proverResult.error
+          });
+          zkMode = 'failed';
+          warnings.push('hosted_prover_failed');
+        }
+      } catch (error) {
+        console.error('[summarize] prover_request_error', {
+          error: 'prover_request_exception',
+          details: error instanceof Error ? error.message : String(error)
+        });
+        zkMode = 'failed';
+        warnings.push('hosted_prover_exception');
+      }
+    }
+  }
+
+  emit({ type: 'stage', stage: 'uploading' });
+  // Store raw provider content to IPFS (contentCid)
+  const contentCid = consensus
+    ? consensus.bundle.members[consensus.bundle.selected].contentCid
+    : await addFile(Uint8Array.from(Buffer.from(providerOutput)));
+  // Store original prompt separately (not strictly required for verification but useful to reveal later)
+  let promptCid: string | undefined;
+  try { promptCid = await addFile(Uint8Array.from(Buffer.from(text))); } catch {}
+  let sources: GenerationArtifacts['sources'];
+  if (input.sources?.length) {
+    const stored = await storeSources(input.sources);
+    sources = { root: stored.manifest.root, manifestCid: stored.manifestCid, entries: stored.manifest.sources };
+  }
+
+  return {
+    response: providerSummaryData,
+    requestedProvider: generation.requestedProvider,
+    provider: answeredBy,
+    attempts: generation.attempts,
+    warnings,
+    contentCid,
+    promptCid,
+    chunks,
+    structured,
+    consensus,
+    sources,
+    outputModeration,
+    zk: { mode: zkMode, programHash, keywordsHash, journalCid, proofCid }
+  };
+}
+
+/**
+ * Structured mode: call the provider, validate the reply against the schema and retry with
+ * the validation errors as feedback. The provider that answers first is kept for retries;
+ * the stored content is the canonical JSON of the valid reply.
+ */
+async function generateStructured(
+  chain: ProviderName[],
+  input: SummarizeInput,
+  emit: SummarizeEmitter,
+  renderPrompt?: (text: string) => RenderedPrompt,
+  onQueue?: QueueHandler
+): Promise<{ generation: FallbackResult; attempts: number }> {
+  const opts = input.structured!;
+  const validate = compileSchema(opts.schema);
+  const retries = maxRetries(opts);
+  let activeChain = chain;
+  let model = input.model;
+  let first: FallbackResult | undefined;
+  let lastErrors: string[] = [];
+  const usages = [];
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const result = await summarizeWithFallback({
+      chain: activeChain,
+      text: input.text,
+      model,
+      params: input.params,
+      renderPrompt,
+      responseFormat: { name: opts.name || 'output', schema: opts.schema, feedback: lastErrors.length ? lastErrors.slice(0, 5).join('; ') : undefined },
+      onToken: token => emit({ type: 'token', token }),
+      signer: input.signer,
+      onQueue,
+      onAttempt: name => emit({ type: 'stage', stage: 'generating', detail: attempt ? `${name} (retry ${attempt})` : name })
+    });
+    if (!first) {
+      first = result;
+      if (result.provider !== result.requestedProvider) model = undefined;
+      activeChain = [result.provider];
+    }
+    usages.push(result.response.usage);
+    const check = validateStructured(validate, result.response.summary);
+    if (!check.errors.length) {
+      return {
+        generation: { ...first, response: { ...result.response, summary: check.canonical!, usage: sumUsage(usages) } },
+        attempts: attempt + 1
+      };
+    }
+    lastErrors = check.errors;
+  }
+  throw new Error(`Structured output failed schema validation after ${retries + 1} attempts: ${lastErrors.join('; ')}`);
+}
+
+// ===== Helpers =====
+
+// The provider call is billed whether or not the output is published
+function recordGenerationUsage(
+  signer: string,
+  timestamp: number,
+  generation: FallbackResult,
+  consensus?: { bundle: ConsensusBundle; usage: Array<TokenUsage | undefined> }
+) {
+  if (consensus) {
+    const { bundle, usage } = consensus;
+    bundle.members.forEach((m, i) => {
+      if (!usage[i]) return;
+      recordUsage({
+        timestamp,
+        signer,
+        requestedProvider: m.provider,
+        provider: m.provider,
+        model: m.model,
+        modelId: m.modelId,
+        outputHash: m.outputHash,
+        usage: usage[i]!
+      });
+    });
+  } else if (generation.response.usage) {
+    recordUsage({
+      timestamp,
+      signer,
+      requestedProvider: generation.requestedProvider,
+      provider: generation.provider,
+      model: generation.response.model,
+      modelId: modelIdFor(generation.provider, generation.response.model),
+      outputHash: sha256Hex(generation.response.summary),
+      usage: generation.response.usage
+    });
+  }
+}
+
+function sha256Hex(data: string | Buffer | Uint8Array) {
+  const buf: Buffer = typeof data === 'string' ? Buffer.from(data) : Buffer.isBuffer(data) ? data : Buffer.from(data);
+  const bytes = Uint8Array.from(buf);
+  return '0x' + crypto.createHash('sha256').update(bytes).digest('hex');
+}
+
+async function generateMockJournal(input: string) {
+  const words = input.toLowerCase().split(/\W+/).filter(w => w.length > 3);
+  const counts: Record<string, number> = {};
+  for (const w of words) counts[w] = (counts[w] || 0) + 1;
+  const keywords = Object.entries(counts).map(([word, count]) => ({ word, count })).sort((a,b)=>b.count-a.count).slice(0,10);
+  const programHash = sha256Hex('mock_program_v1');
+  const inputHash = sha256Hex(input);
+  const outputHash = sha256Hex(JSON.stringify(keywords));
+  const journalData = { keywords, programHash, inputHash, outputHash };
+  return { keywords, journalData, programHash, inputHash, outputHash };
+}
+
+async function safeAddFile(buf: Buffer | Uint8Array | string): Promise<string | null> {
+  try {
+    const b: Buffer = typeof buf === 'string' ? Buffer.from(buf) : Buffer.isBuffer(buf) ? buf : Buffer.from(buf);
+    const bytes = Uint8Array.from(b);
+    return await addFile(bytes);
+  } catch { return null; }
+}
+
+// ----- Utility helpers for provenance -----
+function toBytes32(hexish: string): string {
+  let h = hexish.trim();
+  if (h.startsWith('sha256:')) h = '0x' + h.slice(7);
+  if (!h.startsWith('0x')) h = '0x' + h;
+  h = h.toLowerCase();
+  // left pad if shorter than 66 chars (0x + 64)
+  if (h.length < 66) {
+    const nox = h.slice(2);
+    h = '0x' + nox.padStart(64, '0');
+  }
+  return h.slice(0, 66);
+}
+
+function programHashFromAny(value: string): string {
+  // Accept raw hex, sha256:<hex>, or other placeholder -> return hex body; fallback ZERO_HASH
+  if (!value) return ZERO_HASH;
+  if (value === '<FILLED_BY_HOST>') return ZERO_HASH;
+  if (value.startsWith('sha256:')) return value.slice(7);
+  if (value.startsWith('0x')) return value.slice(2);
+  return value;
+}
@@ -0,0 +1,214 @@
+/**
+ * Versioned prompt templates, grouped by the content types of ContentTypeSelector.
+ * A template is immutable once released: change the wording by adding a new version.
+ *
+ * The signed `templateId` is `<id>@<version>` and `templateHash` commits to the rendered
+ * instruction (system prompt and user message with UI variables filled in, input left as
+ * the literal `{{text}}` placeholder), so a verifier knows exactly which instruction
+ * produced the output, independent of the user's input.
+ */
+
+import crypto from 'crypto';
+
+export interface TemplateVariable {
+  name: string;
+  label: string;
+  default: string;
+  options?: string[];        // when set, the value must be one of these
+}
+
+export interface PromptTemplate {
+  id: string;                // `<contentType>.<slug>`
+  version: number;
+  contentType: string;       // ContentTypeSelector id
+  name: string;
+  description: string;
+  system: string;
+  instruction: string;       // user message; `{{text}}` is the input, `{{var}}` a variable
+  variables: TemplateVariable[];
+}
+
+// Rendered instruction handed to providers
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+}
+
+export interface TemplateSelection {
+  templateId: string;        // `<id>@<version>`
+  templateHash: string;      // bytes32
+  variables: Record<string, string>;
+  prompt: RenderedPrompt;
+}
+
+const LENGTHS = ['one paragraph', 'three bullet points', 'five bullet points', 'two sentences'];
+
+const TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'blog.summary', version: 1, contentType: 'blog',
+    name: 'Blog summary',
+    description: 'Reader-facing summary of a blog post',
+    system: 'You summarize blog posts accurately without adding claims that are not in the post.',
+    instruction: 'Summarize the following blog post for {{audience}} in {{length}}.\n\n{{text}}',
+    variables: [
+      { name: 'audience', label: 'Audience', default: 'general readers' },
+      { name: 'length', label: 'Length', default: 'one paragraph', options: LENGTHS }
+    ]
+  },
+  {
+    id: 'blog.social', version: 1, contentType: 'blog',
+    name: 'Social teaser',
+    description: 'Short teaser for sharing a post',
+    system: 'You write short, factual teasers for blog posts.',
+    instruction: 'Write a {{tone}} teaser of at most {{maxWords}} words for the following blog post.\n\n{{text}}',
+    variables: [
+      { name: 'tone', label: 'Tone', default: 'neutral', options: ['neutral', 'enthusiastic', 'formal'] },
+      { name: 'maxWords', label: 'Max words', default: '40' }
+    ]
+  },
+  {
+    id: 'email.digest', version: 1, contentType: 'email',
+    name: 'Email digest',
+    description: 'Summary of an email or thread with action items',
+    system: 'You summarize emails for busy readers. Never invent commitments or dates.',
+    instruction: 'Summarize the following email in {{length}}, then list action items for {{recipient}}.\n\n{{text}}',
+    variables: [
+      { name: 'length', label: 'Length', default: 'two sentences', options: LENGTHS },
+      { name: 'recipient', label: 'Action items for', default: 'the recipient' }
+    ]
+  },
+  {
+    id: 'report.executive', version: 1, contentType: 'report',
+    name: 'Executive summary',
+    description: 'Key findings and recommendations of a report',
+    system: 'You write executive summaries of reports. Keep figures exactly as stated in the source.',
+    instruction: 'Write an executive summary of the following report for {{audience}}: key findings first, then recommendations, in {{length}}.\n\n{{text}}',
+    variables: [
+      { name: 'audience', label: 'Audience', default: 'leadership' },
+      { name: 'length', label: 'Length', default: 'five bullet points', options: LENGTHS }
+    ]
+  },
+  {
+    id: 'code.explain', version: 1, contentType: 'code',
+    name: 'Code explanation',
+    description: 'What a piece of code does and how',
+    system: 'You explain source code precisely. Describe only behavior visible in the code.',
+    instruction: 'Explain what the following {{language}} code does for {{audience}} in {{length}}.\n\n{{text}}',
+    variables: [
+      { name: 'language', label: 'Language', default: 'source' },
+      { name: 'audience', label: 'Audience', default: 'a developer new to the codebase' },
+      { name: 'length', label: 'Length', default: 'one paragraph', options: LENGTHS }
+    ]
+  },
+  {
+    id: 'creative.synopsis', version: 1, contentType: 'creative',
+    name: 'Synopsis',
+    description: 'Spoiler-aware synopsis of a creative piece',
+    system: 'You write synopses of creative writing that preserve the author\'s voice.',
+    instruction: 'Write a synopsis of the following piece in {{length}}. Spoilers: {{spoilers}}.\n\n{{text}}',
+    variables: [
+      { name: 'length', label: 'Length', default: 'one paragraph', options: LENGTHS },
+      { name: 'spoilers', label: 'Spoilers', default: 'avoid', options: ['avoid', 'allowed'] }
+    ]
+  }
+];
+
+const MAX_VARIABLE_LENGTH = 200;
+
+function sha256Hex(data: string) {
+  return '0x' + crypto.createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+export function templateKey(t: PromptTemplate): string {
+  return `${t.id}@${t.version}`;
+}
+
+// `<id>@<version>`; a bare id resolves to the latest version
+export function getTemplate(templateId: string): PromptTemplate | undefined {
+  const [id, version] = templateId.split('@');
+  const matches = TEMPLATES.filter(t => t.id === id && (version === undefined || String(t.version) === version));
+  return matches.sort((a, b) => b.version - a.version)[0];
+}
+
+export function listTemplates(contentType?: string): PromptTemplate[] {
+  return TEMPLATES.filter(t => !contentType || t.contentType === contentType);
+}
+
+// Fill variables (defaults for missing ones); errors name the offending variable
+export function resolveVariables(t: PromptTemplate, supplied?: Record<string, any>): { variables: Record<string, string>; errors: string[] } {
+  const errors: string[] = [];
+  const variables: Record<string, string> = {};
+  for (const [k] of Object.entries(supplied || {})) {
+    if (!t.variables.some(v => v.name === k)) errors.push(`unknown_variable:${k}`);
+  }
+  for (const v of t.variables) {
+    const raw = supplied?.[v.name];
+    const value = raw === undefined || raw === null || raw === '' ? v.default : String(raw);
+    if (value.length > MAX_VARIABLE_LENGTH || value.includes('{{')) errors.push(`invalid_variable:${v.name}`);
+    else if (v.options && !v.options.includes(value)) errors.push(`invalid_variable:${v.name}`);
+    variables[v.name] = value;
+  }
+  return { variables, errors };
+}
+
+function fill(s: string, variables: Record<string, string>): string {
+  return s.replace(/\{\{(\w+)\}\}/g, (m, name) => (name === 'text' ? m : variables[name] ?? m));
+}
+
+// Hash of the rendered instruction with the input left as `{{text}}`
+export function templateHash(t: PromptTemplate, variables: Record<string, string>): string {
+  return sha256Hex(JSON.stringify({
+    templateId: templateKey(t),
+    system: fill(t.system, variables),
+    instruction: fill(t.instruction, variables)
+  }));
+}
+
+export function renderTemplate(t: PromptTemplate, variables: Record<string, string>, text: string): TemplateSelection {
+  return {
+    templateId: templateKey(t),
+    templateHash: templateHash(t, variables),
+    variables,
+    prompt: {
+      system: fill(t.system, variables),
+      // Function replacer: input text must not be interpreted as a replacement pattern
+      user: fill(t.instruction, variables).replace('{{text}}', () => text)
+    }
+  };
+}
+
+/**
+ * Verifier view of a signed templateId/templateHash: re-renders the instruction from the
+ * library and the variables stored in the envelope
+ */
+export function checkTemplateBinding(templateId: string, signedHash: string, variables?: Record<string, string>): {
+  template: Record<string, any> | null;
+  issues: string[];
+  warnings: string[];
+} {
+  const def = getTemplate(templateId);
+  if (!def) return { template: null, issues: [], warnings: ['template_unknown'] };
+  const base = { templateId, name: def.name, contentType: def.contentType };
+  if (!variables) return { template: { ...base, verified: false }, issues: [], warnings: ['template_variables_not_stored'] };
+  const verified = templateHash(def, variables).toLowerCase() === (signedHash || '').toLowerCase();
+  const rendered = renderTemplate(def, variables, '{{text}}').prompt;
+  return {
+    template: { ...base, variables, system: rendered.system, instruction: rendered.user, verified },
+    issues: verified ? [] : ['template_hash_mismatch'],
+    warnings: []
+  };
+}
+
+// Serializable catalog for the API and UI
+export function describeTemplates(contentType?: string) {
+  return listTemplates(contentType).map(t => ({
+    templateId: templateKey(t),
+    id: t.id,
+    version: t.version,
+    contentType: t.contentType,
+    name: t.name,
+    description: t.description,
+    variables: t.variables,
+    defaultHash: templateHash(t, resolveVariables(t).variables)
+  }));
+}
@@ -2,7 +2,19 @@
  * TypeScript types and EIP-712 schema definitions
  */
 
-// EIP-712 Domain
+import type { ConsensusBundle } from './consensus';
+import type { SourceEntry } from './sources';
+import type { ModerationPolicy, ModerationReport } from './moderation';
+
+// EIP-712 domain of a signed envelope (issued per chain by api/domains.ts)
+export interface Eip712Domain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+// EIP-712 Domain (legacy default: envelopes without a stored domain were signed under it)
 export const domain = {
   name: "AIProof",
   version: "1",
@@ -10,6 +22,103 @@ export const domain = {
   verifyingContract: "0x0000000000000000000000000000000000000000",
 } as const;
 
+// EIP-712 ContentProvenance fields per schema version (decoded by api/provenanceSchema.ts)
+// Version 1 is the original flattened struct; records signed with it must keep re-hashing
+const contentProvenanceV1 = [
+  { name: "version", type: "uint8" },
+  { name: "modelId", type: "string" },
+  { name: "modelHash", type: "string" },
+  { name: "promptHash", type: "bytes32" },
+  { name: "outputHash", type: "bytes32" },
+  { name: "paramsHash", type: "bytes32" },
+  { name: "contentCid", type: "string" },
+  { name: "timestamp", type: "uint256" },
+  { name: "attestationStrategy", type: "string" },
+  { name: "keywordsHash", type: "bytes32" },
+  { name: "programHash", type: "bytes32" },
+  { name: "journalCid", type: "string" },
+  { name: "proofCid", type: "string" }
+] as const;
+
+// Version 2 appends the requested and answering provider
+const contentProvenanceV2 = [
+  ...contentProvenanceV1,
+  { name: "requestedProvider", type: "string" },
+  { name: "provider", type: "string" }
+] as const;
+
+// Version 3 appends the long-document chunk manifest
+const contentProvenanceV3 = [
+  ...contentProvenanceV2,
+  { name: "chunkRoot", type: "bytes32" },
+  { name: "chunkManifestCid", type: "string" }
+] as const;
+
+// Version 4 appends the prompt template
+const contentProvenanceV4 = [
+  ...contentProvenanceV3,
+  { name: "templateId", type: "string" },
+  { name: "templateHash", type: "bytes32" }
+] as const;
+
+// Version 5 appends the structured output schema
+const contentProvenanceV5 = [
+  ...contentProvenanceV4,
+  { name: "schemaHash", type: "bytes32" }
+] as const;
+
+// Version 6 appends the consensus bundle
+const contentProvenanceV6 = [
+  ...contentProvenanceV5,
+  { name: "bundleHash", type: "bytes32" },
+  { name: "bundleCid", type: "string" }
+] as const;
+
+// Version 7 appends the chat transcript
+const contentProvenanceV7 = [
+  ...contentProvenanceV6,
+  { name: "transcriptHead", type: "bytes32" },
+  { name: "transcriptCid", type: "string" },
+  { name: "turnIndex", type: "uint32" }
+] as const;
+
+// Version 8 appends the source documents
+const contentProvenanceV8 = [
+  ...contentProvenanceV7,
+  { name: "sourcesRoot", type: "bytes32" },
+  { name: "sourcesManifestCid", type: "string" }
+] as const;
+
+// Version 9 appends the content policy verdict
+const contentProvenanceV9 = [
+  ...contentProvenanceV8,
+  { name: "moderationPolicyId", type: "string" },
+  { name: "moderationPolicyHash", type: "bytes32" },
+  { name: "moderationVerdict", type: "string" }
+] as const;
+
+// Version 10 appends content metadata and lineage
+const contentProvenanceV10 = [
+  ...contentProvenanceV9,
+  { name: "mimeType", type: "string" },
+  { name: "license", type: "string" },
+  { name: "parentCid", type: "string" },
+  { name: "parentRelation", type: "string" }
+] as const;
+
+export const contentProvenanceFields = {
+  1: contentProvenanceV1,
+  2: contentProvenanceV2,
+  3: contentProvenanceV3,
+  4: contentProvenanceV4,
+  5: contentProvenanceV5,
+  6: contentProvenanceV6,
+  7: contentProvenanceV7,
+  8: contentProvenanceV8,
+  9: contentProvenanceV9,
+  10: contentProvenanceV10
+} as const;
+
 // EIP-712 Types
 export const types = {
   SaveProof: [
@@ -17,22 +126,8 @@ export const types = {
     { name: "modelHash", type: "string" },
     { name: "timestamp", type: "string" },
   ],
-  // New flattened provenance struct (Stage 0-2)
-  ContentProvenance: [
-    { name: "version", type: "uint8" },
-    { name: "modelId", type: "string" },
-    { name: "modelHash", type: "string" },
-    { name: "promptHash", type: "bytes32" },
-    { name: "outputHash", type: "bytes32" },
-    { name: "paramsHash", type: "bytes32" },
-    { name: "contentCid", type: "string" },
-    { name: "timestamp", type: "uint256" },
-    { name: "attestationStrategy", type: "string" },
-    { name: "keywordsHash", type: "bytes32" },
-    { name: "programHash", type: "bytes32" },
-    { name: "journalCid", type: "string" },
-    { name: "proofCid", type: "string" }
-  ]
+  // Flattened provenance struct of the current schema version
+  ContentProvenance: contentProvenanceV10
 } as const;
 
 // TypeScript type for SaveProof
@@ -48,7 +143,7 @@ export const ZERO_HASH =
 
 // Flattened provenance value used for signing (EIP-712 ContentProvenance)
 export interface ContentProvenanceValue {
-  version: number;              // schema version
+  version: number;              // schema version (1 to 10)
   modelId: string;              // provider/model identifier (e.g. openai:gpt-4o-mini)
   modelHash: string;            // weight hash or empty string if proprietary
   promptHash: string;           // bytes32
@@ -61,23 +156,75 @@ export interface ContentProvenanceValue {
   programHash: string;          // bytes32 (image/program ID) or ZERO_HASH
   journalCid: string;           // CID or ''
   proofCid: string;             // CID or ''
+  requestedProvider: string;    // v2: provider the caller asked for
+  provider: string;             // v2: provider that actually answered (differs after a fallback)
+  chunkRoot: string;            // v3: bytes32 Merkle root of the long-document chunk manifest or ZERO_HASH
+  chunkManifestCid: string;     // v3: CID of the chunk manifest or ''
+  templateId: string;           // v4: prompt template `<id>@<version>` or '' for the provider's default prompt
+  templateHash: string;         // v4: bytes32 hash of the rendered template instruction or ZERO_HASH
+  schemaHash: string;           // v5: bytes32 hash of the canonical JSON Schema (structured mode) or ZERO_HASH
+  bundleHash: string;           // v6: bytes32 hash of the consensus bundle manifest or ZERO_HASH
+  bundleCid: string;            // v6: IPFS CID of the consensus bundle manifest ('' when not used)
+  transcriptHead: string;       // v7: bytes32 hash of the last chat turn covered or ZERO_HASH
+  transcriptCid: string;        // v7: IPFS CID of the chat transcript up to turnIndex ('' when not used)
+  turnIndex: number;            // v7: position of this reply in the chat (0 when not a chat turn)
+  sourcesRoot: string;          // v8: bytes32 Merkle root of the source documents or ZERO_HASH
+  sourcesManifestCid: string;   // v8: IPFS CID of the sources manifest ('' when not used)
+  moderationPolicyId: string;   // v9: content policy that screened input and output ('' when not screened)
+  moderationPolicyHash: string; // v9: bytes32 hash of the canonical policy JSON or ZERO_HASH
+  moderationVerdict: string;    // v9: 'pass' | 'flagged' ('' when not screened)
+  mimeType: string;             // v10: media type of the content at contentCid
+  license: string;              // v10: SPDX license expression of the content ('' when not declared)
+  parentCid: string;            // v10: signed envelope this record derives from ('' when none)
+  parentRelation: string;       // v10: 'upgrade' | 'revision' | 'derived' ('' without a parent)
 }
 
+
 // Response object returned from /api/summarize before signing
 export interface UnsignedProvenanceResponse {
   provenance: ContentProvenanceValue; // value to sign
-  domain: typeof domain;              // EIP-712 domain
+  domain: Eip712Domain;               // EIP-712 domain of the connected chain
   types: typeof types;                // includes ContentProvenance
   primaryType: string;                // 'ContentProvenance'
   // Additional helpful fields
   providerOutput?: string;            // raw provider content (same as stored at contentCid)
   promptCid?: string;                 // CID of original prompt text (not part of signed struct)
+  params?: Record<string, any>;       // canonical params sent to the provider (preimage of paramsHash)
+  modelFingerprint?: ModelFingerprintComponents; // preimage of modelHash (local models only)
+  outputSchema?: Record<string, any>; // JSON Schema enforced in structured mode (preimage of schemaHash)
+  structured?: { attempts: number };  // provider calls needed to get a schema-valid reply
+  consensus?: ConsensusBundle;        // consensus mode: the manifest stored at bundleCid
+  chat?: { sessionId: string; turnIndex: number; turns: number }; // chat turn provenance
+  sources?: SourceEntry[];            // attributed source documents (manifest at sourcesManifestCid)
+  moderation?: ModerationReport;      // per-stage screening results
+  moderationPolicy?: ModerationPolicy; // preimage of moderationPolicyHash
+  template?: {                        // variables needed to re-render templateHash
+    templateId: string;
+    variables: Record<string, string>;
+  };
+  usage?: TokenUsage;                 // token counts, latency and estimated cost of the provider call
+  fallback?: {
+    requestedProvider: string;
+    provider: string;
+    attempts: Array<{ provider: string; error?: string }>;
+  };
+  queue?: {                           // set when a provider call waited for a rate limit or slot
+    position: number;                 // furthest back place in line (1 = next)
+    waitedMs: number;
+    retries: number;                  // 429/503 answers retried after back-off
+  };
   zk?: {
     mode: 'disabled' | 'real' | 'mock' | 'failed';
     journalCid?: string;
     proofCid?: string;
     warnings?: string[];
   };
+  cache?: {
+    hit: boolean;                     // output, CIDs and ZK artifacts reused from an earlier run
+    key?: string;                     // sha256 of [provider, model, promptHash, paramsHash]
+    createdAt?: number;
+    expiresAt?: number;
+  };
 }
 
 // AI Model response
@@ -86,6 +233,34 @@ export interface AIModelResponse {
   model: string;
   modelHash: string;
   params: Record<string, any>;
+  modelFingerprint?: ModelFingerprintComponents; // inputs of modelHash for local models
+  usage?: TokenUsage;
+}
+
+// Token accounting for one generation (not signed; stored next to the envelope)
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated?: boolean;          // provider reported no counts; approximated from text length
+  latencyMs?: number;           // wall time of the provider call
+  costUsd?: number | null;      // from the price table; null when the model has no price
+}
+
+/**
+ * Components of a local model fingerprint (Ollama). Everything that decides the model's
+ * behavior is content-addressed: weight and adapter blob digests, the manifest digest and
+ * hashes of the template, system prompt, default parameters and path-normalized Modelfile.
+ * modelHash = sha256(JSON of these fields in this order).
+ */
+export interface ModelFingerprintComponents {
+  manifestDigest: string;
+  weights: string[];      // sha256 digests of FROM blobs
+  adapters: string[];     // sha256 digests of ADAPTER blobs
+  templateHash: string;
+  systemHash: string;
+  parametersHash: string;
+  modelfileHash: string;
 }
 
 // Summary metadata stored in IPFS
@@ -127,12 +302,29 @@ export interface UploadResult {
 export type ProcessStatus = 
   | 'idle'
   | 'summarizing'
+  | 'moderating'
+  | 'queued'
+  | 'generating'
+  | 'cached'
+  | 'mapping'
+  | 'reducing'
+  | 'consensus'
+  | 'proving'
   | 'encrypting'
   | 'signing'
   | 'uploading'
+  | 'envelope-ready'
   | 'completed'
   | 'error';
 
+// Server-Sent Event payloads emitted by /api/summarize in streaming mode.
+// Each event is sent as `event: <type>` followed by `data: <json>`.
+export type SummarizeStreamEvent =
+  | { type: 'token'; token: string }
+  | { type: 'stage'; stage: ProcessStatus; detail?: string }
+  | { type: 'result'; data: UnsignedProvenanceResponse }
+  | { type: 'error'; error: string; details?: string };
+
 // Error response
 export interface ErrorResponse {
   error: string;
@@ -0,0 +1,93 @@
+/**
+ * Token usage and cost accounting. Providers report token counts where their API returns
+ * them; this module fills gaps with an estimate, adds latency and prices the call from a
+ * price table (USD per 1M tokens) that MODEL_PRICES can extend or override, e.g.
+ *
+ *   MODEL_PRICES={"openai:gpt-4o-mini":{"input":0.15,"output":0.6},"vllm:*":{"input":0,"output":0}}
+ *
+ * Keys are `<provider>:<model>`, with `<provider>:*` as a per-provider default.
+ */
+
+import { AIModelResponse, TokenUsage } from './types';
+
+export interface ModelPrice {
+  input: number;   // USD per 1M prompt tokens
+  output: number;  // USD per 1M completion tokens
+}
+
+// List prices at the time of writing; deployments should pin their own via MODEL_PRICES
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'mock:*': { input: 0, output: 0 },
+  'ollama:*': { input: 0, output: 0 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'anthropic:claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'anthropic:claude-3-sonnet-20240229': { input: 3, output: 15 },
+  'anthropic:claude-3-opus-20240229': { input: 15, output: 75 },
+  'together:meta-llama/Meta-Llama-3-8B-Instruct-Turbo': { input: 0.18, output: 0.18 },
+  'together:mistralai/Mixtral-8x7B-Instruct-v0.1': { input: 0.6, output: 0.6 },
+  'together:NousResearch/Nous-Hermes-2-Mixtral-8x7B-DPO': { input: 0.6, output: 0.6 }
+};
+
+// Rough tokens-per-character ratio used when a provider reports no counts
+const CHARS_PER_TOKEN = 4;
+
+function priceTable(): Record<string, ModelPrice> {
+  const raw = process.env.MODEL_PRICES;
+  if (!raw) return DEFAULT_PRICES;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return { ...DEFAULT_PRICES, ...parsed };
+  } catch {
+    console.warn('[usage] MODEL_PRICES is not valid JSON; using default prices');
+  }
+  return DEFAULT_PRICES;
+}
+
+export function priceFor(provider: string, model: string): ModelPrice | null {
+  const table = priceTable();
+  return table[`${provider}:${model}`] || table[`${provider}:*`] || null;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Complete a provider's usage: estimate counts if it reported none, then add latency and cost
+ */
+export function finalizeUsage(response: AIModelResponse, provider: string, promptText: string, latencyMs: number): TokenUsage {
+  const usage: TokenUsage = response.usage
+    ? { ...response.usage }
+    : (() => {
+        const promptTokens = estimateTokens(promptText);
+        const completionTokens = estimateTokens(response.summary);
+        return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+      })();
+  usage.latencyMs = latencyMs;
+  const price = priceFor(provider, response.model);
+  usage.costUsd = price
+    ? Number(((usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000).toFixed(8))
+    : null;
+  return usage;
+}
+
+// Combined usage of several provider calls (e.g. the map and reduce steps of a long document)
+export function sumUsage(list: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const present = list.filter((u): u is TokenUsage => !!u);
+  if (!present.length) return undefined;
+  const total: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, latencyMs: 0, costUsd: 0 };
+  for (const u of present) {
+    total.promptTokens += u.promptTokens;
+    total.completionTokens += u.completionTokens;
+    total.totalTokens += u.totalTokens;
+    total.latencyMs = (total.latencyMs || 0) + (u.latencyMs || 0);
+    if (u.estimated) total.estimated = true;
+    // One unpriced call makes the total unknown rather than silently low
+    total.costUsd = typeof u.costUsd === 'number' && typeof total.costUsd === 'number'
+      ? Number((total.costUsd + u.costUsd).toFixed(8))
+      : null;
+  }
+  return total;
+}
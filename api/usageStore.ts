@@ -0,0 +1,96 @@
+// Simple in-memory ledger of token usage per generation, for chargeback reports.
+// NOTE: Like indexStore this is ephemeral and resets when the server restarts. The
+// same usage block is stored in each published envelope, so a persistent report can
+// be rebuilt from IPFS if needed.
+
+import { TokenUsage } from './types';
+
+export interface UsageRecord {
+  timestamp: number;            // unix epoch ms of the generation
+  signer: string;
+  requestedProvider: string;
+  provider: string;             // provider that answered (billed)
+  model: string;
+  modelId: string;
+  outputHash: string;
+  usage: TokenUsage;
+  signedProvenanceCid?: string; // set once the output is published
+}
+
+export type UsageGroupKey = 'signer' | 'provider' | 'model';
+
+export interface UsageGroup {
+  signer?: string;
+  provider?: string;
+  model?: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedRequests: number;    // requests whose counts were estimated
+  costUsd: number;
+  unpricedRequests: number;     // requests with no price table entry (cost excluded)
+  avgLatencyMs: number;
+}
+
+// Kept on globalThis so /api/summarize, /api/publish and /api/usage (separate route
+// bundles in Next.js) share one ledger
+const globalLedger = globalThis as unknown as { __usageRecords?: UsageRecord[] };
+const records: UsageRecord[] = globalLedger.__usageRecords || (globalLedger.__usageRecords = []);
+
+export function recordUsage(record: UsageRecord) {
+  records.push(record);
+}
+
+export function attachEnvelopeToUsage(outputHash: string, signedProvenanceCid: string) {
+  const h = outputHash.toLowerCase();
+  // Latest unpublished generation with this output
+  for (let i = records.length - 1; i >= 0; i--) {
+    if (records[i].outputHash.toLowerCase() === h && !records[i].signedProvenanceCid) {
+      records[i].signedProvenanceCid = signedProvenanceCid;
+      return;
+    }
+  }
+}
+
+export function queryUsage(from?: number, to?: number): UsageRecord[] {
+  return records.filter(r => (from === undefined || r.timestamp >= from) && (to === undefined || r.timestamp <= to));
+}
+
+export function aggregateUsage(list: UsageRecord[], groupBy: UsageGroupKey[]): UsageGroup[] {
+  const groups = new Map<string, UsageGroup & { latencyTotal: number }>();
+  for (const r of list) {
+    const key = JSON.stringify(groupBy.map(k => r[k]));
+    let g = groups.get(key);
+    if (!g) {
+      g = {
+        requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedRequests: 0,
+        costUsd: 0, unpricedRequests: 0, avgLatencyMs: 0, latencyTotal: 0
+      };
+      for (const k of groupBy) g[k] = r[k];
+      groups.set(key, g);
+    }
+    g.requests++;
+    g.promptTokens += r.usage.promptTokens;
+    g.completionTokens += r.usage.completionTokens;
+    g.totalTokens += r.usage.totalTokens;
+    if (r.usage.estimated) g.estimatedRequests++;
+    if (typeof r.usage.costUsd === 'number') g.costUsd += r.usage.costUsd;
+    else g.unpricedRequests++;
+    g.latencyTotal += r.usage.latencyMs || 0;
+  }
+  return Array.from(groups.values())
+    .map(({ latencyTotal, ...g }) => ({
+      ...g,
+      costUsd: Number(g.costUsd.toFixed(8)),
+      avgLatencyMs: g.requests ? Math.round(latencyTotal / g.requests) : 0
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens);
+}
+
+export function totalUsage(list: UsageRecord[]): UsageGroup {
+  return aggregateUsage(list, [])[0] || {
+    requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedRequests: 0,
+    costUsd: 0, unpricedRequests: 0, avgLatencyMs: 0
+  };
+}
@@ -1,4 +1,4 @@
-import { verifyTypedData } from 'viem';
+import { verifyEnvelopeSignature, SignatureScheme } from './signatures';
 
 export interface VerificationInput {
   summaryCid: string;
@@ -18,6 +18,7 @@ export interface VerificationDetails {
   signatureCid: string;
   modelHash?: string;
   signatureValid: boolean;
+  signatureScheme?: SignatureScheme | null; // ecdsa, or eip1271 / erc6492 for contract wallets
   hashMatches?: boolean;
   programHashMatches?: boolean;
 }
@@ -147,15 +148,20 @@ export async function verifyContent(input: VerificationInput): Promise<Verificat
 
     // EIP-712 verification (expect signature JSON to embed domain/types/value)
     let signatureValid = false;
+    let signatureScheme: SignatureScheme | null = null;
     try {
-      signatureValid = await verifyTypedData({
-        address: signature.signer,
+      const check = await verifyEnvelopeSignature({
         domain: signature.domain,
         types: signature.types,
         primaryType: 'SaveProof',
         message: signature.value,
-        signature: signature.signature
+        signature: signature.signature,
+        signer: signature.signer
       });
+      signatureValid = check.valid;
+      signatureScheme = check.scheme;
+      if (check.error === 'rpc_not_configured') warnings.push('Contract wallet signature not checked (no SIGNATURE_RPC_URL)');
+      else if (check.error) errors.push('Signature verification failed: ' + check.error);
     } catch (e: any) {
       errors.push('Signature verification threw: ' + e.message);
     }
@@ -187,6 +193,7 @@ export async function verifyContent(input: VerificationInput): Promise<Verificat
         signatureCid: input.signatureCid,
         modelHash: signature.value?.modelHash,
         signatureValid,
+        signatureScheme,
         programHashMatches
       },
       errors: errors.length ? errors : undefined,
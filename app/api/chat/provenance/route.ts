@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChatSession, chatTurnProvenance } from '../../../../api/chat';
+import { issuingChains, signingDomain } from '../../../../api/domains';
+
+/**
+ * Unsigned provenance for one chat turn: POST { sessionId, signer, turnIndex?, chainId? }
+ * (default: the latest turn, i.e. the whole conversation). Sign it like /api/summarize output and publish
+ * via /api/publish.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const { sessionId, signer, turnIndex, chainId }: { sessionId?: string; signer?: string; turnIndex?: number; chainId?: number } = body || {};
+    if (!sessionId) return NextResponse.json({ error: 'sessionId required' }, { status: 400 });
+    const session = getChatSession(sessionId);
+    if (!session) return NextResponse.json({ error: `Unknown chat session ${sessionId}` }, { status: 404 });
+    if (session.signer !== signer) return NextResponse.json({ error: 'Chat session belongs to another signer' }, { status: 403 });
+    const index = turnIndex ?? session.turns.length - 1;
+    if (!Number.isInteger(index) || index < 0 || index >= session.turns.length) {
+      return NextResponse.json({ error: `turnIndex must be between 0 and ${session.turns.length - 1}` }, { status: 400 });
+    }
+    const domain = signingDomain(chainId);
+    if (!domain) return NextResponse.json({ error: `Unsupported chain ${chainId}`, details: `issuing on chains ${issuingChains().join(', ')}` }, { status: 400 });
+    return NextResponse.json(await chatTurnProvenance(session, index, domain));
+  } catch (e) {
+    console.error('[chat/provenance] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
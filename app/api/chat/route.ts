@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProviderName, getProvider } from '../../../api/providers';
+import { canonicalizeParams } from '../../../api/params';
+import { getChatSession, maxChatTurns, sendChatMessage, verifyTranscript, buildTranscript } from '../../../api/chat';
+
+/**
+ * Multi-turn chat. POST { message, signer, sessionId?, provider?, model?, params?, fallback?, strict? }
+ * appends one turn to the session's hash chain (a new session when sessionId is omitted).
+ * Sign a turn via /api/chat/provenance.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body.message !== 'string' || !body.message.trim()) {
+      return NextResponse.json({ error: 'Missing message' }, { status: 400 });
+    }
+    const { message, signer, sessionId, provider = 'mock', model, params, fallback, strict }: {
+      message: string; signer?: string; sessionId?: string; provider?: ProviderName; model?: string;
+      params?: Record<string, any>; fallback?: ProviderName[]; strict?: boolean;
+    } = body;
+    if (!signer) return NextResponse.json({ error: 'Missing signer' }, { status: 400 });
+
+    const providerDef = getProvider(provider);
+    if (!providerDef) return NextResponse.json({ error: `Unknown provider ${provider}` }, { status: 400 });
+    const canonical = canonicalizeParams(params, providerDef);
+    if (canonical.errors.length) {
+      return NextResponse.json({ error: 'Unsupported generation params', details: canonical.errors.join(', ') }, { status: 400 });
+    }
+    if (fallback !== undefined && (!Array.isArray(fallback) || fallback.some(f => typeof f !== 'string' || !getProvider(f)))) {
+      return NextResponse.json({ error: 'fallback must be a list of registered provider names' }, { status: 400 });
+    }
+
+    if (sessionId !== undefined) {
+      const session = typeof sessionId === 'string' ? getChatSession(sessionId) : undefined;
+      if (!session) return NextResponse.json({ error: `Unknown chat session ${sessionId}` }, { status: 404 });
+      if (session.signer !== signer) return NextResponse.json({ error: 'Chat session belongs to another signer' }, { status: 403 });
+      if (session.turns.length >= maxChatTurns()) {
+        return NextResponse.json({ error: `Chat session reached the limit of ${maxChatTurns()} turns` }, { status: 400 });
+      }
+      if (session.pending) return NextResponse.json({ error: 'A turn is already being generated for this session' }, { status: 409 });
+    }
+
+    const { session, turn, usage, attempts } = await sendChatMessage({ sessionId, signer, message, provider, model, params, fallback, strict });
+    return NextResponse.json({
+      sessionId: session.sessionId,
+      turn: {
+        index: turn.index,
+        reply: turn.reply,
+        provider: turn.provider,
+        modelId: turn.modelId,
+        userHash: turn.userHash,
+        replyHash: turn.replyHash,
+        paramsHash: turn.paramsHash,
+        prevHash: turn.prevHash,
+        turnHash: turn.turnHash,
+        timestamp: turn.timestamp
+      },
+      head: turn.turnHash,
+      turns: session.turns.length,
+      usage,
+      fallback: { requestedProvider: provider, provider: turn.provider, attempts }
+    });
+  } catch (e) {
+    console.error('[chat] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
+
+// GET ?sessionId=...&signer=... returns the full transcript and re-checks its chain
+export async function GET(req: NextRequest) {
+  try {
+    const sessionId = req.nextUrl.searchParams.get('sessionId');
+    if (!sessionId) return NextResponse.json({ error: 'sessionId required' }, { status: 400 });
+    const session = getChatSession(sessionId);
+    if (!session) return NextResponse.json({ error: `Unknown chat session ${sessionId}` }, { status: 404 });
+    if (session.signer !== req.nextUrl.searchParams.get('signer')) {
+      return NextResponse.json({ error: 'Chat session belongs to another signer' }, { status: 403 });
+    }
+    if (!session.turns.length) return NextResponse.json({ sessionId, signer: session.signer, turns: [], head: null });
+    const transcript = buildTranscript(session, session.turns.length - 1);
+    const { head, brokenAt } = verifyTranscript(transcript);
+    return NextResponse.json({ ...transcript, signer: session.signer, chainValid: brokenAt === undefined && head === transcript.head });
+  } catch (e) {
+    console.error('[chat] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
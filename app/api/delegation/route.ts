@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { issuingChains, signingDomain } from '../../../api/domains';
+import { buildDelegation, delegationTypes, delegationUsage } from '../../../api/delegation';
+
+/**
+ * Delegation certificates. POST { delegate, models?, expiresAt? | expiresInMs?, maxCount?, chainId? }
+ * returns an unsigned SigningDelegation for the wallet to sign (primaryType
+ * 'SigningDelegation'). Send { certificate, domain, issuer, signature } as `delegation` with
+ * every /api/publish (or /api/sign-publish) of a record the delegate signs.
+ * GET ?certificateHash= reports how many records were published under a certificate.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body?.delegate) return NextResponse.json({ error: 'delegate required' }, { status: 400 });
+    const { delegate, models, expiresAt, expiresInMs, maxCount, chainId } = body as {
+      delegate: string; models?: string[]; expiresAt?: number; expiresInMs?: number; maxCount?: number; chainId?: number;
+    };
+
+    let certificate;
+    try {
+      certificate = buildDelegation({ delegate, models, expiresAt, expiresInMs, maxCount });
+    } catch (e) {
+      return NextResponse.json({ error: 'Invalid delegation', details: e instanceof Error ? e.message : 'unknown' }, { status: 400 });
+    }
+    const domain = signingDomain(chainId);
+    if (!domain) return NextResponse.json({ error: `Unsupported chain ${chainId}`, details: `issuing on chains ${issuingChains().join(', ')}` }, { status: 400 });
+
+    return NextResponse.json({ certificate, domain, types: delegationTypes, primaryType: 'SigningDelegation' });
+  } catch (e) {
+    console.error('[delegation] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
+
+export function GET(req: NextRequest) {
+  const certificateHash = req.nextUrl.searchParams.get('certificateHash');
+  if (!certificateHash) {
+    return NextResponse.json({ message: 'POST { delegate, models?, expiresAt? | expiresInMs?, maxCount?, chainId? } for an unsigned delegation certificate; GET ?certificateHash= for its usage.' });
+  }
+  const cids = delegationUsage(certificateHash);
+  return NextResponse.json({ certificateHash, used: cids.length, signedProvenanceCids: cids });
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeProviders, describeProvidersWithHealth } from '../../../api/providers';
+
+// Lists registered providers so the UI can build its selector from the registry.
+// Each configured provider is probed live (cached briefly): ?refresh=1 forces a new
+// probe, ?probe=0 returns the static registry only.
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    if (params.get('probe') === '0') {
+      return NextResponse.json({ providers: describeProviders() });
+    }
+    const providers = await describeProvidersWithHealth(params.get('refresh') === '1');
+    return NextResponse.json({
+      providers,
+      available: providers.filter(p => p.health.available).map(p => p.name)
+    });
+  } catch (e) {
+    console.error('[providers] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
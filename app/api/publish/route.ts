@@ -1,68 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { addJson } from '../../../api/ipfs';
-import { domain, types, ContentProvenanceValue, ZERO_HASH } from '../../../api/types';
-import { addOutputHashMapping } from '../../../api/indexStore';
-
-interface PublishBody {
-  provenance: ContentProvenanceValue;
-  signature: string; // hex signature from wallet
-  signer: string;    // address recovered client-side (we will not trust blindly)
-  promptCid?: string; // optional CID of original prompt (not part of signed struct)
-}
+import { publishEnvelope, PublishBody, PublishError } from '../../../api/publish';
 
 
 export async function POST(req: NextRequest) {
   console.log('[publish] POST request received');
   try {
     const body: PublishBody = await req.json();
-    console.log('[publish] Request body:', { 
-      hasProvenance: !!body?.provenance, 
-      hasSignature: !!body?.signature, 
+    console.log('[publish] Request body:', {
+      hasProvenance: !!body?.provenance,
+      hasSignature: !!body?.signature,
       hasSigner: !!body?.signer,
-      signer: body?.signer 
+      signer: body?.signer
     });
-    if (!body?.provenance || !body.signature || !body.signer) {
-      return NextResponse.json({ error: 'Missing provenance, signature or signer' }, { status: 400 });
-    }
-
-    const prov = body.provenance;
-
-    // Basic structural validation
-    if (prov.version !== 1) return NextResponse.json({ error: 'Unsupported version' }, { status: 400 });
-    // Basic shape checks
-    const requiredStrings: Array<keyof ContentProvenanceValue> = ['modelId','promptHash','outputHash','paramsHash','contentCid'];
-    for (const k of requiredStrings) {
-      if (!prov[k]) return NextResponse.json({ error: `Missing field ${k}` }, { status: 400 });
-    }
 
-    // Placeholder: we could fetch contentCid & recompute outputHash here (Stage 2 verify endpoint will do deeper checks)
-
-    const prunedTypes: any = { ContentProvenance: types.ContentProvenance };
-    const signedEnvelope = {
-      domain,
-      types: prunedTypes,
-      primaryType: 'ContentProvenance',
-      provenance: prov,
-      signature: body.signature,
-      signer: body.signer,
-      createdAt: Date.now(),
-      promptCid: body.promptCid || undefined
-    };
-
-    const signedProvenanceCid = await addJson(signedEnvelope);
-    // Index by outputHash so later we can allow paste-of-content -> provenance discovery.
-    if (prov.outputHash) {
-      try { addOutputHashMapping(prov.outputHash, signedProvenanceCid); } catch {}
-    }
-
-    const response = {
-      signedProvenanceCid,
-      proofCid: prov.proofCid || undefined,
-      journalCid: prov.journalCid || undefined
-    };
+    const response = await publishEnvelope(body);
     console.log('[publish] Success response:', response);
     return NextResponse.json(response);
   } catch (e) {
+    const status = (e as PublishError).status;
+    if (status) return NextResponse.json({ error: (e as Error).message, details: (e as PublishError).details }, { status });
     console.error('[publish] error', e);
     return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
   }
@@ -70,4 +26,4 @@ export async function POST(req: NextRequest) {
 
 export function GET() {
   return NextResponse.json({ message: 'POST signed provenance to publish.' });
-}
\ No newline at end of file
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { issuingChains, signingDomain } from '../../../../api/domains';
+import { approvalTypes, buildApproval, ReviewError } from '../../../../api/review';
+
+/**
+ * POST { signedProvenanceCid, role, decision?, comment?, chainId? } returns an unsigned
+ * ProvenanceApproval for the reviewer's wallet. Submit the signed result to /api/review.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body?.signedProvenanceCid) return NextResponse.json({ error: 'signedProvenanceCid required' }, { status: 400 });
+    const domain = signingDomain(body.chainId);
+    if (!domain) return NextResponse.json({ error: `Unsupported chain ${body.chainId}`, details: `issuing on chains ${issuingChains().join(', ')}` }, { status: 400 });
+    const approval = await buildApproval(body);
+    return NextResponse.json({ approval, domain, types: approvalTypes, primaryType: 'ProvenanceApproval' });
+  } catch (e) {
+    const status = (e as ReviewError).status;
+    if (status) return NextResponse.json({ error: (e as Error).message, details: (e as ReviewError).details }, { status });
+    console.error('[review/approval] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
+
+export function GET() {
+  return NextResponse.json({ message: 'POST { signedProvenanceCid, role, decision?: approve | reject, comment?, chainId? } for an unsigned approval to countersign.' });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJson } from '../../../api/ipfs';
+import { checkReview, ReviewError, SignedApproval, submitApproval } from '../../../api/review';
+
+/**
+ * Review workflow. POST a signed approval { approval, domain, reviewer, signature } (from
+ * /api/review/approval, signed by the reviewer's wallet) to add it to the record's review;
+ * GET ?signedProvenanceCid= returns the review and its approval status.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body: SignedApproval | null = await req.json().catch(() => null);
+    if (!body) return NextResponse.json({ error: 'Missing approval' }, { status: 400 });
+    const result = await submitApproval(body);
+    console.log('[review] approval by', body.reviewer, 'on', body.approval.signedProvenanceCid, '->', result.review.status);
+    return NextResponse.json(result);
+  } catch (e) {
+    const status = (e as ReviewError).status;
+    if (status) return NextResponse.json({ error: (e as Error).message, details: (e as ReviewError).details }, { status });
+    console.error('[review] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const signedProvenanceCid = req.nextUrl.searchParams.get('signedProvenanceCid');
+  if (!signedProvenanceCid) {
+    return NextResponse.json({ message: 'GET ?signedProvenanceCid= for the review status; POST { approval, domain, reviewer, signature } to countersign.' });
+  }
+  let envelope: any;
+  try {
+    envelope = await getJson(signedProvenanceCid);
+  } catch {
+    return NextResponse.json({ error: `Provenance ${signedProvenanceCid} not found` }, { status: 404 });
+  }
+  if (!envelope?.provenance) return NextResponse.json({ error: 'Invalid provenance envelope' }, { status: 400 });
+  try {
+    return NextResponse.json(await checkReview(signedProvenanceCid, envelope));
+  } catch (e) {
+    console.error('[review] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJson } from '../../../api/ipfs';
+import { checkRevocation, RevocationError, SignedRevocation, submitRevocation } from '../../../api/revocation';
+
+/**
+ * Revocation. POST a signed statement { revocation, domain, revoker, signature, delegation? }
+ * (from /api/revocation/statement, signed by the record's signer or a delegate of it) to
+ * revoke the record; GET ?signedProvenanceCid= returns whether and when it was revoked.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body: SignedRevocation | null = await req.json().catch(() => null);
+    if (!body) return NextResponse.json({ error: 'Missing revocation' }, { status: 400 });
+    const result = await submitRevocation(body);
+    console.log('[revocation] revoked', body.revocation.signedProvenanceCid, 'by', body.revoker, `(${body.revocation.reason})`);
+    return NextResponse.json(result);
+  } catch (e) {
+    const status = (e as RevocationError).status;
+    if (status) return NextResponse.json({ error: (e as Error).message, details: (e as RevocationError).details }, { status });
+    console.error('[revocation] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const signedProvenanceCid = req.nextUrl.searchParams.get('signedProvenanceCid');
+  if (!signedProvenanceCid) {
+    return NextResponse.json({ message: 'GET ?signedProvenanceCid= for the revocation status; POST { revocation, domain, revoker, signature, delegation? } to revoke.' });
+  }
+  let envelope: any;
+  try {
+    envelope = await getJson(signedProvenanceCid);
+  } catch {
+    return NextResponse.json({ error: `Provenance ${signedProvenanceCid} not found` }, { status: 404 });
+  }
+  if (!envelope?.provenance) return NextResponse.json({ error: 'Invalid provenance envelope' }, { status: 400 });
+  try {
+    const { revocation, warnings } = await checkRevocation(signedProvenanceCid, envelope);
+    return NextResponse.json({ signedProvenanceCid, revoked: !!revocation, revokedAt: revocation?.revokedAt ?? null, revocation, warnings });
+  } catch (e) {
+    console.error('[revocation] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
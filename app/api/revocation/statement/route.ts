@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { issuingChains, signingDomain } from '../../../../api/domains';
+import { buildRevocation, REVOCATION_REASONS, revocationTypes, RevocationError } from '../../../../api/revocation';
+
+/**
+ * POST { signedProvenanceCid, reason, note?, chainId? } returns an unsigned
+ * ProvenanceRevocation for the signer's (or its delegate's) wallet. Submit the signed result
+ * to /api/revocation.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body?.signedProvenanceCid) return NextResponse.json({ error: 'signedProvenanceCid required' }, { status: 400 });
+    const domain = signingDomain(body.chainId);
+    if (!domain) return NextResponse.json({ error: `Unsupported chain ${body.chainId}`, details: `issuing on chains ${issuingChains().join(', ')}` }, { status: 400 });
+    const revocation = await buildRevocation(body);
+    return NextResponse.json({ revocation, domain, types: revocationTypes, primaryType: 'ProvenanceRevocation' });
+  } catch (e) {
+    const status = (e as RevocationError).status;
+    if (status) return NextResponse.json({ error: (e as Error).message, details: (e as RevocationError).details }, { status });
+    console.error('[revocation/statement] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
+
+export function GET() {
+  return NextResponse.json({ message: `POST { signedProvenanceCid, reason: ${REVOCATION_REASONS.join(' | ')}, note?, chainId? } for an unsigned revocation to sign.` });
+}
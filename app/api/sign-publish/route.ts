@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UnsignedProvenanceResponse } from '../../../api/types';
+import { SignedDelegation } from '../../../api/delegation';
+import { publishEnvelope, PublishError } from '../../../api/publish';
+import { isAuthorizedSignerRequest, serverSignerAddress, serverSignerConfigured, signProvenance } from '../../../api/serverSigner';
+
+/**
+ * Headless signing for CI: POST the unsigned response of /api/summarize (or
+ * /api/chat/provenance, /api/upgrade-provenance) with `Authorization: Bearer <token>`.
+ * The server key signs the ContentProvenance typed data and the envelope is published as
+ * /api/publish would; the response adds the signer and signature. Add `delegation` (a
+ * certificate naming the server signer as delegate) to sign on behalf of a wallet.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!serverSignerConfigured()) return NextResponse.json({ error: 'Server signer not configured' }, { status: 503 });
+    if (!isAuthorizedSignerRequest(req.headers.get('authorization'))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const unsigned: (UnsignedProvenanceResponse & { delegation?: SignedDelegation }) | null = await req.json().catch(() => null);
+    if (!unsigned?.provenance) return NextResponse.json({ error: 'Missing provenance' }, { status: 400 });
+    if (unsigned.primaryType && unsigned.primaryType !== 'ContentProvenance') {
+      return NextResponse.json({ error: `Cannot sign ${unsigned.primaryType}` }, { status: 400 });
+    }
+
+    const { signature, signer, domain } = await signProvenance(unsigned.provenance, unsigned.domain);
+    const published = await publishEnvelope({
+      provenance: unsigned.provenance,
+      signature,
+      signer,
+      domain,
+      promptCid: unsigned.promptCid,
+      params: unsigned.params,
+      modelFingerprint: unsigned.modelFingerprint,
+      usage: unsigned.usage,
+      template: unsigned.template,
+      outputSchema: unsigned.outputSchema,
+      consensus: unsigned.consensus,
+      moderationPolicy: unsigned.moderationPolicy,
+      delegation: unsigned.delegation
+    });
+    console.log('[sign-publish] published', published.signedProvenanceCid, 'signed by', signer);
+    return NextResponse.json({ ...published, signer, signature, domain });
+  } catch (e) {
+    const status = (e as PublishError).status;
+    if (status) return NextResponse.json({ error: (e as Error).message, details: (e as PublishError).details }, { status });
+    console.error('[sign-publish] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
+
+// The signer address is public (it is in every envelope it signs)
+export async function GET() {
+  if (!serverSignerConfigured()) return NextResponse.json({ enabled: false, message: 'Set SERVER_SIGNER_KEYSTORE (or SERVER_SIGNER_PRIVATE_KEY) and SERVER_SIGNER_TOKENS to enable headless signing.' });
+  try {
+    return NextResponse.json({ enabled: true, signer: await serverSignerAddress(), message: 'POST unsigned provenance with Authorization: Bearer <token> to sign and publish it.' });
+  } catch (e) {
+    console.error('[sign-publish] signer unavailable', e);
+    return NextResponse.json({ enabled: false, error: 'Server signer unavailable', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
@@ -1,16 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { spawn } from 'child_process';
-import { promises as fs } from 'fs';
-import { join } from 'path';
-import crypto from 'crypto';
-import { summarizeWithProvider, ProviderName } from '../../../api/providers';
-import { addFile } from '../../../api/ipfs';
-import { domain, types, ZERO_HASH, ContentProvenanceValue, UnsignedProvenanceResponse } from '../../../api/types';
-import { callHostedProver, parseReceiptJournal, verifyReceipt, validateJournalBindings, sha256Hex as proverSha256 } from '../../../api/prover';
-
-// Configurable paths (keep binary path; gate execution behind flags)
-const ZK_HOST_BINARY = process.env.ZK_HOST_BINARY || (process.env.NODE_ENV === 'production' ? '/app/bin/zkhost' : './zk/target/release/zkhost');
-const TEMP_DIR = process.env.ZK_TEMP_DIR || (process.env.NODE_ENV === 'production' ? '/tmp' : './zk');
+import { ProviderName, getProvider } from '../../../api/providers';
+import { SummarizeStreamEvent } from '../../../api/types';
+import { runSummarize, SummarizeInput } from '../../../api/summarize';
+import { canonicalizeParams } from '../../../api/params';
+import { ChunkingOptions } from '../../../api/longDocument';
+import { getTemplate, resolveVariables } from '../../../api/templates';
+import { compileSchema, StructuredOptions } from '../../../api/structured';
+import { ConsensusOptions } from '../../../api/consensus';
+import { validateSources, SourceDocument } from '../../../api/sources';
+import type { ModerationReport } from '../../../api/moderation';
+import { validateProvenanceFields, CURRENT_PROVENANCE_VERSION, ParentRelation } from '../../../api/provenanceSchema';
+import { issuingChains, signingDomain } from '../../../api/domains';
+
+const MAX_CONSENSUS_PROVIDERS = 5;
 
 // Legacy response type replaced by UnsignedProvenanceResponse
 
@@ -20,305 +22,167 @@ export async function POST(req: NextRequest) {
     if (!body || typeof body.text !== 'string') {
       return NextResponse.json({ error: 'Missing text' }, { status: 400 });
     }
+    if (body.sources !== undefined) {
+      const errors = validateSources(body.sources);
+      if (errors.length) return NextResponse.json({ error: 'Invalid sources', details: errors.join(', ') }, { status: 400 });
+    }
 
-  const { text, signer = 'unknown', provider = 'mock', model, useZk = false, params }: { text: string; signer?: string; provider?: ProviderName; model?: string; useZk?: boolean; params?: Record<string, any> } = body;
+  const { text, signer = 'unknown', model, useZk = false, params, stream = false, fallback, strict, cache, cacheTtlMs, longDocument, chunking, templateId, templateVariables, structured, consensus, sources, mimeType, license, parent, chainId }: { text: string; signer?: string; provider?: ProviderName; model?: string; useZk?: boolean; params?: Record<string, any>; stream?: boolean; fallback?: ProviderName[]; strict?: boolean; cache?: boolean; cacheTtlMs?: number; longDocument?: boolean; chunking?: ChunkingOptions; templateId?: string; templateVariables?: Record<string, string>; structured?: StructuredOptions; consensus?: ConsensusOptions; sources?: SourceDocument[]; mimeType?: string; license?: string; parent?: { cid: string; relation?: ParentRelation }; chainId?: number } = body;
+    // Consensus requests name their providers in the list; the first one keys the cache
+    const provider: ProviderName = body.provider || (Array.isArray(consensus?.providers) && consensus!.providers[0]) || 'mock';
 
-    if (!text.trim()) return NextResponse.json({ error: 'Empty text' }, { status: 400 });
+    // With sources the text is an optional instruction or question
+    if (!text.trim() && !sources?.length) return NextResponse.json({ error: 'Empty text' }, { status: 400 });
     if (!signer) return NextResponse.json({ error: 'Missing signer' }, { status: 400 });
+    const providerDef = getProvider(provider);
+    if (!providerDef) return NextResponse.json({ error: `Unknown provider ${provider}` }, { status: 400 });
 
-    // Provider summary first (even if zk fails, we have something)
-  let providerSummaryData: { summary: string; model: string; modelHash: string };
-  const warnings: string[] = [];
-    try {
-      providerSummaryData = await summarizeWithProvider({ provider, text, model });
-    } catch (e) {
-      warnings.push('provider_failed_fallback_mock');
-      providerSummaryData = await summarizeWithProvider({ provider: 'mock', text });
+    // Reject params the provider cannot honor instead of signing a paramsHash that was never applied
+    const canonical = canonicalizeParams(params, providerDef);
+    if (canonical.errors.length) {
+      return NextResponse.json({ error: 'Unsupported generation params', details: canonical.errors.join(', ') }, { status: 400 });
     }
 
-  // Canonical param normalization (deterministic inference requirements)
-  const canonicalParams = canonicalizeParams(params);
-  const paramsHash = sha256Hex(JSON.stringify(canonicalParams));
-
-  // promptHash == hash of the original text (prompt)
-  const promptHash = sha256Hex(text);
-  const providerOutput = providerSummaryData.summary;
-  const outputHash = sha256Hex(providerOutput);
+    if (fallback !== undefined && (!Array.isArray(fallback) || fallback.some(f => typeof f !== 'string' || !getProvider(f)))) {
+      return NextResponse.json({ error: 'fallback must be a list of registered provider names' }, { status: 400 });
+    }
 
-  // Defaults for zk fields
-  let programHash = ZERO_HASH;      // will be real program/image hash or ZERO
-  let keywordsHash = ZERO_HASH;     // hash over canonical keywords JSON
-  let journalCid = '';
-  let proofCid = '';
-  let zkMode: 'disabled' | 'real' | 'mock' | 'failed' = 'disabled';
+    if (cacheTtlMs !== undefined && !(Number.isInteger(cacheTtlMs) && cacheTtlMs >= 0)) {
+      return NextResponse.json({ error: 'cacheTtlMs must be a non-negative integer' }, { status: 400 });
+    }
 
-  if (useZk) {
-      // TODO: Switch back to local rzup if needed
-      // Migrated from local proving to hosted proving for better scalability
-      const forceMock = process.env.MOCK_ZK === 'true';
-      if (forceMock) {
-        zkMode = 'mock';
-        const mock = await generateMockJournal(providerOutput);
-        programHash = mock.programHash;
-        keywordsHash = sha256Hex(JSON.stringify(mock.keywords));
-        try {
-          const [j, p] = await Promise.all([
-            safeAddFile(Buffer.from(JSON.stringify(mock.journalData))),
-            safeAddFile(Buffer.from('mock-proof'))
-          ]);
-          if (j) journalCid = j;
-          if (p) proofCid = p;
-        } catch {
-          warnings.push('mock_zk_ipfs_failed');
-        }
-      } else {
-        // Use hosted prover instead of local rzup execution
-        try {
-          console.log('[summarize] prover_request_start', { 
-            req_id: `req_${Date.now()}_${Math.random().toString(36).slice(2,8)}`,
-            image_id: 'default_image_id', // TODO: Get actual image_id from config
-            input_length: providerOutput.length 
-          });
-          
-          // Prepare request for hosted prover
-          const proverRequest = {
-            image_id: 'default_image_id', // TODO: Get actual image_id from config
-            input: providerOutput,
-            seed: Math.floor(Math.random() * 1000000),
-            model_fingerprint: providerSummaryData.modelHash || sha256Hex(providerSummaryData.model)
-          };
-          
-          // Call hosted prover
-          const proverResult = await callHostedProver(
-            proverRequest.image_id,
-            proverRequest.input,
-            proverRequest.model_fingerprint,
-            proverRequest.seed
-          );
-          
-          if (proverResult.success && proverResult.output && proverResult.receiptBytes) {
-            const output = proverResult.output;
-            const receiptBytes = proverResult.receiptBytes;
-            
-            // Verify receipt locally before proceeding
-            const verificationResult = verifyReceipt(receiptBytes, proverRequest.image_id);
-            if (!verificationResult.success) {
-              console.error('[summarize] prover_request_error', {
-                req_id: proverRequest.seed,
-                error: 'receipt_verification_failed',
-                details: verificationResult.error
-              });
-              zkMode = 'failed';
-              warnings.push('receipt_verification_failed');
-            } else {
-              // Parse journal and validate bindings
-              const journal = verificationResult.journal!;
-              const expectedInputHash = sha256Hex(proverRequest.input);
-              const expectedOutputHash = sha256Hex(JSON.stringify(output));
-              
-              const bindingValidation = validateJournalBindings(
-                journal,
-                expectedInputHash,
-                expectedOutputHash,
-                proverRequest.model_fingerprint
-              );
-              
-              if (!bindingValidation.valid) {
-                console.error('[summarize] prover_request_error', {
-                  req_id: proverRequest.seed,
-                  error: 'journal_binding_validation_failed',
-                  details: bindingValidation.errors
-                });
-                zkMode = 'failed';
-                warnings.push('journal_validation_failed');
-              } else {
-                zkMode = 'real';
-                const kws = journal.keywords || output.keywords || [];
-                keywordsHash = sha256Hex(JSON.stringify(kws));
-                programHash = journal.programHash ? toBytes32(programHashFromAny(journal.programHash)) : ZERO_HASH;
-                
-                console.log('[summarize] prover_request_success', {
-                  req_id: proverRequest.seed,
-                  image_id: proverRequest.image_id,
-                  program_hash: programHash
-                });
-                
-                try {
-                  const [j, p] = await Promise.all([
-                    safeAddFile(Buffer.from(JSON.stringify(journal))),
-                    safeAddFile(receiptBytes)
-                  ]);
-                  if (j) journalCid = j;
-                  if (p) proofCid = p;
-                } catch {
-                  warnings.push('hosted_zk_ipfs_failed');
-                }
-              }
-            }
-          } else {
-            console.error('[summarize] prover_request_error', {
-              req_id: proverRequest.seed,
-              error: 'prover_request_failed',
-              details: proverResult.error
-            });
-            zkMode = 'failed';
-            warnings.push('hosted_prover_failed');
-          }
-        } catch (error) {
-          console.error('[summarize] prover_request_error', {
-            error: 'prover_request_exception',
-            details: error instanceof Error ? error.message : String(error)
-          });
-          zkMode = 'failed';
-          warnings.push('hosted_prover_exception');
-        }
+    if (chunking !== undefined) {
+      const { chunkSize, overlap } = chunking || {};
+      const validSize = chunkSize === undefined || (Number.isInteger(chunkSize) && chunkSize >= 500);
+      const validOverlap = overlap === undefined || (Number.isInteger(overlap) && overlap >= 0);
+      if (!validSize || !validOverlap) {
+        return NextResponse.json({ error: 'chunking.chunkSize must be an integer >= 500 and chunking.overlap a non-negative integer' }, { status: 400 });
       }
     }
 
-    // Store raw provider content to IPFS (contentCid)
-  const contentCid = await addFile(Uint8Array.from(Buffer.from(providerOutput)));
-  // Store original prompt separately (not strictly required for verification but useful to reveal later)
-  let promptCid: string | undefined;
-  try { promptCid = await addFile(Uint8Array.from(Buffer.from(text))); } catch {}
+    if (templateId !== undefined) {
+      const template = typeof templateId === 'string' ? getTemplate(templateId) : undefined;
+      if (!template) return NextResponse.json({ error: `Unknown template ${templateId}` }, { status: 400 });
+      const { errors } = resolveVariables(template, templateVariables);
+      if (errors.length) return NextResponse.json({ error: 'Invalid template variables', details: errors.join(', ') }, { status: 400 });
+    }
 
-    const provenance: ContentProvenanceValue = {
-      version: 1,
-      modelId: providerSummaryData.model,
-      modelHash: providerSummaryData.modelHash || '',
-      promptHash,
-      outputHash,
-      paramsHash,
-      contentCid,
-      timestamp: Date.now(),
-      attestationStrategy: useZk ? (zkMode === 'real' ? 'zk-keywords' : zkMode === 'mock' ? 'zk-keywords-mock' : 'none') : 'none',
-      keywordsHash,
-      programHash: programHash === ZERO_HASH ? ZERO_HASH : programHash,
-      journalCid: journalCid || '',
-      proofCid: proofCid || ''
-    };
+    if (structured !== undefined) {
+      if (!structured || typeof structured.schema !== 'object' || Array.isArray(structured.schema)) {
+        return NextResponse.json({ error: 'structured.schema must be a JSON Schema object' }, { status: 400 });
+      }
+      if (structured.maxRetries !== undefined && !(Number.isInteger(structured.maxRetries) && structured.maxRetries >= 0)) {
+        return NextResponse.json({ error: 'structured.maxRetries must be a non-negative integer' }, { status: 400 });
+      }
+      if (longDocument) {
+        return NextResponse.json({ error: 'structured mode cannot be combined with longDocument' }, { status: 400 });
+      }
+      try {
+        compileSchema(structured.schema);
+      } catch (e) {
+        return NextResponse.json({ error: 'Invalid JSON Schema', details: e instanceof Error ? e.message : 'unknown' }, { status: 400 });
+      }
+    }
 
-    // Prune unused EIP-712 types to avoid ambiguity (we only sign ContentProvenance)
-    const prunedTypes: any = { ContentProvenance: types.ContentProvenance };
-    const unsigned: UnsignedProvenanceResponse = {
-      provenance,
-      domain,
-      types: prunedTypes,
-      primaryType: 'ContentProvenance',
-      providerOutput,
-      promptCid,
-      zk: useZk ? { mode: zkMode, journalCid, proofCid, warnings } : undefined
-    };
+    if (consensus !== undefined) {
+      const names = consensus?.providers;
+      if (!Array.isArray(names) || names.length < 2 || names.length > MAX_CONSENSUS_PROVIDERS || new Set(names).size !== names.length) {
+        return NextResponse.json({ error: `consensus.providers must list 2-${MAX_CONSENSUS_PROVIDERS} distinct providers` }, { status: 400 });
+      }
+      for (const name of names) {
+        const def = typeof name === 'string' ? getProvider(name) : undefined;
+        if (!def) return NextResponse.json({ error: `Unknown provider ${name}` }, { status: 400 });
+        const errors = canonicalizeParams(params, def).errors;
+        if (errors.length) return NextResponse.json({ error: 'Unsupported generation params', details: `${name}: ${errors.join(', ')}` }, { status: 400 });
+      }
+      const models = consensus.models;
+      if (models !== undefined && (typeof models !== 'object' || Object.values(models).some(m => typeof m !== 'string'))) {
+        return NextResponse.json({ error: 'consensus.models must map provider names to model names' }, { status: 400 });
+      }
+      if (longDocument || structured) {
+        return NextResponse.json({ error: 'consensus mode cannot be combined with longDocument or structured' }, { status: 400 });
+      }
+    }
 
+    // Content metadata and parent reference are signed as given; upgrades go through /api/upgrade-provenance
+    const lineage = parent === undefined ? undefined : { cid: parent?.cid, relation: parent?.relation || 'derived' };
+    if (lineage?.relation === 'upgrade') {
+      return NextResponse.json({ error: 'parent.relation upgrade is reserved for /api/upgrade-provenance' }, { status: 400 });
+    }
+    const metadataErrors = validateProvenanceFields({
+      version: CURRENT_PROVENANCE_VERSION,
+      mimeType: mimeType ?? 'text/plain',
+      license: license ?? '',
+      parentCid: lineage ? lineage.cid : '',
+      parentRelation: lineage ? lineage.relation : ''
+    });
+    if (metadataErrors.length) return NextResponse.json({ error: 'Invalid provenance metadata', details: metadataErrors.join(', ') }, { status: 400 });
+
+    // The envelope is issued under the EIP-712 domain of the wallet's chain
+    const domain = signingDomain(chainId);
+    if (!domain) return NextResponse.json({ error: `Unsupported chain ${chainId}`, details: `issuing on chains ${issuingChains().join(', ')}` }, { status: 400 });
+
+    const input: SummarizeInput = { text, signer, provider, model, useZk, params, fallback, strict, cache, cacheTtlMs, longDocument, chunking, templateId, templateVariables, structured, consensus, sources, mimeType, license, parent: lineage as SummarizeInput['parent'], domain };
+
+    // Streaming mode: tokens and stage events over SSE, final `result` event carries the envelope
+    const wantsStream = stream || (req.headers.get('accept') || '').includes('text/event-stream');
+    if (wantsStream) return streamSummarize(input);
+
+    const unsigned = await runSummarize(input);
     return NextResponse.json(unsigned);
   } catch (e) {
+    // Refused by the content policy: report which stage and checks matched
+    const moderation = (e as { moderation?: ModerationReport }).moderation;
+    if (moderation) {
+      return NextResponse.json({ error: 'Blocked by content policy', details: (e as Error).message, moderation }, { status: 403 });
+    }
     console.error('[summarize] error', e);
     return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
   }
 }
 
 export async function GET() {
-  return NextResponse.json({ message: 'POST text to summarize. Optional: { useZk: true }' });
+  return NextResponse.json({ message: 'POST text to summarize. Optional: { useZk: true, stream: true, cache: false, longDocument: true, structured: { schema }, consensus: { providers }, sources: [{ text, title?, url? }], license, mimeType, parent: { cid, relation }, chainId }' });
 }
 
 // ===== Helpers =====
 
-function sha256Hex(data: string | Buffer | Uint8Array) {
-  const buf: Buffer = typeof data === 'string' ? Buffer.from(data) : Buffer.isBuffer(data) ? data : Buffer.from(data);
-  const bytes = Uint8Array.from(buf);
-  return '0x' + crypto.createHash('sha256').update(bytes).digest('hex');
-}
-
-function generateSummaryText(keywords: Array<{ word: string; count: number }>): string {
-  if (!keywords.length) return 'No significant keywords found.';
-  return 'Key topics: ' + keywords.slice(0, 3).map(k => k.word).join(', ');
-}
-
-async function generateMockJournal(input: string) {
-  const words = input.toLowerCase().split(/\W+/).filter(w => w.length > 3);
-  const counts: Record<string, number> = {};
-  for (const w of words) counts[w] = (counts[w] || 0) + 1;
-  const keywords = Object.entries(counts).map(([word, count]) => ({ word, count })).sort((a,b)=>b.count-a.count).slice(0,10);
-  const programHash = sha256Hex('mock_program_v1');
-  const inputHash = sha256Hex(input);
-  const outputHash = sha256Hex(JSON.stringify(keywords));
-  const journalData = { keywords, programHash, inputHash, outputHash };
-  return { keywords, journalData, programHash, inputHash, outputHash };
-}
-
-async function runRealZK(text: string): Promise<{ success: boolean; journalData?: any; proofBytes?: Buffer; }>{
-  const session = `zk_${Date.now()}_${Math.random().toString(36).slice(2,8)}`;
-  await fs.mkdir(TEMP_DIR, { recursive: true });
-  const inputFile = join(TEMP_DIR, `${session}_input.txt`);
-  const journalFile = join(TEMP_DIR, `${session}_journal.json`);
-  const proofFile = join(TEMP_DIR, `${session}_proof.bin`);
-  await fs.writeFile(inputFile, text, 'utf8');
-  try {
-    const { success } = await runZKHost(inputFile, journalFile, proofFile);
-    if (!success) return { success: false };
-    const [journalRaw, proofBytes] = await Promise.all([
-      fs.readFile(journalFile, 'utf8'),
-      fs.readFile(proofFile)
-    ]);
-    let journalData: any;
-    try { journalData = JSON.parse(journalRaw); } catch { journalData = { raw: journalRaw }; }
-    return { success: true, journalData, proofBytes };
-  } finally {
-    Promise.allSettled([
-      fs.unlink(inputFile),
-      fs.unlink(journalFile),
-      fs.unlink(proofFile)
-    ]).catch(()=>{});
-  }
-}
-
-function runZKHost(inputFile: string, journalFile: string, proofFile: string): Promise<{ success: boolean; error?: string }>{
-  return new Promise(resolve => {
-    const args = ['--in', inputFile, '--out', journalFile, '--proof', proofFile];
-    const proc = spawn(ZK_HOST_BINARY, args, { stdio: ['ignore','pipe','pipe'] });
-    const timeout = setTimeout(() => {
-      proc.kill('SIGTERM');
-      setTimeout(()=>!proc.killed && proc.kill('SIGKILL'), 4000);
-      resolve({ success: false, error: 'timeout' });
-    }, 180000);
-    proc.on('close', code => { clearTimeout(timeout); resolve({ success: code === 0 }); });
-    proc.on('error', err => { clearTimeout(timeout); resolve({ success: false, error: err.message }); });
+function streamSummarize(input: SummarizeInput): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: SummarizeStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // Client disconnected; keep running so uploads complete, just stop writing
+          closed = true;
+        }
+      };
+      try {
+        const unsigned = await runSummarize(input, send);
+        send({ type: 'result', data: unsigned });
+      } catch (e) {
+        const blocked = !!(e as { moderation?: ModerationReport }).moderation;
+        if (!blocked) console.error('[summarize] stream error', e);
+        send({ type: 'stage', stage: 'error' });
+        send({ type: 'error', error: blocked ? 'Blocked by content policy' : 'Internal server error', details: e instanceof Error ? e.message : 'unknown' });
+      } finally {
+        if (!closed) {
+          try { controller.close(); } catch {}
+        }
+      }
+    }
   });
-}
-
-async function safeAddFile(buf: Buffer | Uint8Array | string): Promise<string | null> {
-  try {
-    const b: Buffer = typeof buf === 'string' ? Buffer.from(buf) : Buffer.isBuffer(buf) ? buf : Buffer.from(buf);
-    const bytes = Uint8Array.from(b);
-    return await addFile(bytes);
-  } catch { return null; }
-}
 
-// ----- Utility helpers for provenance -----
-function canonicalizeParams(p?: Record<string, any>): Record<string, any> {
-  const base: Record<string, any> = { temperature: 0, top_p: 1, ...(p || {}) };
-  const sorted: Record<string, any> = {};
-  for (const k of Object.keys(base).sort()) sorted[k] = base[k];
-  return sorted;
-}
-
-function toBytes32(hexish: string): string {
-  let h = hexish.trim();
-  if (h.startsWith('sha256:')) h = '0x' + h.slice(7);
-  if (!h.startsWith('0x')) h = '0x' + h;
-  h = h.toLowerCase();
-  // left pad if shorter than 66 chars (0x + 64)
-  if (h.length < 66) {
-    const nox = h.slice(2);
-    h = '0x' + nox.padStart(64, '0');
-  }
-  return h.slice(0, 66);
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
 }
-
-function programHashFromAny(value: string): string {
-  // Accept raw hex, sha256:<hex>, or other placeholder -> return hex body; fallback ZERO_HASH
-  if (!value) return ZERO_HASH;
-  if (value === '<FILLED_BY_HOST>') return ZERO_HASH;
-  if (value.startsWith('sha256:')) return value.slice(7);
-  if (value.startsWith('0x')) return value.slice(2);
-  return value;
-}
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeTemplates } from '../../../api/templates';
+
+// Prompt template catalog (optionally filtered by ?contentType=blog|email|report|code|creative)
+export async function GET(req: NextRequest) {
+  try {
+    const contentType = req.nextUrl.searchParams.get('contentType') || undefined;
+    return NextResponse.json({ templates: describeTemplates(contentType) });
+  } catch (e) {
+    console.error('[templates] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJson } from '../../../api/ipfs';
+import { UnsignedProvenanceResponse } from '../../../api/types';
+import { issuingChains, signingDomain } from '../../../api/domains';
+import {
+  CURRENT_PROVENANCE_VERSION,
+  isSupportedProvenanceVersion,
+  provenanceTypesFor,
+  upgradeProvenance,
+  validateProvenanceFields,
+  verifyProvenanceSignature
+} from '../../../api/provenanceSchema';
+
+/**
+ * Upgrade path for older records: POST { signedProvenanceCid, signer?, license?, mimeType?, chainId? }
+ * returns unsigned current-version provenance that carries every signed field over and
+ * references the older envelope as its parent (parentRelation 'upgrade'). Only a record whose
+ * signature verifies is upgraded, and only its own signer may re-sign it (checked again on
+ * publish). Sign it like /api/summarize output and publish via /api/publish; the stored
+ * preimages travel along.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const { signedProvenanceCid, signer, license, mimeType, chainId }: { signedProvenanceCid?: string; signer?: string; license?: string; mimeType?: string; chainId?: number } = body || {};
+    if (!signedProvenanceCid) return NextResponse.json({ error: 'signedProvenanceCid required' }, { status: 400 });
+
+    let envelope: any;
+    try {
+      envelope = await getJson(signedProvenanceCid);
+    } catch {
+      return NextResponse.json({ error: `Provenance ${signedProvenanceCid} not found` }, { status: 404 });
+    }
+    if (!envelope?.provenance || !isSupportedProvenanceVersion(envelope.provenance.version)) {
+      return NextResponse.json({ error: 'Invalid provenance envelope' }, { status: 400 });
+    }
+    if (envelope.provenance.version >= CURRENT_PROVENANCE_VERSION) {
+      return NextResponse.json({ error: `Provenance is already version ${envelope.provenance.version}` }, { status: 409 });
+    }
+    const parentSignature = await verifyProvenanceSignature(envelope);
+    if (!parentSignature.valid) {
+      return NextResponse.json({ error: 'Provenance signature invalid', details: parentSignature.error || 'the record was not signed by its claimed signer' }, { status: 400 });
+    }
+    if (signer && String(envelope.signer).toLowerCase() !== signer.toLowerCase()) {
+      return NextResponse.json({ error: 'Only the original signer can upgrade this record', details: `signed by ${envelope.signer}` }, { status: 403 });
+    }
+
+    const provenance = upgradeProvenance(envelope.provenance, signedProvenanceCid, { license, mimeType });
+    const errors = validateProvenanceFields(provenance);
+    if (errors.length) return NextResponse.json({ error: 'Invalid provenance metadata', details: errors.join(', ') }, { status: 400 });
+
+    // Re-signed on the connected chain (default: the chain the older record was signed on)
+    const domain = signingDomain(chainId ?? envelope.domain?.chainId);
+    if (!domain) return NextResponse.json({ error: `Unsupported chain ${chainId ?? envelope.domain?.chainId}`, details: `issuing on chains ${issuingChains().join(', ')}` }, { status: 400 });
+
+    const prunedTypes: any = provenanceTypesFor(CURRENT_PROVENANCE_VERSION);
+    const unsigned: UnsignedProvenanceResponse = {
+      provenance,
+      domain,
+      types: prunedTypes,
+      primaryType: 'ContentProvenance',
+      promptCid: envelope.promptCid,
+      params: envelope.params,
+      modelFingerprint: envelope.modelFingerprint,
+      outputSchema: envelope.outputSchema,
+      consensus: envelope.consensus,
+      moderationPolicy: envelope.moderationPolicy,
+      template: envelope.template
+    };
+    return NextResponse.json(unsigned);
+  } catch (e) {
+    console.error('[upgrade-provenance] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
+
+export function GET() {
+  return NextResponse.json({ message: 'POST signedProvenanceCid (optional: license, mimeType, chainId) to get an unsigned upgraded provenance referencing the older record.' });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { aggregateUsage, queryUsage, totalUsage, UsageGroupKey } from '../../../api/usageStore';
+
+const GROUP_KEYS: UsageGroupKey[] = ['signer', 'provider', 'model'];
+
+// Accepts epoch ms or any Date.parse-able string (e.g. 2024-05-01 or ISO timestamps)
+function parseTime(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  const n = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/*
+ Usage report for chargeback.
+ Query: from, to (time range), groupBy (comma list of signer,provider,model; default all three),
+ optional signer / provider / model filters.
+*/
+export async function GET(req: NextRequest) {
+  try {
+    const q = req.nextUrl.searchParams;
+    const from = parseTime(q.get('from'));
+    const to = parseTime(q.get('to'));
+    if (from === null || to === null) {
+      return NextResponse.json({ error: 'from/to must be epoch ms or a date string' }, { status: 400 });
+    }
+    const groupBy = (q.get('groupBy') || GROUP_KEYS.join(',')).split(',').map(s => s.trim()).filter(Boolean);
+    const invalid = groupBy.filter(k => !GROUP_KEYS.includes(k as UsageGroupKey));
+    if (invalid.length) {
+      return NextResponse.json({ error: `Unknown groupBy key(s): ${invalid.join(', ')}` }, { status: 400 });
+    }
+
+    const signer = q.get('signer');
+    const provider = q.get('provider');
+    const model = q.get('model');
+    const records = queryUsage(from, to).filter(r =>
+      (!signer || r.signer.toLowerCase() === signer.toLowerCase()) &&
+      (!provider || r.provider === provider) &&
+      (!model || r.model === model)
+    );
+
+    return NextResponse.json({
+      from: from ?? null,
+      to: to ?? null,
+      groupBy,
+      totals: totalUsage(records),
+      groups: aggregateUsage(records, groupBy as UsageGroupKey[])
+    });
+  } catch (e) {
+    console.error('[usage] error', e);
+    return NextResponse.json({ error: 'Internal server error', details: e instanceof Error ? e.message : 'unknown' }, { status: 500 });
+  }
+}
@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
 import { lookupByContentHash } from '../../../api/indexStore';
 import { getJson, getFile } from '../../../api/ipfs';
-import { verifyTypedData } from 'ethers';
-import { domain as defaultDomain, types as defaultTypes, ZERO_HASH } from '../../../api/types';
+import { domain as defaultDomain, ZERO_HASH } from '../../../api/types';
+import { checkSignatureDomain } from '../../../api/domains';
+import { verifyEnvelopeSignature, SignatureScheme } from '../../../api/signatures';
+import { decodeProvenance, isSupportedProvenanceVersion, provenanceTypesFor, provenanceTypesMatch } from '../../../api/provenanceSchema';
+import { checkDelegation } from '../../../api/delegation';
+import { checkRevocation } from '../../../api/revocation';
 
 interface SimpleVerifyBody { content: string; prompt?: string; }
 
@@ -40,18 +44,36 @@ export async function POST(req: NextRequest) {
     for (const cid of candidateCids) {
       try {
         const envelope = await getJson(cid);
-        if (!envelope?.provenance) continue;
-        const prov = envelope.provenance;
+        if (!envelope?.provenance || !isSupportedProvenanceVersion(envelope.provenance.version)) continue;
+        // The signature is only checked under the version's own types
+        if (envelope.types && !provenanceTypesMatch(envelope.types, envelope.provenance.version)) continue;
+        const prov = decodeProvenance(envelope.provenance);
         if (prov.outputHash.toLowerCase() !== outputHash.toLowerCase()) continue; // false positive (should not happen unless collision)
         const signature: string | undefined = envelope.signature;
         let recovered: string | null = null;
         let signatureValid = false;
-        if (signature) {
-          try {
-            recovered = verifyTypedData(envelope.domain || defaultDomain, envelope.types || defaultTypes, prov, signature);
-            signatureValid = true;
-          } catch {}
+        let signatureScheme: SignatureScheme | null = null;
+        if (signature && signature !== 'unsigned') {
+          const check = await verifyEnvelopeSignature({
+            domain: envelope.domain || defaultDomain,
+            types: provenanceTypesFor(envelope.provenance.version),
+            primaryType: 'ContentProvenance',
+            message: envelope.provenance,
+            signature,
+            signer: envelope.signer
+          });
+          recovered = check.recoveredSigner;
+          signatureValid = check.valid;
+          signatureScheme = check.scheme;
         }
+        // A signature under a domain off the allowlist does not count
+        const domainCheck = checkSignatureDomain(envelope.domain);
+        const domainAllowed = domainCheck.domain.allowed;
+        // A delegate's signature only counts with a certificate that authorizes the record
+        const delegationCheck = await checkDelegation(envelope.delegation, prov, envelope.signer, envelope.domain, cid);
+        const delegationValid = delegationCheck.issues.length === 0;
+        // The author may have revoked the record since
+        const { revocation } = await checkRevocation(cid, envelope);
         // Recompute prompt hash if prompt provided
         let promptMismatched = false;
         if (body.prompt) {
@@ -64,20 +86,36 @@ export async function POST(req: NextRequest) {
         const zkPresent = prov.attestationStrategy.startsWith('zk');
         const keywordsBound = zkPresent && prov.keywordsHash && prov.keywordsHash !== ZERO_HASH;
 
+        const verified = signatureValid && domainAllowed && delegationValid && !promptMismatched && !revocation;
         return NextResponse.json({
-          ok: signatureValid && !promptMismatched,
-            status: signatureValid && !promptMismatched ? 'verified' : (promptMismatched ? 'prompt_mismatch' : 'invalid_signature'),
+          ok: verified,
+            status: verified ? 'verified' : (promptMismatched ? 'prompt_mismatch' : !signatureValid ? 'invalid_signature' : !domainAllowed ? 'domain_not_allowed' : !delegationValid ? 'delegation_invalid' : 'revoked'),
           signedProvenanceCid: cid,
           signer: envelope.signer || recovered,
           recoveredSigner: recovered,
+          signatureScheme: signatureScheme || undefined,
           modelId: prov.modelId,
+          provider: prov.provider || undefined,
+          requestedProvider: prov.requestedProvider || undefined,
+          providerSubstituted: (!!prov.requestedProvider && !!prov.provider && prov.requestedProvider !== prov.provider) || undefined,
           attestation: prov.attestationStrategy,
           zkKeywordsIncluded: !!keywordsBound,
           timestamp: prov.timestamp,
+          domain: domainCheck.domain,
+          authorizedBy: delegationCheck.delegation?.issuer || undefined,
+          delegation: delegationCheck.delegation || undefined,
+          revoked: !!revocation,
+          revokedAt: revocation?.revokedAt || undefined,
+          revocation: revocation || undefined,
+          version: envelope.provenance.version,
+          mimeType: prov.mimeType,
+          license: prov.license || undefined,
+          parentCid: prov.parentCid || undefined,
           // Privacy: omit hashes by default
           details: {
             // Expose only if mismatched for debugging
             promptMismatch: promptMismatched || undefined,
+            delegationIssues: delegationCheck.issues.length ? delegationCheck.issues : undefined,
             signatureMissing: !signature ? true : undefined,
             signerMismatch: (recovered && envelope.signer && recovered.toLowerCase() !== envelope.signer.toLowerCase()) || undefined
           }
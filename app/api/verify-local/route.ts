@@ -1,10 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getJson, getFile } from '../../../api/ipfs';
-import { verifyTypedData } from 'viem';
+import { checkTemplateBinding } from '../../../api/templates';
+import { checkChatProvenance } from '../../../api/chat';
+import { checkSourcesProvenance } from '../../../api/sources';
+import { checkModeration } from '../../../api/moderation';
+import { checkSignatureDomain } from '../../../api/domains';
+import { verifyEnvelopeSignature, SignatureScheme } from '../../../api/signatures';
+import { checkParentProvenance, decodeProvenance, isSupportedProvenanceVersion, provenanceTypesFor, provenanceTypesMatch } from '../../../api/provenanceSchema';
+import { checkDelegation } from '../../../api/delegation';
+import { checkReview } from '../../../api/review';
+import { checkRevocation } from '../../../api/revocation';
 
 export async function POST(request: NextRequest) {
   try {
-    const { signedProvenanceCid, includeContent } = await request.json();
+    const { signedProvenanceCid, includeContent, source } = await request.json();
     
     if (!signedProvenanceCid) {
       return NextResponse.json({ error: 'signedProvenanceCid is required' }, { status: 400 });
@@ -35,8 +44,26 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (!isSupportedProvenanceVersion(signedProvenance.provenance.version)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unsupported provenance version',
+        details: `version ${signedProvenance.provenance.version}`
+      }, { status: 400 });
+    }
+    if (!provenanceTypesMatch(signedProvenance.types, signedProvenance.provenance.version)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid signed provenance structure',
+        details: `types are not the version ${signedProvenance.provenance.version} ContentProvenance types`
+      }, { status: 400 });
+    }
+    // Every check below reads the normalized model; the signature covers the value as signed
+    const provenance = decodeProvenance(signedProvenance.provenance);
+
     // Verify the signature
     let signatureValid = false;
+    let signatureScheme: SignatureScheme | null = null;
     let signatureError = null;
     try {
       // Skip signature verification for test signatures
@@ -44,15 +71,19 @@ export async function POST(request: NextRequest) {
         signatureValid = true; // Accept test signatures for development
         console.log('🔐 Test signature detected - skipping verification');
       } else {
-        signatureValid = await verifyTypedData({
-          address: signedProvenance.signer as `0x${string}`,
+        // ECDSA, then EIP-1271 / ERC-6492 for contract wallets such as a Safe
+        const check = await verifyEnvelopeSignature({
           domain: signedProvenance.domain,
-          types: signedProvenance.types,
+          types: provenanceTypesFor(signedProvenance.provenance.version),
           primaryType: 'ContentProvenance',
           message: signedProvenance.provenance,
-          signature: signedProvenance.signature as `0x${string}`
+          signature: signedProvenance.signature,
+          signer: signedProvenance.signer
         });
-        console.log(`🔐 Signature verification: ${signatureValid ? 'VALID' : 'INVALID'}`);
+        signatureValid = check.valid;
+        signatureScheme = check.scheme;
+        signatureError = check.error || null;
+        console.log(`🔐 Signature verification: ${signatureValid ? `VALID (${signatureScheme})` : 'INVALID'}`);
       }
     } catch (error) {
       console.error('❌ Signature verification failed:', error);
@@ -66,17 +97,17 @@ export async function POST(request: NextRequest) {
     let outputContent = null;
     let originalPrompt = null;
     
-    if (signedProvenance.provenance.contentCid) {
+    if (provenance.contentCid) {
       try {
         // Try to get content as raw data first
-        const contentData = await getFile(signedProvenance.provenance.contentCid);
+        const contentData = await getFile(provenance.contentCid);
         const contentText = new TextDecoder().decode(contentData);
         
         contentVerified = true;
         contentDetails = {
-          contentCid: signedProvenance.provenance.contentCid,
+          contentCid: provenance.contentCid,
           contentLength: contentText.length,
-          contentType: 'text',
+          contentType: provenance.mimeType,
           preview: contentText.substring(0, 100) + (contentText.length > 100 ? '...' : '')
         };
         
@@ -89,7 +120,7 @@ export async function POST(request: NextRequest) {
       } catch (error) {
         console.warn('⚠️ Content retrieval failed:', error);
         contentDetails = {
-          contentCid: signedProvenance.provenance.contentCid,
+          contentCid: provenance.contentCid,
           error: 'Content not accessible'
         };
       }
@@ -106,25 +137,94 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const { requestedProvider, provider } = provenance;
+    const warnings: string[] = [];
+    if (requestedProvider && provider && requestedProvider !== provider) warnings.push('provider_substituted');
+    const issues: string[] = signatureValid ? [] : ['signature_invalid'];
+    if (signatureError === 'rpc_not_configured') warnings.push('contract_signature_unchecked');
+
+    // Domain the signature was made under, checked against the allowlist
+    const domainCheck = checkSignatureDomain(signedProvenance.domain);
+    issues.push(...domainCheck.issues);
+
+    // Prompt template (shown by the CID panel)
+    let template: Record<string, any> | null = null;
+    if (provenance.templateId) {
+      const check = checkTemplateBinding(provenance.templateId, provenance.templateHash, signedProvenance.template?.variables);
+      issues.push(...check.issues);
+      warnings.push(...check.warnings);
+      template = check.template;
+    }
+
+    // Chat turn: transcript chain up to the signed head
+    const chatCheck = await checkChatProvenance(provenance);
+    issues.push(...chatCheck.issues);
+    warnings.push(...chatCheck.warnings);
+
+    // Source documents, and a supplied source file to confirm as one of the inputs
+    const sourcesCheck = await checkSourcesProvenance(provenance, { source: typeof source === 'string' ? source : undefined, includeContent });
+    issues.push(...sourcesCheck.issues);
+    warnings.push(...sourcesCheck.warnings);
+
+    // Content policy screening
+    const moderationCheck = checkModeration(provenance, signedProvenance.moderationPolicy);
+    issues.push(...moderationCheck.issues);
+    warnings.push(...moderationCheck.warnings);
+
+    // Parent reference (v10)
+    const parentCheck = await checkParentProvenance(provenance, signedProvenance.signer);
+    issues.push(...parentCheck.issues);
+    warnings.push(...parentCheck.warnings);
+
+    // Delegate signature: certificate chain up to the authorizing wallet
+    const delegationCheck = await checkDelegation(signedProvenance.delegation, provenance, signedProvenance.signer, signedProvenance.domain, signedProvenanceCid);
+    issues.push(...delegationCheck.issues);
+    warnings.push(...delegationCheck.warnings);
+
+    // Reviewer countersignatures
+    const reviewCheck = await checkReview(signedProvenanceCid, signedProvenance);
+    issues.push(...reviewCheck.issues);
+    warnings.push(...reviewCheck.warnings);
+
+    // Revocation by the author or its delegate
+    const revocationCheck = await checkRevocation(signedProvenanceCid, signedProvenance);
+    issues.push(...revocationCheck.issues);
+    warnings.push(...revocationCheck.warnings);
+    const revocation = revocationCheck.revocation;
+
     return NextResponse.json({
-      ok: true,
-      issues: signatureValid ? [] : ['signature_invalid'],
-      warnings: [],
-      provenance: signedProvenance.provenance,
+      ok: issues.length === 0,
+      issues,
+      warnings,
+      provenance,
+      template,
+      chat: chatCheck.chat,
+      sources: sourcesCheck.sources,
+      moderation: moderationCheck.moderation,
+      parent: parentCheck.parent,
+      domain: domainCheck.domain,
+      delegation: delegationCheck.delegation,
+      review: reviewCheck.review,
+      revoked: !!revocation,
+      revokedAt: revocation?.revokedAt ?? null,
+      revocation,
       signer: signedProvenance.signer,
       signature: signedProvenance.signature,
       outputContent,
       originalPrompt,
       success: true,
       signatureValid,
+      signatureScheme,
       contentVerified,
       signatureError,
       details: {
         signer: signedProvenance.signer,
-        timestamp: signedProvenance.provenance.timestamp,
-        modelId: signedProvenance.provenance.modelId,
-        attestationStrategy: signedProvenance.provenance.attestationStrategy,
-        programHash: signedProvenance.provenance.programHash,
+        timestamp: provenance.timestamp,
+        modelId: provenance.modelId,
+        requestedProvider: provenance.requestedProvider,
+        provider: provenance.provider,
+        attestationStrategy: provenance.attestationStrategy,
+        programHash: provenance.programHash,
         contentDetails
       },
       raw: signedProvenance
@@ -1,8 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getJson, getFile } from '../../../api/ipfs';
-import { ZERO_HASH, domain as defaultDomain, types as defaultTypes } from '../../../api/types';
-import { verifyTypedData } from 'ethers';
+import { ZERO_HASH, domain as defaultDomain } from '../../../api/types';
 import crypto from 'crypto';
+import { hashParams } from '../../../api/params';
+import { checkPinnedModelHash, fingerprintFromComponents } from '../../../api/model';
+import { checkTemplateBinding } from '../../../api/templates';
+import { compileSchema, schemaHash, validateStructured } from '../../../api/structured';
+import { checkChatProvenance } from '../../../api/chat';
+import { checkSourcesProvenance } from '../../../api/sources';
+import { checkModeration } from '../../../api/moderation';
+import { checkSignatureDomain } from '../../../api/domains';
+import { verifyEnvelopeSignature, SignatureScheme } from '../../../api/signatures';
+import { checkParentProvenance, decodeProvenance, isSupportedProvenanceVersion, provenanceTypesFor, provenanceTypesMatch } from '../../../api/provenanceSchema';
+import { checkDelegation } from '../../../api/delegation';
+import { checkReview } from '../../../api/review';
+import { checkRevocation } from '../../../api/revocation';
+import { ConsensusBundle, bundleHash, computeAgreement, extractKeywords } from '../../../api/consensus';
+import { ChunkManifest, chunkLeafHash, manifestRoot, merkleProof, reduceInput, verifyMerkleProof } from '../../../api/longDocument';
 
 /*
  Unified verification endpoint for new provenance objects.
@@ -17,6 +31,11 @@ interface ReqBody {
   proofCid?: string;         // allow override / tamper test
   expectKeywords?: boolean;  // require keywordsHash != ZERO
   includeContent?: boolean;  // if true, fetch content & include plaintext output + stored prompt (if promptCid present)
+  chunk?: string;            // long documents: text of one chunk to prove against the signed chunkRoot
+  chunkIndex?: number;       // optional position of `chunk` in the manifest
+  chatReply?: string;        // chat: quoted assistant reply to locate in the signed transcript
+  chatTurnIndex?: number;    // position the reply is claimed at (default: the signed turn)
+  source?: string;           // text of a source document to confirm as one of the inputs
 }
 
 export async function POST(req: NextRequest) {
@@ -24,17 +43,25 @@ export async function POST(req: NextRequest) {
     const body: ReqBody = await req.json();
     if (!body.signedProvenanceCid) return NextResponse.json({ error: 'signedProvenanceCid required' }, { status: 400 });
     const envelope = await getJson(body.signedProvenanceCid);
-  if (!envelope?.provenance) return NextResponse.json({ error: 'Invalid provenance envelope' }, { status: 400 });
+    if (!envelope?.provenance) return NextResponse.json({ error: 'Invalid provenance envelope' }, { status: 400 });
+    if (!isSupportedProvenanceVersion(envelope.provenance.version)) {
+      return NextResponse.json({ error: `Unsupported provenance version ${envelope.provenance.version}` }, { status: 400 });
+    }
+    if (envelope.types && !provenanceTypesMatch(envelope.types, envelope.provenance.version)) {
+      return NextResponse.json({ error: `Envelope types are not the version ${envelope.provenance.version} ContentProvenance types` }, { status: 400 });
+    }
 
-  const prov = envelope.provenance;
-  const signature: string | undefined = envelope.signature;
-  const claimedSigner: string | undefined = envelope.signer;
+    // Checks read the normalized model; the signature covers the value as signed
+    const signedValue = envelope.provenance;
+    const prov = decodeProvenance(signedValue);
+    const signature: string | undefined = envelope.signature;
+    const claimedSigner: string | undefined = envelope.signer;
     const issues: string[] = [];
     const warnings: string[] = [];
 
     // Basic structural sanity
     const must = ['promptHash','outputHash','paramsHash','contentCid'];
-    for (const f of must) if (!prov[f]) { issues.push(`missing_${f}`); }
+    for (const f of must) if (!(prov as any)[f]) { issues.push(`missing_${f}`); }
 
     // Hash helpers
     const sha256Hex = (data: string | Uint8Array) => {
@@ -56,6 +83,183 @@ export async function POST(req: NextRequest) {
       warnings.push('no_prompt_supplied');
     }
 
+    // Stored params (unsigned) must hash to the signed paramsHash
+    if (envelope.params) {
+      if (hashParams(envelope.params).toLowerCase() !== (prov.paramsHash || '').toLowerCase()) {
+        issues.push('params_hash_mismatch');
+      }
+    } else {
+      warnings.push('params_not_stored');
+    }
+
+    // Model weights: stored fingerprint components must rebuild modelHash, which must match the pin
+    if (envelope.modelFingerprint && (await fingerprintFromComponents(envelope.modelFingerprint)) !== prov.modelHash) {
+      issues.push('model_fingerprint_mismatch');
+    }
+    const modelHashPin = checkPinnedModelHash(prov.modelId || '', prov.modelHash || '', prov.provider);
+    if (modelHashPin === 'mismatch') issues.push('model_hash_mismatch');
+    else if (modelHashPin === 'unpinned' && prov.modelHash) warnings.push('model_hash_unpinned');
+
+    // Prompt template: re-render the instruction from the library and the stored variables
+    let template: Record<string, any> | null = null;
+    if (prov.templateId) {
+      const check = checkTemplateBinding(prov.templateId, prov.templateHash, envelope.template?.variables);
+      issues.push(...check.issues);
+      warnings.push(...check.warnings);
+      template = check.template;
+    }
+
+    // Structured output: the stored schema must hash to the signed schemaHash
+    const structuredBound = !!prov.schemaHash && prov.schemaHash !== ZERO_HASH;
+    let structured: Record<string, any> | null = null;
+    if (structuredBound) {
+      if (!envelope.outputSchema) {
+        warnings.push('schema_not_stored');
+        structured = { schemaHash: prov.schemaHash, verified: false };
+      } else {
+        const verified = schemaHash(envelope.outputSchema).toLowerCase() === prov.schemaHash.toLowerCase();
+        if (!verified) issues.push('schema_hash_mismatch');
+        structured = { schemaHash: prov.schemaHash, schema: envelope.outputSchema, verified };
+      }
+    }
+
+    // Long-document chunk manifest: rebuild the Merkle root and optionally prove one chunk
+    let chunks: Record<string, any> | null = null;
+    const chunkRootBound = !!prov.chunkRoot && prov.chunkRoot !== ZERO_HASH;
+    if (chunkRootBound && !prov.chunkManifestCid) {
+      issues.push('chunk_manifest_missing');
+    } else if (prov.chunkManifestCid) {
+      try {
+        const manifest: ChunkManifest = await getJson(prov.chunkManifestCid);
+        const root = manifestRoot(manifest);
+        if (root.toLowerCase() !== (prov.chunkRoot || '').toLowerCase()) issues.push('chunk_root_mismatch');
+        if ((manifest.promptHash || '').toLowerCase() !== (prov.promptHash || '').toLowerCase()) issues.push('chunk_manifest_prompt_mismatch');
+        if (manifest.chunks.some(c => sha256Hex(c.output).toLowerCase() !== c.outputHash.toLowerCase())) issues.push('chunk_output_hash_mismatch');
+        // Final output is the reduce output (or the only chunk's output)
+        const finalHash = manifest.reduce ? manifest.reduce.outputHash : manifest.chunks[0]?.outputHash;
+        if ((finalHash || '').toLowerCase() !== (prov.outputHash || '').toLowerCase()) issues.push('chunk_manifest_output_mismatch');
+        if (manifest.reduce && sha256Hex(reduceInput(manifest.chunks.map(c => c.output))).toLowerCase() !== manifest.reduce.inputHash.toLowerCase()) {
+          issues.push('chunk_reduce_input_mismatch');
+        }
+        // With the full prompt every chunk can be re-derived from its offsets
+        if (body.prompt && manifest.chunks.some(c => sha256Hex(body.prompt!.slice(c.start, c.end)).toLowerCase() !== c.chunkHash.toLowerCase())) {
+          issues.push('chunk_hash_mismatch');
+        }
+
+        let chunkProof: Record<string, any> | undefined;
+        if (typeof body.chunk === 'string') {
+          const chunkHash = sha256Hex(body.chunk).toLowerCase();
+          const record = manifest.chunks.find(c => c.chunkHash.toLowerCase() === chunkHash && (body.chunkIndex === undefined || c.index === body.chunkIndex));
+          if (!record) {
+            issues.push('chunk_not_in_manifest');
+          } else {
+            const leaves = manifest.chunks.map(chunkLeafHash);
+            const leaf = leaves[record.index];
+            const proof = merkleProof(leaves, record.index);
+            const verified = verifyMerkleProof(leaf, proof, prov.chunkRoot || '');
+            if (!verified) issues.push('chunk_proof_invalid');
+            chunkProof = { index: record.index, start: record.start, end: record.end, chunkHash: record.chunkHash, outputHash: record.outputHash, output: record.output, leaf, proof, verified };
+          }
+        }
+        chunks = { manifestCid: prov.chunkManifestCid, root: prov.chunkRoot, recomputedRoot: root, count: manifest.chunks.length, chunk: chunkProof };
+      } catch {
+        warnings.push('chunk_manifest_fetch_failed');
+      }
+    } else if (typeof body.chunk === 'string') {
+      issues.push('chunk_not_in_manifest');
+    }
+
+    // Consensus bundle: the manifest at bundleCid must hash to the signed bundleHash
+    const bundleBound = !!prov.bundleHash && prov.bundleHash !== ZERO_HASH;
+    let consensus: Record<string, any> | null = null;
+    if (bundleBound && !prov.bundleCid) {
+      issues.push('consensus_bundle_missing');
+    } else if (bundleBound) {
+      try {
+        const bundle: ConsensusBundle = await getJson(prov.bundleCid);
+        if (bundleHash(bundle).toLowerCase() !== prov.bundleHash.toLowerCase()) issues.push('consensus_bundle_mismatch');
+        if ((bundle.promptHash || '').toLowerCase() !== (prov.promptHash || '').toLowerCase()) issues.push('consensus_prompt_mismatch');
+        const selected = bundle.members[bundle.selected];
+        if (!selected || selected.outputHash.toLowerCase() !== (prov.outputHash || '').toLowerCase() || selected.contentCid !== prov.contentCid) {
+          issues.push('consensus_selected_mismatch');
+        }
+        const recomputed = computeAgreement(bundle.members.map(m => m.keywords));
+        if (recomputed.agreement.score !== bundle.agreement?.score || recomputed.selected !== bundle.selected) issues.push('consensus_score_mismatch');
+        // With includeContent every member output is fetched and re-hashed
+        const members = await Promise.all(bundle.members.map(async m => {
+          const summary: Record<string, any> = { provider: m.provider, modelId: m.modelId, outputHash: m.outputHash, contentCid: m.contentCid, keywords: m.keywords };
+          if (!body.includeContent) return summary;
+          try {
+            const text = new TextDecoder().decode(await getFile(m.contentCid));
+            summary.outputVerified = sha256Hex(text).toLowerCase() === m.outputHash.toLowerCase();
+            if (!summary.outputVerified) issues.push(`consensus_output_hash_mismatch:${m.provider}`);
+            else if (extractKeywords(text).join(',') !== m.keywords.join(',')) issues.push(`consensus_keywords_mismatch:${m.provider}`);
+          } catch {
+            warnings.push(`consensus_output_fetch_failed:${m.provider}`);
+          }
+          return summary;
+        }));
+        consensus = {
+          bundleCid: prov.bundleCid,
+          bundleHash: prov.bundleHash,
+          method: bundle.method,
+          score: bundle.agreement?.score,
+          pairwise: bundle.agreement?.pairwise,
+          selected: bundle.selected,
+          members,
+          failures: bundle.failures
+        };
+      } catch {
+        warnings.push('consensus_bundle_fetch_failed');
+      }
+    }
+
+    // Chat transcript: re-walk the hash chain up to the signed head and locate a quoted reply
+    const chatBound = !!prov.transcriptHead && prov.transcriptHead !== ZERO_HASH;
+    let chat: Record<string, any> | null = null;
+    if (chatBound || typeof body.chatReply === 'string') {
+      const check = await checkChatProvenance(prov, typeof body.chatReply === 'string' ? { reply: body.chatReply, turnIndex: body.chatTurnIndex } : undefined);
+      issues.push(...check.issues);
+      warnings.push(...check.warnings);
+      chat = check.chat;
+    }
+
+    // Source documents: rebuild the sources root and prove a supplied source
+    const sourcesCheck = await checkSourcesProvenance(prov, { source: typeof body.source === 'string' ? body.source : undefined, includeContent: body.includeContent });
+    issues.push(...sourcesCheck.issues);
+    warnings.push(...sourcesCheck.warnings);
+    const sources = sourcesCheck.sources;
+
+    // Content policy screening: stored policy against the signed hash
+    const moderationCheck = checkModeration(prov, envelope.moderationPolicy);
+    issues.push(...moderationCheck.issues);
+    warnings.push(...moderationCheck.warnings);
+    const moderation = moderationCheck.moderation;
+
+    // Parent reference (v10): lineage, and for an upgrade the carried-over older fields
+    const parentCheck = await checkParentProvenance(prov, claimedSigner);
+    issues.push(...parentCheck.issues);
+    warnings.push(...parentCheck.warnings);
+    const parent = parentCheck.parent;
+
+    // Delegate signature: certificate chain from the session key up to the authorizing wallet
+    const delegationCheck = await checkDelegation(envelope.delegation, prov, claimedSigner, envelope.domain, body.signedProvenanceCid);
+    issues.push(...delegationCheck.issues);
+    warnings.push(...delegationCheck.warnings);
+    const delegation = delegationCheck.delegation;
+
+    // Reviewer countersignatures and approval status under the review policy
+    const reviewCheck = await checkReview(body.signedProvenanceCid, envelope);
+    issues.push(...reviewCheck.issues);
+    warnings.push(...reviewCheck.warnings);
+    const review = reviewCheck.review;
+
+    // A revocation signed by the author (or a delegate of it) retires the record
+    const revocationCheck = await checkRevocation(body.signedProvenanceCid, envelope);
+    issues.push(...revocationCheck.issues);
+    warnings.push(...revocationCheck.warnings);
+    const revocation = revocationCheck.revocation;
+
     // Keywords expectations
     if (body.expectKeywords && (!prov.keywordsHash || prov.keywordsHash === ZERO_HASH)) {
       issues.push('expected_keywords_missing');
@@ -68,31 +272,37 @@ export async function POST(req: NextRequest) {
     if (body.journalCid && body.journalCid !== prov.journalCid) warnings.push('journalCid_override_used');
     if (body.proofCid && body.proofCid !== prov.proofCid) warnings.push('proofCid_override_used');
 
+    // Signed provider substitution (fallback chain answered instead of the requested provider)
+    const providerSubstituted = !!prov.requestedProvider && !!prov.provider && prov.requestedProvider !== prov.provider;
+    if (providerSubstituted) warnings.push('provider_substituted');
+
     // Program hash presence (strength signal)
     const programHashBound = prov.programHash && prov.programHash !== ZERO_HASH;
     if (!programHashBound && prov.attestationStrategy.startsWith('zk')) warnings.push('program_hash_not_bound');
 
-    // --- Signature recovery ---
+    // Signing domain must be on this deployment's allowlist (chain and deployment)
+    const domainCheck = checkSignatureDomain(envelope.domain);
+    issues.push(...domainCheck.issues);
+
+    // --- Signature recovery (ECDSA, then EIP-1271 / ERC-6492 for contract wallets) ---
     let recoveredSigner: string | null = null;
+    let signatureScheme: SignatureScheme | null = null;
     let signatureError: string | undefined;
     if (!signature || signature === 'unsigned') {
       // Treat explicit sentinel 'unsigned' as missing signature rather than invalid hex
       issues.push('missing_signature');
     } else {
-      try {
-        const dom = envelope.domain || defaultDomain;
-        let tps: any = envelope.types || defaultTypes;
-        // Prune unused types to avoid ethers v6 ambiguity error when multiple root-level types exist
-        if (tps && tps.ContentProvenance) {
-          tps = { ContentProvenance: tps.ContentProvenance };
-        }
-        recoveredSigner = verifyTypedData(dom, tps, prov, signature);
-        if (claimedSigner && recoveredSigner.toLowerCase() !== claimedSigner.toLowerCase()) {
-          issues.push('signature_recover_mismatch');
-        }
-      } catch (e: any) {
-        signatureError = e?.message || 'unknown';
-        issues.push('signature_invalid');
+      const dom = envelope.domain || defaultDomain;
+      // Always the signed version's types, never the ones stored in the envelope
+      const tps = provenanceTypesFor(signedValue.version);
+      const check = await verifyEnvelopeSignature({ domain: dom, types: tps, primaryType: 'ContentProvenance', message: signedValue, signature, signer: claimedSigner });
+      recoveredSigner = check.recoveredSigner;
+      signatureScheme = check.scheme;
+      signatureError = check.error;
+      if (!check.valid) {
+        // A recovered EOA that is not the claimed signer keeps its specific issue
+        issues.push(recoveredSigner ? 'signature_recover_mismatch' : 'signature_invalid');
+        if (check.error === 'rpc_not_configured') warnings.push('contract_signature_unchecked');
       }
     }
 
@@ -112,6 +322,18 @@ export async function POST(req: NextRequest) {
           if (recomputedOutputHash.toLowerCase() !== prov.outputHash.toLowerCase()) {
             issues.push('output_hash_mismatch');
           }
+          // Structured content must be canonical JSON that still satisfies the stored schema
+          if (structured?.verified) {
+            try {
+              const check = validateStructured(compileSchema(envelope.outputSchema), outputContent);
+              if (check.errors.length) issues.push('output_schema_invalid');
+              else if (check.canonical !== outputContent) issues.push('output_not_canonical');
+              structured.valid = check.errors.length === 0;
+              if (check.errors.length) structured.errors = check.errors;
+            } catch {
+              issues.push('output_schema_invalid');
+            }
+          }
         }
         if (envelope.promptCid) {
           const pbytes = await getFile(envelope.promptCid);
@@ -154,7 +376,9 @@ export async function POST(req: NextRequest) {
       issues,
       warnings,
       provenance: {
+        version: signedValue.version,
         modelId: prov.modelId,
+        modelHash: prov.modelHash || null,
         attestationStrategy: prov.attestationStrategy,
         programHash: prov.programHash,
         keywordsHash: prov.keywordsHash !== ZERO_HASH ? prov.keywordsHash : null,
@@ -164,12 +388,53 @@ export async function POST(req: NextRequest) {
         outputHash: prov.outputHash,
         promptHash: prov.promptHash,
         paramsHash: prov.paramsHash,
-        timestamp: prov.timestamp
+        timestamp: prov.timestamp,
+        requestedProvider: prov.requestedProvider || null,
+        provider: prov.provider || null,
+        chunkRoot: chunkRootBound ? prov.chunkRoot : null,
+        chunkManifestCid: prov.chunkManifestCid || null,
+        templateId: prov.templateId || null,
+        templateHash: prov.templateId ? prov.templateHash : null,
+        schemaHash: structuredBound ? prov.schemaHash : null,
+        bundleHash: bundleBound ? prov.bundleHash : null,
+        bundleCid: prov.bundleCid || null,
+        transcriptHead: chatBound ? prov.transcriptHead : null,
+        transcriptCid: prov.transcriptCid || null,
+        turnIndex: chatBound ? Number(prov.turnIndex) : null,
+        sourcesRoot: sources ? prov.sourcesRoot : null,
+        sourcesManifestCid: prov.sourcesManifestCid || null,
+        moderationPolicyId: prov.moderationPolicyId || null,
+        moderationPolicyHash: moderation ? prov.moderationPolicyHash : null,
+        moderationVerdict: prov.moderationVerdict || null,
+        mimeType: prov.mimeType,
+        license: prov.license || null,
+        parentCid: prov.parentCid || null,
+        parentRelation: prov.parentRelation || null
       },
+      parent,
+      review,
+      revoked: !!revocation,
+      revokedAt: revocation?.revokedAt ?? null,
+      revocation,
+      chat,
+      sources,
+      moderation,
+      template,
+      consensus,
+      structured,
+      chunks,
+      providerSubstituted,
+      params: envelope.params || null,
+      modelHashPin,
+      modelFingerprint: envelope.modelFingerprint || null,
       signer: claimedSigner,
+      authorizedBy: delegation?.issuer || null,
+      delegation,
       recoveredSigner,
+      signatureScheme,
       signature,
       signatureDomain: envelope.domain?.name || 'AIProof',
+      domain: domainCheck.domain,
       outputContent: outputContent && body.includeContent ? outputContent : undefined,
       originalPrompt: originalPrompt && body.includeContent ? originalPrompt : undefined,
       recomputed: body.includeContent ? {
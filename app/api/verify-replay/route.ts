@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJson } from '../../../api/ipfs';
+import { replayGeneration } from '../../../api/replay';
+import { decodeProvenance, isSupportedProvenanceVersion, verifyProvenanceSignature } from '../../../api/provenanceSchema';
+import { checkSignatureDomain } from '../../../api/domains';
+import { checkDelegation } from '../../../api/delegation';
+import { checkRevocation } from '../../../api/revocation';
+
+/*
+ Deterministic replay verification.
+ Required: signedProvenanceCid
+ Optional: includeOutput (return the signed and replayed outputs side by side)
+ Re-runs the signed generation on this server (local providers only) and reports whether
+ the output was reproduced bit-for-bit, or how far it diverged. Only an envelope whose
+ signature verifies under an allowed domain is re-run; delegation and revocation are
+ checked as in the other verify routes.
+*/
+
+interface ReqBody {
+  signedProvenanceCid: string;
+  includeOutput?: boolean;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body: ReqBody = await req.json();
+    if (!body.signedProvenanceCid) return NextResponse.json({ error: 'signedProvenanceCid required' }, { status: 400 });
+    const envelope = await getJson(body.signedProvenanceCid);
+    if (!envelope?.provenance) return NextResponse.json({ error: 'Invalid provenance envelope' }, { status: 400 });
+    if (!isSupportedProvenanceVersion(envelope.provenance.version)) {
+      return NextResponse.json({ error: `Unsupported provenance version ${envelope.provenance.version}` }, { status: 400 });
+    }
+
+    const prov = decodeProvenance(envelope.provenance);
+    const issues: string[] = [];
+    const warnings: string[] = [];
+
+    const domainCheck = checkSignatureDomain(envelope.domain);
+    issues.push(...domainCheck.issues);
+    const signatureCheck = await verifyProvenanceSignature(envelope);
+    if (!signatureCheck.valid) {
+      issues.push(envelope.signature && envelope.signature !== 'unsigned' ? 'signature_invalid' : 'missing_signature');
+      if (signatureCheck.error === 'rpc_not_configured') warnings.push('contract_signature_unchecked');
+    }
+    const delegationCheck = await checkDelegation(envelope.delegation, prov, envelope.signer, envelope.domain, body.signedProvenanceCid);
+    issues.push(...delegationCheck.issues);
+    warnings.push(...delegationCheck.warnings);
+    const revocationCheck = await checkRevocation(body.signedProvenanceCid, envelope);
+    issues.push(...revocationCheck.issues);
+    warnings.push(...revocationCheck.warnings);
+    const revocation = revocationCheck.revocation;
+    const authenticity = {
+      signer: envelope.signer,
+      signatureScheme: signatureCheck.scheme,
+      domain: domainCheck.domain,
+      authorizedBy: delegationCheck.delegation?.issuer || null,
+      delegation: delegationCheck.delegation,
+      revoked: !!revocation,
+      revokedAt: revocation?.revokedAt ?? null,
+      revocation
+    };
+
+    // Only what its signer vouched for is worth running on this server
+    if (!signatureCheck.valid || domainCheck.issues.length) {
+      return NextResponse.json({
+        signedProvenanceCid: body.signedProvenanceCid,
+        ok: false,
+        replayable: false,
+        reason: 'signature_not_verified',
+        ...authenticity,
+        issues,
+        warnings
+      });
+    }
+
+    const report = await replayGeneration(envelope, { includeOutput: !!body.includeOutput });
+    issues.push(...report.issues);
+    warnings.push(...report.warnings);
+    return NextResponse.json({
+      signedProvenanceCid: body.signedProvenanceCid,
+      ok: report.replayable && !!report.reproduced && issues.length === 0,
+      ...report,
+      ...authenticity,
+      issues,
+      warnings
+    });
+  } catch (e: any) {
+    console.error('[verify-replay] error', e);
+    return NextResponse.json({ error: 'Internal error', details: e?.message || 'unknown' }, { status: 500 });
+  }
+}
+
+export function GET() {
+  return NextResponse.json({ message: 'POST signedProvenanceCid (optional: includeOutput) to re-run a reproducible generation and compare outputHash.' });
+}
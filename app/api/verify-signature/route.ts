@@ -3,8 +3,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyTypedData } from 'viem';
-import { domain, types, SaveProof } from '../../../api/types';
+import { domain, types } from '../../../api/types';
+import { verifyEnvelopeSignature } from '../../../api/signatures';
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,17 +18,17 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Verify the EIP-712 signature
-    const isValid = await verifyTypedData({
-      address: signer as `0x${string}`,
+    // Verify the EIP-712 signature (EOA, or a contract wallet via EIP-1271 / ERC-6492)
+    const check = await verifyEnvelopeSignature({
       domain,
       types,
       primaryType: 'SaveProof',
-      message: value as SaveProof,
-      signature: signature as `0x${string}`,
+      message: value,
+      signature,
+      signer
     });
     
-    return NextResponse.json({ valid: isValid });
+    return NextResponse.json({ valid: check.valid, scheme: check.scheme });
   } catch (error) {
     console.error('Signature verification error:', error);
     
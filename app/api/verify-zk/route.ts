@@ -1,13 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getJson, getFile } from '../../../api/ipfs';
 import { ZERO_HASH } from '../../../api/types';
+import { checkSignatureDomain, DomainReport } from '../../../api/domains';
+import { decodeProvenance, isSupportedProvenanceVersion } from '../../../api/provenanceSchema';
+import { checkDelegation, DelegationReport } from '../../../api/delegation';
+import { checkRevocation, RevocationReport } from '../../../api/revocation';
 
 interface VerifyRequestBody { signedProvenanceCid: string; prompt?: string; }
 
 interface VerificationReport {
   ok: boolean;
+  version?: number;             // signed schema version
   signer?: string;
+  domain?: DomainReport;        // EIP-712 domain of the envelope
+  delegation?: DelegationReport | null; // certificate when a delegate signed
+  revoked?: boolean;
+  revokedAt?: number | null;    // signed revocation time (ms)
+  revocation?: RevocationReport | null;
   modelId?: string;
+  requestedProvider?: string;
+  provider?: string;
   issues: string[];
   warnings: string[];
   hashes: {
@@ -38,11 +50,17 @@ export async function POST(req: NextRequest) {
     if (!signed?.provenance) {
       return NextResponse.json({ error: 'Invalid signed provenance object' }, { status: 400 });
     }
-    const prov = signed.provenance;
+    if (!isSupportedProvenanceVersion(signed.provenance.version)) {
+      return NextResponse.json({ error: `Unsupported provenance version ${signed.provenance.version}` }, { status: 400 });
+    }
+    const prov = decodeProvenance(signed.provenance);
     const report: VerificationReport = {
       ok: true,
+      version: signed.provenance.version,
       signer: signed.signer,
       modelId: prov.modelId,
+      requestedProvider: prov.requestedProvider || undefined,
+      provider: prov.provider || undefined,
       issues,
       warnings,
       hashes: {
@@ -58,6 +76,35 @@ export async function POST(req: NextRequest) {
       } : undefined
     };
 
+    const domainCheck = checkSignatureDomain(signed.domain);
+    report.domain = domainCheck.domain;
+    if (domainCheck.issues.length) {
+      issues.push(...domainCheck.issues);
+      report.ok = false;
+    }
+
+    const delegationCheck = await checkDelegation(signed.delegation, prov, signed.signer, signed.domain, body.signedProvenanceCid);
+    report.delegation = delegationCheck.delegation;
+    warnings.push(...delegationCheck.warnings);
+    if (delegationCheck.issues.length) {
+      issues.push(...delegationCheck.issues);
+      report.ok = false;
+    }
+
+    const revocationCheck = await checkRevocation(body.signedProvenanceCid, signed);
+    report.revocation = revocationCheck.revocation;
+    report.revoked = !!revocationCheck.revocation;
+    report.revokedAt = revocationCheck.revocation?.revokedAt ?? null;
+    warnings.push(...revocationCheck.warnings);
+    if (revocationCheck.issues.length) {
+      issues.push(...revocationCheck.issues);
+      report.ok = false;
+    }
+
+    if (prov.requestedProvider && prov.provider && prov.requestedProvider !== prov.provider) {
+      warnings.push('provider_substituted');
+    }
+
     // Recompute output hash from contentCid
     if (prov.contentCid) {
       try {
@@ -1,5 +1,6 @@
 "use client";
 import { useState } from "react";
+import { useAccount, useChainId, useSignTypedData } from "wagmi";
 
 interface ProvenanceVerifyResponse {
   ok: boolean;
@@ -17,9 +18,85 @@ interface ProvenanceVerifyResponse {
     promptHash: string;
     paramsHash: string;
     timestamp: number;
+    requestedProvider?: string;
+    provider?: string;
+    templateId?: string | null;
+    templateHash?: string | null;
+    transcriptHead?: string | null;
+    turnIndex?: number | null;
+    version?: number;
+    mimeType?: string;
+    license?: string;
+    parentCid?: string;
+    parentRelation?: string;
   };
+  domain?: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+    label: string | null;
+    allowed: boolean;
+  };
+  parent?: {
+    cid: string;
+    relation: string;
+    version: number;
+    fieldsCarried?: boolean;
+  } | null;
+  review?: {
+    reviewCid: string;
+    policyId: string;
+    status: "approved" | "rejected" | "pending";
+    rules: Array<{ role: string | null; threshold: number; approvals: number; met: boolean }>;
+    approvals: Array<{ reviewer: string; role: string; decision: "approve" | "reject"; comment: string; timestamp: number; signatureValid: boolean; counted: boolean }>;
+  } | null;
+  revoked?: boolean;
+  revokedAt?: number | null;
+  revocation?: {
+    revokedAt: number;
+    reason: string;
+    note: string;
+    revoker: string;
+    delegatedBy: string | null;
+    revocationCid: string;
+  } | null;
+  delegation?: {
+    issuer: string;
+    delegate: string;
+    models: string[];
+    expiresAt: number;
+    maxCount: number;
+    used: number;
+    position: number | null;
+    issuerSignatureValid: boolean;
+  } | null;
+  chat?: {
+    sessionId: string;
+    turns: number;
+    brokenAt: number | null;
+  } | null;
+  moderation?: {
+    policyId: string;
+    policyHash: string;
+    verdict: string;
+    policyVerified: boolean | null;
+    currentPolicy: boolean | null;
+  } | null;
+  sources?: {
+    manifestCid: string;
+    entries: Array<{ index: number; title: string; url: string; cid: string; contentHash: string; contentVerified?: boolean }>;
+    match?: { found: boolean; index?: number; title?: string; verified?: boolean };
+  } | null;
+  template?: {
+    templateId: string;
+    name: string;
+    instruction?: string;
+    verified: boolean;
+  } | null;
   signer?: string;
   recoveredSigner?: string;
+  signatureScheme?: "ecdsa" | "eip1271" | "erc6492" | null;
   signature?: string;
   outputContent?: string;
   originalPrompt?: string;
@@ -75,12 +152,118 @@ export default function CidVerificationPanel() {
     return "";
   });
   const [includeContent] = useState(true);
+  // Optional source file to confirm as one of the generation's inputs
+  const [sourceFile, setSourceFile] = useState<{ name: string; text: string } | null>(null);
 
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<ProvenanceVerifyResponse | null>(null);
   const [zkResult, setZkResult] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  // Re-run of a reproducible generation (/api/verify-replay)
+  const [replaying, setReplaying] = useState(false);
+  const [replayResult, setReplayResult] = useState<any>(null);
+  // Reviewer countersignature (/api/review/approval, then /api/review)
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const { signTypedDataAsync } = useSignTypedData();
+  const [reviewRole, setReviewRole] = useState("editor");
+  const [reviewComment, setReviewComment] = useState("");
+  const [reviewing, setReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  // Revocation by the signer (/api/revocation/statement, then /api/revocation)
+  const [revokeReason, setRevokeReason] = useState("inaccurate");
+  const [revokeNote, setRevokeNote] = useState("");
+  const [revoking, setRevoking] = useState(false);
+  const [revokeError, setRevokeError] = useState<string | null>(null);
+
 
+  async function handleReplay() {
+    setReplaying(true);
+    setReplayResult(null);
+    try {
+      const res = await fetch("/api/verify-replay", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ signedProvenanceCid: signedProvenanceCid.trim() }),
+      });
+      const json = await res.json();
+      setReplayResult(res.ok ? json : { replayable: false, reason: json.details || json.error });
+    } catch (e) {
+      setReplayResult({ replayable: false, reason: e instanceof Error ? e.message : "replay_failed" });
+    } finally {
+      setReplaying(false);
+    }
+  }
+
+  async function handleReview(decision: "approve" | "reject") {
+    if (!result || !address) return;
+    setReviewing(true);
+    setReviewError(null);
+    try {
+      const cid = signedProvenanceCid.trim();
+      const res = await fetch("/api/review/approval", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ signedProvenanceCid: cid, role: reviewRole, decision, comment: reviewComment, chainId }),
+      });
+      const unsignedApproval = await res.json();
+      if (!res.ok) throw new Error(unsignedApproval.details || unsignedApproval.error);
+      const signature = await signTypedDataAsync({
+        domain: unsignedApproval.domain,
+        types: unsignedApproval.types,
+        primaryType: unsignedApproval.primaryType,
+        message: unsignedApproval.approval,
+      });
+      const submitRes = await fetch("/api/review", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ approval: unsignedApproval.approval, domain: unsignedApproval.domain, reviewer: address, signature }),
+      });
+      const submitted = await submitRes.json();
+      if (!submitRes.ok) throw new Error(submitted.details || submitted.error);
+      setResult({ ...result, review: submitted.review });
+      setReviewComment("");
+    } catch (e) {
+      setReviewError(e instanceof Error ? e.message : "Review failed");
+    } finally {
+      setReviewing(false);
+    }
+  }
+
+  async function handleRevoke() {
+    if (!result || !address) return;
+    setRevoking(true);
+    setRevokeError(null);
+    try {
+      const cid = signedProvenanceCid.trim();
+      const res = await fetch("/api/revocation/statement", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ signedProvenanceCid: cid, reason: revokeReason, note: revokeNote, chainId }),
+      });
+      const unsignedRevocation = await res.json();
+      if (!res.ok) throw new Error(unsignedRevocation.details || unsignedRevocation.error);
+      const signature = await signTypedDataAsync({
+        domain: unsignedRevocation.domain,
+        types: unsignedRevocation.types,
+        primaryType: unsignedRevocation.primaryType,
+        message: unsignedRevocation.revocation,
+      });
+      const submitRes = await fetch("/api/revocation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ revocation: unsignedRevocation.revocation, domain: unsignedRevocation.domain, revoker: address, signature }),
+      });
+      const submitted = await submitRes.json();
+      if (!submitRes.ok) throw new Error(submitted.details || submitted.error);
+      setResult({ ...result, revoked: true, revokedAt: submitted.revocation.revokedAt, revocation: submitted.revocation });
+      setRevokeNote("");
+    } catch (e) {
+      setRevokeError(e instanceof Error ? e.message : "Revocation failed");
+    } finally {
+      setRevoking(false);
+    }
+  }
 
   // Accept any non-empty string as a potential CID
   function isLikelyCid(str: string) {
@@ -105,6 +288,7 @@ export default function CidVerificationPanel() {
         body: JSON.stringify({
             signedProvenanceCid: signedProvenanceCid.trim(),
             includeContent,
+            source: sourceFile?.text,
           }),
       });
       const localJson = await localRes.json();
@@ -199,6 +383,23 @@ export default function CidVerificationPanel() {
           </div>
         </div>
 
+        <div>
+          <label className="block font-semibold text-slate-700 mb-2">
+            Source File (optional)
+          </label>
+          <input
+            type="file"
+            accept=".txt,.md,.html,.csv,.json,text/*"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              setSourceFile(file ? { name: file.name, text: await file.text() } : null);
+            }}
+            className="block w-full text-sm text-slate-600"
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Checked against the signed sources manifest to confirm it was one of the inputs.
+          </p>
+        </div>
 
         <div className="flex gap-3">
           <button
@@ -208,6 +409,14 @@ export default function CidVerificationPanel() {
           >
             {loading ? "⏳ Verifying..." : "🔍 Verify"}
           </button>
+          <button
+            onClick={handleReplay}
+            disabled={replaying || !signedProvenanceCid.trim()}
+            className="px-5 py-3 border-2 border-slate-200 text-slate-700 rounded-lg hover:border-blue-500 disabled:opacity-50"
+            title="Re-run the generation locally and compare the output hash"
+          >
+            {replaying ? "⏳ Replaying..." : "🔁 Replay"}
+          </button>
           <button
             onClick={() => {
               setSignedProvenanceCid("");
@@ -216,10 +425,12 @@ export default function CidVerificationPanel() {
               localStorage.removeItem('signedProvenanceCid');
               localStorage.removeItem('journalCid');
               localStorage.removeItem('proofCid');
+              setSourceFile(null);
 
               setResult(null);
               setZkResult(null);
               setError(null);
+              setReplayResult(null);
 
             }}
             className="px-5 py-3 border-2 border-slate-200 text-slate-600 rounded-lg hover:border-red-500 hover:text-red-600"
@@ -228,6 +439,28 @@ export default function CidVerificationPanel() {
           </button>
         </div>
         {error && <div className="text-sm text-red-600">{error}</div>}
+        {replayResult && (
+          <div className="bg-white border border-slate-200 rounded-lg p-4 text-sm space-y-1">
+            <h3 className="font-bold text-slate-800">🔁 Deterministic Replay</h3>
+            {!replayResult.replayable ? (
+              <div className="text-slate-600">Not replayable: {replayResult.reason}</div>
+            ) : replayResult.reproduced ? (
+              <div className="text-green-600">
+                ✓ Output reproduced bit-for-bit by {replayResult.provider} ({replayResult.model})
+              </div>
+            ) : (
+              <div className="text-red-600">
+                ✗ Replay by {replayResult.provider} ({replayResult.model}) diverged
+                {replayResult.divergence &&
+                  `: first difference at character ${replayResult.divergence.firstDivergence}, ` +
+                    `${(replayResult.divergence.similarity * 100).toFixed(1)}% word similarity`}
+              </div>
+            )}
+            {replayResult.warnings?.length > 0 && (
+              <div className="text-yellow-700">Warnings: {replayResult.warnings.join(", ")}</div>
+            )}
+          </div>
+        )}
         {result && (
           <>
             <div className="mt-6 space-y-6">
@@ -237,6 +470,15 @@ export default function CidVerificationPanel() {
                 <p className="text-slate-600">I've successfully verified the provided CIDs using both local verification and ZK proof verification. Here are the complete results:</p>
               </div>
 
+              {result.revocation && (
+                <div className="bg-red-50 border border-red-300 rounded-lg p-4 text-red-800">
+                  <span className="font-bold">⛔ Revoked</span> on {new Date(result.revocation.revokedAt).toLocaleString()} by{" "}
+                  {result.revocation.revoker.slice(0, 10)}…{result.revocation.delegatedBy && ` (delegate of ${result.revocation.delegatedBy.slice(0, 10)}…)`}
+                  {" "}— {result.revocation.reason.replace(/_/g, " ")}
+                  {result.revocation.note && `: “${result.revocation.note}”`}
+                </div>
+              )}
+
               {/* Local Verification Results */}
               <div className="bg-white border border-slate-200 rounded-lg p-6">
                 <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
@@ -253,6 +495,11 @@ export default function CidVerificationPanel() {
                       <span className="text-green-600 font-semibold">
                         {!result.issues?.some(i => ["signature_invalid", "signature_recover_mismatch", "missing_signature"].includes(i)) ? "true" : "false"}
                       </span>
+                      {result.signatureScheme && (
+                        <span className="text-xs text-slate-500">
+                          ({result.signatureScheme === "ecdsa" ? "EOA" : result.signatureScheme === "eip1271" ? "contract wallet, EIP-1271" : "counterfactual wallet, ERC-6492"})
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <span className="text-green-600">✅</span>
@@ -268,6 +515,116 @@ export default function CidVerificationPanel() {
                 </div>
               </div>
 
+              {/* Reviewer approvals */}
+              <div className="bg-white border border-slate-200 rounded-lg p-6">
+                <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+                  🖋️ Review
+                </h3>
+                <div className="space-y-2 text-sm">
+                  {result.review ? (
+                    <>
+                      <div>
+                        <span className="font-semibold">Approval Status:</span>{" "}
+                        <span className={result.review.status === "approved" ? "text-green-600 font-semibold" : result.review.status === "rejected" ? "text-red-600 font-semibold" : "text-amber-600 font-semibold"}>
+                          {result.review.status}
+                        </span>{" "}
+                        <span className="text-slate-500">
+                          (policy {result.review.policyId}:{" "}
+                          {result.review.rules.map((r) => `${r.approvals}/${r.threshold} ${r.role || "any role"}`).join(", ")})
+                        </span>
+                      </div>
+                      <ul className="space-y-1">
+                        {result.review.approvals.map((a, idx) => (
+                          <li key={idx} className={a.counted ? "" : "text-slate-400"}>
+                            {a.decision === "approve" ? "✓" : "✗"} {a.reviewer.slice(0, 10)}… as {a.role}
+                            {a.comment && ` — “${a.comment}”`}
+                            <span className="text-xs text-slate-500"> {new Date(a.timestamp).toLocaleString()}</span>
+                            {!a.signatureValid && <span className="text-red-600"> (invalid signature)</span>}
+                            {a.signatureValid && !a.counted && <span className="text-xs"> (superseded or not counted)</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  ) : (
+                    <div className="text-slate-500">Not reviewed yet.</div>
+                  )}
+                  {isConnected ? (
+                    <div className="flex flex-wrap items-center gap-2 pt-2">
+                      <input
+                        type="text"
+                        value={reviewRole}
+                        onChange={(e) => setReviewRole(e.target.value)}
+                        placeholder="Role"
+                        className="w-28 p-2 border-2 border-slate-200 rounded-lg text-sm focus:border-blue-500 focus:outline-none"
+                      />
+                      <input
+                        type="text"
+                        value={reviewComment}
+                        onChange={(e) => setReviewComment(e.target.value)}
+                        placeholder="Comment (optional)"
+                        className="flex-1 min-w-[12rem] p-2 border-2 border-slate-200 rounded-lg text-sm focus:border-blue-500 focus:outline-none"
+                      />
+                      <button
+                        onClick={() => handleReview("approve")}
+                        disabled={reviewing || !reviewRole.trim()}
+                        className="px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                      >
+                        ✓ Approve
+                      </button>
+                      <button
+                        onClick={() => handleReview("reject")}
+                        disabled={reviewing || !reviewRole.trim()}
+                        className="px-4 py-2 rounded-lg border-2 border-red-300 text-red-700 text-sm font-medium hover:border-red-500 disabled:opacity-50"
+                      >
+                        ✗ Reject
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="text-xs text-slate-500">Connect a wallet to countersign this record.</div>
+                  )}
+                  {reviewError && <div className="text-red-600">{reviewError}</div>}
+                </div>
+              </div>
+
+              {/* Revocation by the signer */}
+              {!result.revocation && isConnected && (
+                <div className="bg-white border border-slate-200 rounded-lg p-6">
+                  <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+                    ⛔ Revoke
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <select
+                      value={revokeReason}
+                      onChange={(e) => setRevokeReason(e.target.value)}
+                      className="p-2 border-2 border-slate-200 rounded-lg text-sm focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="inaccurate">Inaccurate</option>
+                      <option value="harmful">Harmful</option>
+                      <option value="superseded">Superseded</option>
+                      <option value="rights_issue">Rights issue</option>
+                      <option value="key_compromised">Key compromised</option>
+                      <option value="other">Other</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={revokeNote}
+                      onChange={(e) => setRevokeNote(e.target.value)}
+                      placeholder="Note (optional)"
+                      className="flex-1 min-w-[12rem] p-2 border-2 border-slate-200 rounded-lg text-sm focus:border-blue-500 focus:outline-none"
+                    />
+                    <button
+                      onClick={handleRevoke}
+                      disabled={revoking}
+                      className="px-4 py-2 rounded-lg bg-red-600 text-white text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Revoke record
+                    </button>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-2">Only the signer of this record (or a wallet it delegated to) can revoke it.</div>
+                  {revokeError && <div className="text-red-600 text-sm mt-2">{revokeError}</div>}
+                </div>
+              )}
+
               {/* Provenance Details */}
               {result.provenance && (
                 <div className="bg-white border border-slate-200 rounded-lg p-6">
@@ -281,6 +638,90 @@ export default function CidVerificationPanel() {
                     <div>
                       <span className="font-semibold">Model ID:</span> {result.provenance.modelId}
                     </div>
+                    {result.provenance.provider && (
+                      <div>
+                        <span className="font-semibold">Provider:</span> {result.provenance.provider}
+                        {result.provenance.requestedProvider &&
+                          result.provenance.requestedProvider !== result.provenance.provider && (
+                            <span className="text-amber-600"> (fallback; requested {result.provenance.requestedProvider})</span>
+                          )}
+                      </div>
+                    )}
+                    {result.provenance.templateId && (
+                      <div>
+                        <span className="font-semibold">Prompt Template:</span> {result.template?.name || result.provenance.templateId} ({result.provenance.templateId})
+                        {result.template?.verified ? (
+                          <span className="text-green-600"> ✓ instruction hash matches</span>
+                        ) : (
+                          <span className="text-amber-600"> (instruction not re-derived)</span>
+                        )}
+                        {result.template?.instruction && (
+                          <pre className="mt-1 text-xs bg-white border rounded p-2 whitespace-pre-wrap">{result.template.instruction}</pre>
+                        )}
+                      </div>
+                    )}
+                    {result.chat && (
+                      <div>
+                        <span className="font-semibold">Chat Turn:</span> {(result.provenance.turnIndex ?? 0) + 1} of session {result.chat.sessionId}
+                        {result.chat.brokenAt === null && !result.issues.includes("transcript_head_mismatch") ? (
+                          <span className="text-green-600"> ✓ transcript chain matches signed head</span>
+                        ) : (
+                          <span className="text-red-600"> ✗ transcript chain broken</span>
+                        )}
+                      </div>
+                    )}
+                    {result.moderation && (
+                      <div>
+                        <span className="font-semibold">Content Policy:</span> {result.moderation.policyId} — {result.moderation.verdict}
+                        {result.moderation.policyVerified === false ? (
+                          <span className="text-red-600"> ✗ stored policy does not match signed hash</span>
+                        ) : result.moderation.currentPolicy === false ? (
+                          <span className="text-yellow-700"> (policy has changed since)</span>
+                        ) : null}
+                      </div>
+                    )}
+                    {result.domain && (
+                      <div>
+                        <span className="font-semibold">Signed Under:</span> {result.domain.name} v{result.domain.version} ·{" "}
+                        {result.domain.label || `chain ${result.domain.chainId}`}
+                        {result.domain.allowed ? (
+                          <span className="text-green-600"> ✓</span>
+                        ) : (
+                          <span className="text-red-600"> ✗ domain not on this verifier's allowlist</span>
+                        )}
+                      </div>
+                    )}
+                    {result.delegation && (
+                      <div className="md:col-span-2">
+                        <span className="font-semibold">Authorized By:</span> {result.delegation.issuer} (session key{" "}
+                        {result.delegation.delegate.slice(0, 10)}…, until {new Date(result.delegation.expiresAt).toLocaleString()}
+                        {result.delegation.maxCount > 0 && `, ${result.delegation.position ?? "?"} of ${result.delegation.maxCount}`}
+                        {result.delegation.models.length > 0 && `, ${result.delegation.models.join(", ")}`})
+                        {!result.issues.some(i => i.startsWith("delegation_")) ? (
+                          <span className="text-green-600"> ✓</span>
+                        ) : (
+                          <span className="text-red-600"> ✗ {result.issues.filter(i => i.startsWith("delegation_")).join(", ")}</span>
+                        )}
+                      </div>
+                    )}
+                    <div>
+                      <span className="font-semibold">Schema:</span> v{result.provenance.version ?? 1}
+                      {result.provenance.mimeType && ` · ${result.provenance.mimeType}`}
+                      {result.provenance.license && ` · ${result.provenance.license}`}
+                    </div>
+                    {result.provenance.parentCid && (
+                      <div className="md:col-span-2">
+                        <span className="font-semibold">Parent ({result.provenance.parentRelation}):</span>{" "}
+                        <span className="font-mono text-xs break-all">{result.provenance.parentCid}</span>
+                        {result.parent?.fieldsCarried === false ? (
+                          <span className="text-red-600"> ✗ upgraded fields differ from the v{result.parent.version} record</span>
+                        ) : result.parent?.fieldsCarried ? (
+                          <span className="text-green-600"> ✓ carries every v{result.parent.version} field</span>
+                        ) : !result.parent ? (
+                          <span className="text-amber-600"> (parent not found)</span>
+                        ) : null}
+                      </div>
+                    )}
                     <div>
                       <span className="font-semibold">Attestation Strategy:</span> {result.provenance.attestationStrategy}
                     </div>
@@ -322,6 +763,49 @@ export default function CidVerificationPanel() {
                 </div>
               )}
 
+              {/* Source Documents */}
+              {result.sources && (
+                <div className="bg-white border border-slate-200 rounded-lg p-6">
+                  <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2">
+                    📚 Source Documents
+                  </h3>
+                  <div className="space-y-3 text-sm">
+                    {result.issues.includes("sources_root_mismatch") ? (
+                      <div className="text-red-600 font-semibold">✗ Sources manifest does not match the signed root</div>
+                    ) : (
+                      <div className="text-green-600">✓ Sources manifest matches the signed root</div>
+                    )}
+                    <ol className="list-decimal ml-5 space-y-1">
+                      {result.sources.entries.map((s) => (
+                        <li key={s.index}>
+                          <span className="font-semibold">{s.title || `Source ${s.index + 1}`}</span>
+                          {s.url && (
+                            <>
+                              {" "}
+                              <a href={s.url} target="_blank" rel="noreferrer" className="text-blue-600 underline break-all">{s.url}</a>
+                            </>
+                          )}
+                          <span className="font-mono text-xs text-slate-500 break-all"> ({s.cid})</span>
+                          {s.contentVerified === false && <span className="text-red-600"> ✗ stored content altered</span>}
+                        </li>
+                      ))}
+                    </ol>
+                    {result.sources.match && (
+                      result.sources.match.found && result.sources.match.verified ? (
+                        <div className="p-3 bg-green-50 border border-green-200 rounded text-green-700">
+                          ✅ {sourceFile?.name || "Supplied file"} is source {(result.sources.match.index ?? 0) + 1}
+                          {result.sources.match.title ? ` (${result.sources.match.title})` : ""} of this generation
+                        </div>
+                      ) : (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded text-red-700">
+                          ❌ {sourceFile?.name || "Supplied file"} was not one of the inputs
+                        </div>
+                      )
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* ZK Proof Verification */}
               {(result.provenance?.journalCid || result.provenance?.proofCid || zkResult) && (
                 <div className="bg-white border border-slate-200 rounded-lg p-6">
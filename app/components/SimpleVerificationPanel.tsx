@@ -8,9 +8,15 @@ interface SimpleResult {
   recoveredSigner?: string;
   signedProvenanceCid?: string;
   modelId?: string;
+  provider?: string;
+  requestedProvider?: string;
+  providerSubstituted?: boolean;
   attestation?: string;
   zkKeywordsIncluded?: boolean;
   timestamp?: number;
+  revoked?: boolean;
+  revokedAt?: number;
+  revocation?: { reason: string; note: string; revoker: string };
   details?: {
     promptMismatch?: boolean;
     signatureMissing?: boolean;
@@ -142,8 +148,14 @@ export default function SimpleVerificationPanel() {
                     result.ok ? "text-green-800" : "text-red-800"
                   }`}
                 >
-                  {result.ok ? "Authentic & Untampered" : "Not Verified"}
+                  {result.ok ? "Authentic & Untampered" : result.revoked ? "Revoked by Its Signer" : "Not Verified"}
                 </p>
+                {result.revoked && result.revokedAt && (
+                  <div className="text-red-700 font-medium">
+                    Revoked {new Date(result.revokedAt).toLocaleString()}
+                    {result.revocation && ` (${result.revocation.reason.replace(/_/g, " ")}${result.revocation.note ? `: ${result.revocation.note}` : ""})`}
+                  </div>
+                )}
                 {result.signedProvenanceCid && (
                   <div>
                     <span className="font-medium">Provenance Record:</span>{" "}
@@ -168,6 +180,18 @@ export default function SimpleVerificationPanel() {
                     {result.modelId}
                   </div>
                 )}
+                {result.provider && (
+                  <div>
+                    <span className="font-medium">Provider:</span>{" "}
+                    {result.provider}
+                    {result.providerSubstituted && (
+                      <span className="text-amber-700 font-medium">
+                        {" "}
+                        (fallback; requested {result.requestedProvider})
+                      </span>
+                    )}
+                  </div>
+                )}
                 {result.attestation && (
                   <div>
                     <span className="font-medium">Attestation:</span>{" "}
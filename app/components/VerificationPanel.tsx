@@ -20,11 +20,26 @@ interface ProvenanceVerificationResponse {
     promptHash: string;
     paramsHash: string;
     timestamp: number;
+    version?: number;
+    mimeType?: string;
+    license?: string | null;
+    parentCid?: string | null;
+    parentRelation?: string | null;
   };
   signer?: string;
   signature?: string;
   signatureDomain?: string;
+  domain?: { chainId: number; verifyingContract: string; label: string | null; allowed: boolean };
   recoveredSigner?: string;
+  signatureScheme?: "ecdsa" | "eip1271" | "erc6492" | null;
+  revocation?: { revokedAt: number; reason: string; note: string; revoker: string } | null;
+  review?: { status: "approved" | "rejected" | "pending"; policyId: string; rules: Array<{ role: string | null; threshold: number; approvals: number }> } | null;
+  delegation?: { issuer: string; delegate: string; expiresAt: number; maxCount: number; position: number | null } | null;
+  moderation?: { policyId: string; verdict: string; policyVerified: boolean | null } | null;
+  sources?: {
+    entries: Array<{ index: number; title: string; url: string; cid: string }>;
+    match?: { found: boolean; index?: number; verified?: boolean };
+  } | null;
 }
 
 interface ZkVerificationReport {
@@ -48,6 +63,7 @@ export default function VerificationPanel({
   const [journalCid, setJournalCid] = useState("");
   const [proofCid, setProofCid] = useState("");
   const [promptText, setPromptText] = useState("");
+  const [sourceText, setSourceText] = useState("");
   // Default to false so non-zk provenance doesn't look like a failure.
   const [expectKeywords, setExpectKeywords] = useState(false);
 
@@ -65,6 +81,7 @@ export default function VerificationPanel({
     setJournalCid("");
     setProofCid("");
     setPromptText("");
+    setSourceText("");
     setExpectKeywords(true);
     setProvResult(null);
     setZkResult(null);
@@ -91,6 +108,7 @@ export default function VerificationPanel({
         body: JSON.stringify({
           signedProvenanceCid: signedProvenanceCid.trim(),
           prompt: promptText.trim() || undefined,
+          source: sourceText || undefined,
           journalCid: journalCid.trim() || undefined,
           proofCid: proofCid.trim() || undefined,
           expectKeywords,
@@ -252,14 +270,86 @@ export default function VerificationPanel({
                     {provResult.recoveredSigner}
                   </div>
                 )}
+                {provResult.signatureScheme && (
+                  <div>
+                    <span className="font-medium">Signature Scheme:</span> {provResult.signatureScheme}
+                  </div>
+                )}
                 {provResult.recoveredSigner &&
                   provResult.signer &&
+                  provResult.signatureScheme !== "eip1271" &&
+                  provResult.signatureScheme !== "erc6492" &&
                   provResult.recoveredSigner.toLowerCase() !==
                     provResult.signer.toLowerCase() && (
                     <div className="col-span-2 text-red-700 font-semibold">
                       Signer Mismatch Detected
                     </div>
                   )}
+                {provResult.revocation && (
+                  <div className="col-span-2 text-red-700 font-semibold">
+                    Revoked {new Date(provResult.revocation.revokedAt).toLocaleString()} by {provResult.revocation.revoker} ({provResult.revocation.reason.replace(/_/g, " ")}
+                    {provResult.revocation.note && `: ${provResult.revocation.note}`})
+                  </div>
+                )}
+                <div className="col-span-2">
+                  <span className="font-medium">Review:</span>{" "}
+                  {provResult.review ? (
+                    <>
+                      <span className={provResult.review.status === "approved" ? "text-green-700" : provResult.review.status === "rejected" ? "text-red-700" : "text-yellow-700"}>
+                        {provResult.review.status}
+                      </span>{" "}
+                      ({provResult.review.rules.map((r) => `${r.approvals}/${r.threshold} ${r.role || "any role"}`).join(", ")})
+                    </>
+                  ) : (
+                    "not reviewed"
+                  )}
+                </div>
+                {provResult.delegation && (
+                  <div className="col-span-2">
+                    <span className="font-medium">Authorized by:</span> {provResult.delegation.issuer}{" "}
+                    (delegated until {new Date(provResult.delegation.expiresAt).toLocaleString()}
+                    {provResult.delegation.maxCount > 0 && `, record ${provResult.delegation.position ?? "?"} of ${provResult.delegation.maxCount}`})
+                    {provResult.issues.some((i) => i.startsWith("delegation_")) && (
+                      <span className="text-red-700"> — {provResult.issues.filter((i) => i.startsWith("delegation_")).join(", ")}</span>
+                    )}
+                  </div>
+                )}
+                {provResult.domain && (
+                  <div className="col-span-2">
+                    <span className="font-medium">Signed under:</span>{" "}
+                    {provResult.domain.label || `chain ${provResult.domain.chainId}`} ({provResult.domain.verifyingContract})
+                    {!provResult.domain.allowed && <span className="text-red-700"> — domain not allowed</span>}
+                  </div>
+                )}
+                <div className="col-span-2">
+                  <span className="font-medium">Schema:</span> v{provResult.provenance.version ?? 1}
+                  {provResult.provenance.mimeType && ` · ${provResult.provenance.mimeType}`}
+                  {provResult.provenance.license && ` · ${provResult.provenance.license}`}
+                  {provResult.provenance.parentCid && ` · ${provResult.provenance.parentRelation} of ${provResult.provenance.parentCid}`}
+                </div>
+                {provResult.moderation && (
+                  <div className="col-span-2">
+                    <span className="font-medium">Content policy:</span> {provResult.moderation.policyId} ({provResult.moderation.verdict})
+                    {provResult.moderation.policyVerified === false && (
+                      <span className="text-red-700"> — policy does not match signed hash</span>
+                    )}
+                  </div>
+                )}
+                {provResult.sources && (
+                  <div className="col-span-2">
+                    <span className="font-medium">Sources:</span>{" "}
+                    {provResult.sources.entries
+                      .map((s) => s.title || s.url || `Source ${s.index + 1}`)
+                      .join(", ")}
+                    {provResult.sources.match && (
+                      <span className={provResult.sources.match.verified ? "text-green-700" : "text-red-700"}>
+                        {provResult.sources.match.verified
+                          ? ` — supplied source is #${(provResult.sources.match.index ?? 0) + 1}`
+                          : " — supplied source was not an input"}
+                      </span>
+                    )}
+                  </div>
+                )}
                 {zkResult?.zk?.mode && (
                   <div>
                     <span className="font-medium">ZK Mode:</span>{" "}
@@ -404,6 +494,20 @@ export default function VerificationPanel({
             placeholder="Paste original prompt to recompute promptHash"
           />
         </div>
+        <div>
+          <label className="block font-semibold text-slate-700 mb-2">
+            Source Document (optional)
+          </label>
+          <input
+            type="file"
+            accept=".txt,.md,.html,.csv,.json,text/*"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              setSourceText(file ? await file.text() : "");
+            }}
+            className="block w-full text-sm text-slate-600"
+          />
+        </div>
         <div className="flex items-center gap-2">
           <input
             id="expectKeywords"
@@ -3,7 +3,9 @@
 import { useState, useEffect } from "react";
 import { useAccount, useSignTypedData, useChainId } from "wagmi";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { Wallet } from "ethers";
 import CidVerificationPanel from "./components/CidVerificationPanel";
+import ContentTypeSelector from "./components/ContentTypeSelector";
 
 interface UnsignedProvenanceResponse {
   provenance: any; // ContentProvenanceValue from backend
@@ -12,6 +14,28 @@ interface UnsignedProvenanceResponse {
   primaryType: string;
   providerOutput?: string;
   promptCid?: string;
+  params?: Record<string, any>;
+  modelFingerprint?: Record<string, any>;
+  template?: { templateId: string; variables: Record<string, string> };
+  outputSchema?: Record<string, any>;
+  structured?: { attempts: number };
+  consensus?: {
+    members: Array<{ provider: string; modelId: string; outputHash: string; contentCid: string }>;
+    failures: Array<{ provider: string; error: string }>;
+    agreement: { score: number };
+    selected: number;
+  };
+  sources?: Array<{ index: number; title: string; url: string; cid: string }>;
+  moderation?: { policyId: string; verdict: string };
+  moderationPolicy?: Record<string, any>;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimated?: boolean;
+    latencyMs?: number;
+    costUsd?: number | null;
+  };
   zk?: {
     mode: string;
     journalCid?: string;
@@ -20,12 +44,114 @@ interface UnsignedProvenanceResponse {
   };
 }
 
+interface ProviderOption {
+  name: string;
+  displayName: string;
+  defaultModel: string;
+  models: string[];
+  configured: boolean;
+  health?: {
+    available: boolean;
+    latencyMs: number | null;
+    models: string[];
+    error?: string;
+  };
+}
+
+interface TemplateOption {
+  templateId: string;
+  contentType: string;
+  name: string;
+  description: string;
+  variables: Array<{ name: string; label: string; default: string; options?: string[] }>;
+}
+
+type StreamEvent =
+  | { type: "token"; token: string }
+  | { type: "stage"; stage: string; detail?: string }
+  | { type: "result"; data: UnsignedProvenanceResponse }
+  | { type: "error"; error: string; details?: string };
+
+const stageLabels: Record<string, string> = {
+  moderating: "Screening against content policy",
+  queued: "Waiting for provider",
+  generating: "Generating",
+  cached: "Using cached result",
+  mapping: "Summarizing chunks",
+  reducing: "Combining chunk summaries",
+  consensus: "Collecting provider outputs",
+  proving: "Proving",
+  uploading: "Uploading to IPFS",
+  "envelope-ready": "Envelope ready",
+  error: "Failed",
+};
+
+const DEFAULT_SCHEMA = JSON.stringify(
+  {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      summary: { type: "string" },
+      keyPoints: { type: "array", items: { type: "string" } },
+    },
+    required: ["title", "summary", "keyPoints"],
+    additionalProperties: false,
+  },
+  null,
+  2
+);
+
+// Session key scope requested from the wallet: any model, 8 hours, 100 records
+const SESSION_KEY_TTL_MS = 8 * 60 * 60 * 1000;
+const SESSION_KEY_MAX_COUNT = 100;
+const SESSION_KEY_STORAGE = "aiproof.sessionDelegation";
+
+interface SessionDelegation {
+  privateKey: string;
+  delegation: {
+    certificate: { delegate: string; expiresAt: number; maxCount: number } & Record<string, any>;
+    domain: any;
+    issuer: string;
+    signature: string;
+  };
+}
+
+// Reads the SSE body from /api/summarize ({ stream: true }) and dispatches each event
+async function readSummarizeStream(
+  res: Response,
+  onEvent: (event: StreamEvent) => void
+) {
+  if (!res.body) throw new Error("Streaming not supported by this browser");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let sep: number;
+    while ((sep = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+      const data = block
+        .split("\n")
+        .filter((l) => l.startsWith("data:"))
+        .map((l) => l.slice(5).trim())
+        .join("\n");
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+}
+
 export default function AIStudio() {
   const [activeTab, setActiveTab] = useState<"generate" | "verify">("generate");
   const [inputText, setInputText] = useState(
     "Write a concise summary about zero-knowledge proofs applications in content authenticity."
   );
   const [isGenerating, setIsGenerating] = useState(false);
+  const [stage, setStage] = useState<string | null>(null);
+  const [queueNote, setQueueNote] = useState<string | null>(null);
+  const [streamedText, setStreamedText] = useState("");
   const [unsigned, setUnsigned] = useState<UnsignedProvenanceResponse | null>(
     null
   );
@@ -36,6 +162,25 @@ export default function AIStudio() {
   const [proofCid, setProofCid] = useState<string | null>(null);
   const [signature, setSignature] = useState<string | null>(null);
   const [wantZk, setWantZk] = useState(true);
+  const [allowFallback, setAllowFallback] = useState(true);
+  // Sign records with a browser session key the wallet delegated to (one wallet prompt)
+  const [useSessionKey, setUseSessionKey] = useState(false);
+  const [sessionDelegate, setSessionDelegate] = useState<string | null>(null);
+  const [longDocument, setLongDocument] = useState(false);
+  // Structured mode: JSON Schema the output must satisfy (schema hash is signed)
+  const [structuredMode, setStructuredMode] = useState(false);
+  const [schemaText, setSchemaText] = useState<string>(DEFAULT_SCHEMA);
+  // Consensus: extra providers asked alongside the selected one (one bundle is signed)
+  const [consensusMode, setConsensusMode] = useState(false);
+  const [consensusProviders, setConsensusProviders] = useState<string[]>([]);
+  const [sourceDocs, setSourceDocs] = useState<Array<{ title: string; text: string }>>([]);
+  // SPDX license expression signed with the output ("" = not declared)
+  const [license, setLicense] = useState<string>("");
+  // Prompt template selection ("" content type = provider's default summary prompt)
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [contentType, setContentType] = useState<string>("");
+  const [templateId, setTemplateId] = useState<string>("");
+  const [templateVariables, setTemplateVariables] = useState<Record<string, string>>({});
   const [error, setError] = useState<string | null>(null);
   const [saveState, setSaveState] = useState<
     "idle" | "saving" | "saved" | "error"
@@ -44,11 +189,15 @@ export default function AIStudio() {
   const [savedSignatureCid, setSavedSignatureCid] = useState<string | null>(
     null
   );
-  // Provider & model selection
-  const [provider, setProvider] = useState<
-    "mock" | "openai" | "anthropic" | "together"
-  >("mock");
+  // Provider & model selection (options come from the server-side provider registry)
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [provider, setProvider] = useState<string>("mock");
   const [model, setModel] = useState<string>("");
+  const selectedProvider = providers.find((p) => p.name === provider);
+  // Live catalog from the health probe; the registry's static list when the probe has none
+  const modelOptions = selectedProvider?.health?.models.length
+    ? selectedProvider.health.models
+    : selectedProvider?.models || [];
 
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
@@ -56,6 +205,44 @@ export default function AIStudio() {
   const [mounted, setMounted] = useState(false);
   useEffect(() => setMounted(true), []);
 
+  useEffect(() => {
+    fetch("/api/providers")
+      .then((res) => res.json())
+      .then((json) => {
+        // Only providers whose backend answered the probe are offered
+        const list: ProviderOption[] = (json.providers || []).filter(
+          (p: ProviderOption) => p.configured && (p.health ? p.health.available : true)
+        );
+        setProviders(list);
+        setProvider((current) =>
+          list.some((p) => p.name === current) ? current : list[0]?.name || "mock"
+        );
+      })
+      .catch((e) => console.error("Failed to load providers", e));
+    fetch("/api/templates")
+      .then((res) => res.json())
+      .then((json) => setTemplates(json.templates || []))
+      .catch((e) => console.error("Failed to load templates", e));
+  }, []);
+
+  const typeTemplates = templates.filter((t) => t.contentType === contentType);
+  const selectedTemplate = templates.find((t) => t.templateId === templateId);
+
+  function selectTemplate(id: string) {
+    setTemplateId(id);
+    const t = templates.find((x) => x.templateId === id);
+    setTemplateVariables(
+      Object.fromEntries((t?.variables || []).map((v) => [v.name, v.default]))
+    );
+  }
+
+  function handleContentTypeChange(type: string) {
+    // Clicking the active type again returns to the plain summary prompt
+    const next = type === contentType ? "" : type;
+    setContentType(next);
+    selectTemplate(templates.find((t) => t.contentType === next)?.templateId || "");
+  }
+
   async function handleGenerate() {
     if (!inputText.trim()) return;
     setIsGenerating(true);
@@ -65,10 +252,23 @@ export default function AIStudio() {
     setJournalCid(null);
     setProofCid(null);
     setSignature(null);
+    setStage(null);
+    setStreamedText("");
     try {
+      let structured: { schema: Record<string, any> } | undefined;
+      if (structuredMode) {
+        try {
+          structured = { schema: JSON.parse(schemaText) };
+        } catch {
+          throw new Error("Output schema is not valid JSON");
+        }
+      }
       const res = await fetch("/api/summarize", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
         body: JSON.stringify({
           text: inputText,
           signer: address || "demo_user",
@@ -76,10 +276,49 @@ export default function AIStudio() {
           model: model || undefined,
           useZk: wantZk,
           params: { temperature: 0, top_p: 1 },
+          strict: !allowFallback,
+          longDocument: longDocument || undefined,
+          templateId: templateId || undefined,
+          templateVariables: templateId ? templateVariables : undefined,
+          structured,
+          consensus: consensusMode
+            ? {
+                providers: [provider, ...consensusProviders.filter((p) => p !== provider)],
+                models: model ? { [provider]: model } : undefined,
+              }
+            : undefined,
+          sources: sourceDocs.length ? sourceDocs : undefined,
+          license: license.trim() || undefined,
+          // Envelope is issued under the EIP-712 domain of the connected chain
+          chainId: isConnected ? chainId : undefined,
+          stream: true,
         }),
       });
-      if (!res.ok) throw new Error(`Generation failed (${res.status})`);
-      const data: UnsignedProvenanceResponse = await res.json();
+      if (!res.ok) {
+        const detail = await res.json().catch(() => null);
+        throw new Error(
+          detail?.error
+            ? `Generation failed: ${detail.error}${res.status === 403 && detail.details ? ` (${detail.details})` : ""}`
+            : `Generation failed (${res.status})`
+        );
+      }
+      const received: { data?: UnsignedProvenanceResponse } = {};
+      await readSummarizeStream(res, (event) => {
+        if (event.type === "token") {
+          setStreamedText((prev) => prev + event.token);
+        } else if (event.type === "stage") {
+          setStage(event.stage);
+          setQueueNote(event.stage === "queued" ? event.detail || null : null);
+          // A fresh "generating" stage means the server switched provider
+          if (event.stage === "generating") setStreamedText("");
+        } else if (event.type === "result") {
+          received.data = event.data;
+        } else if (event.type === "error") {
+          throw new Error(event.details || event.error);
+        }
+      });
+      const data = received.data;
+      if (!data) throw new Error("Generation stream ended without a result");
       setUnsigned(data);
       setEditableContent(data.providerOutput || "");
       if (data.zk) {
@@ -91,6 +330,7 @@ export default function AIStudio() {
       setError(e instanceof Error ? e.message : "Unknown error");
     } finally {
       setIsGenerating(false);
+      setStage(null);
     }
   }
 
@@ -169,6 +409,42 @@ export default function AIStudio() {
     };
   }
 
+  // Session key for the connected wallet and chain, delegated by a wallet-signed certificate
+  async function loadSessionDelegation(): Promise<SessionDelegation> {
+    const stored = sessionStorage.getItem(SESSION_KEY_STORAGE);
+    if (stored) {
+      const session: SessionDelegation = JSON.parse(stored);
+      const { delegation } = session;
+      if (
+        delegation.issuer.toLowerCase() === address?.toLowerCase() &&
+        Number(delegation.domain.chainId) === chainId &&
+        delegation.certificate.expiresAt > Date.now()
+      ) {
+        return session;
+      }
+    }
+    const key = Wallet.createRandom();
+    const res = await fetch("/api/delegation", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ delegate: key.address, expiresInMs: SESSION_KEY_TTL_MS, maxCount: SESSION_KEY_MAX_COUNT, chainId }),
+    });
+    if (!res.ok) throw new Error(`Delegation failed (${res.status})`);
+    const unsignedCert = await res.json();
+    const certSignature = await signTypedDataAsync({
+      domain: unsignedCert.domain,
+      types: unsignedCert.types,
+      primaryType: unsignedCert.primaryType,
+      message: unsignedCert.certificate,
+    });
+    const session: SessionDelegation = {
+      privateKey: key.privateKey,
+      delegation: { certificate: unsignedCert.certificate, domain: unsignedCert.domain, issuer: address!, signature: certSignature },
+    };
+    sessionStorage.setItem(SESSION_KEY_STORAGE, JSON.stringify(session));
+    return session;
+  }
+
   async function handleSignAndPublish() {
     console.log("[DEBUG] handleSignAndPublish called", { unsigned, isConnected, address });
     if (!unsigned) {
@@ -188,7 +464,25 @@ export default function AIStudio() {
          provenanceToSign = recalculated;
        }
       let sig: string | null = null;
-        if (isConnected && signTypedDataAsync) {
+      let signer = address || "demo_user";
+      let delegation: SessionDelegation["delegation"] | undefined;
+        if (isConnected && Number(provenanceToSign.domain?.chainId) !== chainId) {
+          throw new Error(`Envelope was issued for chain ${provenanceToSign.domain?.chainId}; switch your wallet back or generate again`);
+        }
+        if (isConnected && useSessionKey) {
+          const session = await loadSessionDelegation();
+          const key = new Wallet(session.privateKey);
+          console.log("[DEBUG] Signing with session key", key.address);
+          sig = await key.signTypedData(
+            provenanceToSign.domain,
+            { ContentProvenance: provenanceToSign.types.ContentProvenance },
+            provenanceToSign.provenance
+          );
+          signer = key.address;
+          delegation = session.delegation;
+          setSessionDelegate(key.address);
+          setSignature(sig);
+        } else if (isConnected && signTypedDataAsync) {
           console.log("[DEBUG] Signing with MetaMask...");
           sig = await signTypedDataAsync({
             domain: provenanceToSign.domain,
@@ -206,8 +500,17 @@ export default function AIStudio() {
           body: JSON.stringify({
             provenance: provenanceToSign.provenance,
             signature: sig || "unsigned",
-            signer: address || "demo_user",
+            signer,
+            domain: provenanceToSign.domain,
             promptCid: provenanceToSign.promptCid,
+            params: provenanceToSign.params,
+            modelFingerprint: provenanceToSign.modelFingerprint,
+            usage: provenanceToSign.usage,
+            template: provenanceToSign.template,
+            outputSchema: provenanceToSign.outputSchema,
+            consensus: provenanceToSign.consensus,
+            moderationPolicy: provenanceToSign.moderationPolicy,
+            delegation,
           }),
         });
       console.log("[DEBUG] Publish response status:", publishRes.status);
@@ -283,48 +586,127 @@ export default function AIStudio() {
                   <select
                     value={provider}
                     onChange={(e) => {
-                      const p = e.target.value as typeof provider;
+                      const p = e.target.value;
                       setProvider(p);
-                      // Reset model placeholder when provider changes
-                      if (p === "mock") setModel("");
-                      if (p === "openai" && !model) setModel("gpt-4o-mini");
-                      if (p === "anthropic" && !model)
-                        setModel("claude-3-haiku-20240307");
-                      if (p === "together" && !model)
-                        setModel("meta-llama/Meta-Llama-3-8B-Instruct-Turbo");
+                      // Reset model to the provider's default when provider changes; if the
+                      // backend does not serve it, pick the first model it reported instead
+                      const def = providers.find((x) => x.name === p);
+                      const live = def?.health?.models || [];
+                      setModel(
+                        p === "mock" || !def || !live.length || live.includes(def.defaultModel)
+                          ? ""
+                          : live[0]
+                      );
                     }}
                     className="w-full border-2 border-slate-200 rounded-lg px-3 py-2 text-sm bg-white focus:border-blue-500 focus:outline-none"
                   >
-                    <option value="mock">Mock (deterministic)</option>
-                    <option value="openai">OpenAI</option>
-                    <option value="anthropic">Anthropic</option>
-                    <option value="together">Together</option>
+                    {providers.length === 0 && (
+                      <option value="mock">Mock (deterministic)</option>
+                    )}
+                    {providers.map((p) => (
+                      <option key={p.name} value={p.name}>
+                        {p.displayName}
+                        {p.health?.latencyMs != null && ` (${p.health.latencyMs} ms)`}
+                      </option>
+                    ))}
                   </select>
                 </div>
                 <div className="flex-1">
                   <label className="block font-semibold text-slate-700 mb-1 text-sm">
-                    Model (optional)
+                    Model
                   </label>
-                  <input
+                  <select
                     value={model}
                     onChange={(e) => setModel(e.target.value)}
-                    placeholder={
-                      provider === "mock"
-                        ? "N/A"
-                        : provider === "openai"
-                        ? "gpt-4o-mini"
-                        : provider === "anthropic"
-                        ? "claude-3-haiku-20240307"
-                        : "meta-llama/Meta-Llama-3-8B-Instruct-Turbo"
-                    }
                     disabled={provider === "mock"}
                     className="w-full border-2 border-slate-200 rounded-lg px-3 py-2 text-sm bg-white focus:border-blue-500 focus:outline-none disabled:opacity-50"
-                  />
+                  >
+                    <option value="">
+                      {provider === "mock"
+                        ? "N/A"
+                        : `Default (${selectedProvider?.defaultModel || "provider default"})`}
+                    </option>
+                    {provider !== "mock" &&
+                      modelOptions.map((m) => (
+                        <option key={m} value={m}>
+                          {m}
+                        </option>
+                      ))}
+                  </select>
                 </div>
               </div>
-              
-              {/* ZK Proof Toggle */}
-              <div className="mb-4">
+
+              {/* Content type -> prompt template */}
+              <div className="mb-4 grid md:grid-cols-[220px_1fr] gap-4">
+                <ContentTypeSelector
+                  selectedType={contentType}
+                  onTypeChange={handleContentTypeChange}
+                />
+                <div className="text-sm">
+                  {!contentType ? (
+                    <p className="text-slate-500">
+                      Plain summary (provider default prompt). Pick a content type to use a versioned
+                      template; its ID and hash are signed into the provenance.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block font-semibold text-slate-700 mb-1">
+                          Template
+                        </label>
+                        <select
+                          value={templateId}
+                          onChange={(e) => selectTemplate(e.target.value)}
+                          className="w-full border-2 border-slate-200 rounded-lg px-3 py-2 bg-white focus:border-blue-500 focus:outline-none"
+                        >
+                          {typeTemplates.map((t) => (
+                            <option key={t.templateId} value={t.templateId}>
+                              {t.name} ({t.templateId})
+                            </option>
+                          ))}
+                        </select>
+                        {selectedTemplate && (
+                          <p className="text-slate-500 mt-1">{selectedTemplate.description}</p>
+                        )}
+                      </div>
+                      {selectedTemplate?.variables.map((v) => (
+                        <div key={v.name}>
+                          <label className="block font-semibold text-slate-700 mb-1">
+                            {v.label}
+                          </label>
+                          {v.options ? (
+                            <select
+                              value={templateVariables[v.name] ?? v.default}
+                              onChange={(e) =>
+                                setTemplateVariables({ ...templateVariables, [v.name]: e.target.value })
+                              }
+                              className="w-full border-2 border-slate-200 rounded-lg px-3 py-2 bg-white focus:border-blue-500 focus:outline-none"
+                            >
+                              {v.options.map((o) => (
+                                <option key={o} value={o}>
+                                  {o}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <input
+                              value={templateVariables[v.name] ?? ""}
+                              onChange={(e) =>
+                                setTemplateVariables({ ...templateVariables, [v.name]: e.target.value })
+                              }
+                              placeholder={v.default}
+                              className="w-full border-2 border-slate-200 rounded-lg px-3 py-2 bg-white focus:border-blue-500 focus:outline-none"
+                            />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* ZK Proof / Fallback Toggles */}
+              <div className="mb-4 space-y-2">
                 <label className="flex items-center gap-2 text-sm">
                   <input
                     type="checkbox"
@@ -339,6 +721,125 @@ export default function AIStudio() {
                     (Generate cryptographic proof of computation)
                   </span>
                 </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={allowFallback}
+                    onChange={(e) => setAllowFallback(e.target.checked)}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="font-semibold text-slate-700">
+                    Allow fallback providers
+                  </span>
+                  <span className="text-slate-500">
+                    (substitution is recorded in the signed provenance)
+                  </span>
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={useSessionKey}
+                    onChange={(e) => setUseSessionKey(e.target.checked)}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="font-semibold text-slate-700">
+                    Sign with a session key
+                  </span>
+                  <span className="text-slate-500">
+                    (approve one delegation in your wallet; records stay traceable to it{sessionDelegate ? ` · key ${sessionDelegate.slice(0, 8)}…` : ""})
+                  </span>
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={longDocument}
+                    onChange={(e) => {
+                      setLongDocument(e.target.checked);
+                      if (e.target.checked) {
+                        setStructuredMode(false);
+                        setConsensusMode(false);
+                      }
+                    }}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="font-semibold text-slate-700">
+                    Long document mode
+                  </span>
+                  <span className="text-slate-500">
+                    (summarize chunks, then combine; chunk Merkle root is signed)
+                  </span>
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={structuredMode}
+                    onChange={(e) => {
+                      setStructuredMode(e.target.checked);
+                      if (e.target.checked) {
+                        setLongDocument(false);
+                        setConsensusMode(false);
+                      }
+                    }}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="font-semibold text-slate-700">
+                    Structured JSON output
+                  </span>
+                  <span className="text-slate-500">
+                    (validated against the schema below; schema hash is signed)
+                  </span>
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={consensusMode}
+                    onChange={(e) => {
+                      setConsensusMode(e.target.checked);
+                      if (e.target.checked) {
+                        setLongDocument(false);
+                        setStructuredMode(false);
+                      }
+                    }}
+                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="font-semibold text-slate-700">
+                    Multi-provider consensus
+                  </span>
+                  <span className="text-slate-500">
+                    (every output is stored; one bundle with the agreement score is signed)
+                  </span>
+                </label>
+                {consensusMode && (
+                  <div className="flex flex-wrap gap-3 pl-6 text-sm">
+                    {providers
+                      .filter((p) => p.configured && p.name !== provider)
+                      .map((p) => (
+                        <label key={p.name} className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={consensusProviders.includes(p.name)}
+                            onChange={(e) =>
+                              setConsensusProviders(
+                                e.target.checked
+                                  ? [...consensusProviders, p.name]
+                                  : consensusProviders.filter((x) => x !== p.name)
+                              )
+                            }
+                            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          {p.displayName}
+                        </label>
+                      ))}
+                  </div>
+                )}
+                {structuredMode && (
+                  <textarea
+                    value={schemaText}
+                    onChange={(e) => setSchemaText(e.target.value)}
+                    className="w-full h-28 p-2 font-mono text-xs border-2 border-slate-200 rounded-lg focus:border-blue-500 focus:outline-none"
+                    spellCheck={false}
+                  />
+                )}
               </div>
               
               <label className="block font-semibold text-slate-700 mb-2">
@@ -350,15 +851,50 @@ export default function AIStudio() {
                 className="w-full h-32 p-4 border-2 border-slate-200 rounded-lg resize-none focus:border-blue-500 focus:outline-none transition-colors"
                 placeholder="Enter text to summarize..."
               />
+              <div className="mt-3 text-sm text-slate-700">
+                <label className="block font-medium mb-1">Source Documents (optional)</label>
+                <input
+                  type="file"
+                  multiple
+                  accept=".txt,.md,.html,.csv,.json,text/*"
+                  onChange={async (e) => {
+                    const files = Array.from(e.target.files || []);
+                    setSourceDocs(await Promise.all(files.map(async (f) => ({ title: f.name, text: await f.text() }))));
+                  }}
+                  className="block text-sm text-slate-600"
+                />
+                {sourceDocs.length > 0 && (
+                  <div className="mt-1 text-xs text-slate-500">
+                    {sourceDocs.length} source{sourceDocs.length > 1 ? "s" : ""} attached; each is hashed and signed into the provenance
+                  </div>
+                )}
+              </div>
+              <div className="mt-3 text-sm text-slate-700">
+                <label className="block font-medium mb-1">License (optional)</label>
+                <input
+                  type="text"
+                  value={license}
+                  onChange={(e) => setLicense(e.target.value)}
+                  placeholder="SPDX expression, e.g. CC-BY-4.0"
+                  className="w-64 p-2 border-2 border-slate-200 rounded-lg text-sm focus:border-blue-500 focus:outline-none"
+                />
+              </div>
               <div className="mt-4 flex items-center gap-4 flex-wrap">
                 <button
                   onClick={handleGenerate}
-                  disabled={isGenerating || !inputText.trim()}
+                  disabled={isGenerating || (!inputText.trim() && !sourceDocs.length)}
                   className="px-5 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
                 >
-                  {isGenerating ? "⏳ Generating..." : "✨ Generate Summary"}
+                  {isGenerating
+                    ? `⏳ ${(stage && stageLabels[stage]) || "Generating"}${queueNote ? ` (${queueNote})` : ""}...`
+                    : "✨ Generate Summary"}
                 </button>
               </div>
+              {isGenerating && streamedText && (
+                <pre className="mt-4 whitespace-pre-wrap text-sm bg-slate-50 p-4 rounded border border-slate-200 font-mono">
+                  {streamedText}
+                </pre>
+              )}
               {error && (
                 <div className="mt-3 text-sm text-red-600">{error}</div>
               )}
@@ -388,11 +924,82 @@ export default function AIStudio() {
                       )}
                     </div>
                     <div>Model ID: {unsigned.provenance.modelId}</div>
+                    <div
+                      className={
+                        unsigned.provenance.provider !==
+                        unsigned.provenance.requestedProvider
+                          ? "text-orange-600"
+                          : ""
+                      }
+                    >
+                      Provider: {unsigned.provenance.provider}
+                      {unsigned.provenance.provider !==
+                        unsigned.provenance.requestedProvider &&
+                        ` (fallback; requested ${unsigned.provenance.requestedProvider})`}
+                    </div>
                     <div>Prompt Hash: {unsigned.provenance.promptHash}</div>
                     <div className={editableContent !== unsigned.providerOutput ? "text-orange-600" : ""}>
                       Output Hash: {editableContent !== unsigned.providerOutput && currentOutputHash ? currentOutputHash : unsigned.provenance.outputHash}
                     </div>
                     <div>Params Hash: {unsigned.provenance.paramsHash}</div>
+                    {unsigned.usage && (
+                      <div>
+                        Usage: {unsigned.usage.promptTokens} + {unsigned.usage.completionTokens} tokens
+                        {unsigned.usage.estimated && " (estimated)"}
+                        {typeof unsigned.usage.latencyMs === "number" && `, ${unsigned.usage.latencyMs} ms`}
+                        {typeof unsigned.usage.costUsd === "number" && `, ~$${unsigned.usage.costUsd.toFixed(6)}`}
+                      </div>
+                    )}
+                    {unsigned.provenance.templateId && (
+                      <div>
+                        Template: {unsigned.provenance.templateId} ({unsigned.provenance.templateHash})
+                      </div>
+                    )}
+                    {unsigned.consensus && (
+                      <div>
+                        Consensus: {(unsigned.consensus.agreement.score * 100).toFixed(1)}% agreement across{" "}
+                        {unsigned.consensus.members.map((m, i) => (
+                          <span key={m.provider}>
+                            {i > 0 && ", "}
+                            {m.provider}
+                            {i === unsigned.consensus!.selected && " (selected)"}
+                          </span>
+                        ))}
+                        {unsigned.consensus.failures.length > 0 &&
+                          `; failed: ${unsigned.consensus.failures.map((f) => f.provider).join(", ")}`}
+                        {" "}(bundle {unsigned.provenance.bundleCid})
+                      </div>
+                    )}
+                    <div>
+                      Schema: v{unsigned.provenance.version} · {unsigned.provenance.mimeType}
+                      {unsigned.provenance.license && ` · ${unsigned.provenance.license}`}
+                    </div>
+                    {unsigned.moderation && (
+                      <div>
+                        Content policy: {unsigned.moderation.policyId} — {unsigned.moderation.verdict} (
+                        {unsigned.provenance.moderationPolicyHash})
+                      </div>
+                    )}
+                    {unsigned.sources && (
+                      <div>
+                        Sources: {unsigned.sources.map((s) => s.title || s.url || `#${s.index + 1}`).join(", ")}{" "}
+                        (root {unsigned.provenance.sourcesRoot}, manifest {unsigned.provenance.sourcesManifestCid})
+                      </div>
+                    )}
+                    {unsigned.outputSchema && (
+                      <div>
+                        Schema Hash: {unsigned.provenance.schemaHash}
+                        {unsigned.structured && unsigned.structured.attempts > 1 && ` (valid after ${unsigned.structured.attempts} attempts)`}
+                      </div>
+                    )}
+                    {unsigned.provenance.chunkManifestCid && (
+                      <div>
+                        Chunk Root: {unsigned.provenance.chunkRoot} (manifest {unsigned.provenance.chunkManifestCid})
+                      </div>
+                    )}
+                    {unsigned.provenance.modelHash && (
+                      <div>Model Hash: {unsigned.provenance.modelHash}</div>
+                    )}
                     <div className={editableContent !== unsigned.providerOutput ? "text-orange-600" : ""}>
                       Content CID: {editableContent !== unsigned.providerOutput ? "(will be recalculated)" : unsigned.provenance.contentCid}
                     </div>
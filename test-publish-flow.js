@@ -27,18 +27,25 @@ async function testPublishFlow() {
     console.log('Summary generated successfully');
     console.log('Provenance:', JSON.stringify(summarizeData.provenance, null, 2));
     
-    // Step 2: Test publish endpoint
-    console.log('\n2. Testing publish...');
-    const publishRes = await fetch('http://localhost:3000/api/publish', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        provenance: summarizeData.provenance,
-        signature: '0xtest_signature_123',
-        signer: 'demo_user',
-        promptCid: summarizeData.promptCid
-      })
-    });
+    // Step 2: Test publish endpoint (real signature from the server signer when a token is set)
+    const token = process.env.SERVER_SIGNER_TOKEN;
+    console.log(`\n2. Testing publish${token ? ' via server signer' : ''}...`);
+    const publishRes = token
+      ? await fetch('http://localhost:3000/api/sign-publish', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+          body: JSON.stringify(summarizeData)
+        })
+      : await fetch('http://localhost:3000/api/publish', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            provenance: summarizeData.provenance,
+            signature: '0xtest_signature_123',
+            signer: 'demo_user',
+            promptCid: summarizeData.promptCid
+          })
+        });
     
     if (!publishRes.ok) {
       const errorText = await publishRes.text();